@@ -0,0 +1,238 @@
+// scripts/test-expiration-automation.js
+// Runs TokenExpirationAutomation against TokenizeAI on an in-process local chain and
+// checks that checkUpkeep/performUpkeep really record expired tokens.
+//
+// Needs the Solidity toolchain, which the app itself doesn't depend on:
+//   npm install --no-save solc@0.8.24 ganache @openzeppelin/contracts@5.0.2
+//   (later 5.x releases use mcopy, which the shanghai target below rejects)
+//   node scripts/test-expiration-automation.js
+
+const fs = require("fs");
+const path = require("path");
+const solc = require("solc");
+const ganache = require("ganache");
+const {
+    createPublicClient,
+    createWalletClient,
+    custom,
+    defineChain,
+    parseEther,
+    decodeErrorResult,
+    parseEventLogs,
+} = require("viem");
+const { privateKeyToAccount } = require("viem/accounts");
+
+const ARTIFACTS_DIR = path.join(__dirname, "..", "src", "app", "artifacts");
+const TOKEN_STATUS = ["Draft", "Active", "Paused", "SoldOut", "Expired", "Retired"];
+const DAY = 24 * 60 * 60;
+
+const localChain = defineChain({
+    id: 1337,
+    name: "Local",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: ["http://127.0.0.1:8545"] } },
+});
+
+function compile(fileName, contractName) {
+    const findImports = (importPath) => {
+        try {
+            const resolved = importPath.startsWith("@")
+                ? require.resolve(importPath)
+                : path.join(ARTIFACTS_DIR, importPath);
+            return { contents: fs.readFileSync(resolved, "utf8") };
+        } catch (error) {
+            return { error: `Cannot resolve ${importPath}` };
+        }
+    };
+
+    const input = {
+        language: "Solidity",
+        sources: { [fileName]: { content: fs.readFileSync(path.join(ARTIFACTS_DIR, fileName), "utf8") } },
+        settings: {
+            optimizer: { enabled: true, runs: 200 },
+            evmVersion: "shanghai",
+            outputSelection: { "*": { "*": ["abi", "evm.bytecode.object", "evm.deployedBytecode.object"] } },
+        },
+    };
+
+    const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+    const errors = (output.errors || []).filter((error) => error.severity === "error");
+    if (errors.length > 0) {
+        throw new Error(errors.map((error) => error.formattedMessage).join("\n"));
+    }
+
+    const contract = output.contracts[fileName][contractName];
+    return {
+        abi: contract.abi,
+        bytecode: `0x${contract.evm.bytecode.object}`,
+        runtimeSize: contract.evm.deployedBytecode.object.length / 2,
+    };
+}
+
+async function main() {
+    console.log("🧪 Testing token expiration automation on a local chain\n");
+
+    // Chain and accounts
+    const provider = ganache.provider({
+        logging: { quiet: true },
+        wallet: { totalAccounts: 4, defaultBalance: 1000, deterministic: true },
+        chain: { chainId: 1337, hardfork: "shanghai" },
+    });
+    const initialAccounts = provider.getInitialAccounts();
+    const [owner, creator, stranger] = Object.keys(initialAccounts).map((address) =>
+        createWalletClient({
+            account: privateKeyToAccount(initialAccounts[address].secretKey),
+            chain: localChain,
+            transport: custom(provider),
+        })
+    );
+    const publicClient = createPublicClient({ chain: localChain, transport: custom(provider) });
+
+    const send = async (wallet, contract, functionName, args = []) => {
+        const hash = await wallet.writeContract({ address: contract.address, abi: contract.abi, functionName, args, gas: 5_000_000n });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") {
+            throw new Error(`${functionName} reverted`);
+        }
+        return receipt;
+    };
+
+    const read = (contract, functionName, args = []) =>
+        publicClient.readContract({ address: contract.address, abi: contract.abi, functionName, args });
+
+    const increaseTime = async (seconds) => {
+        await provider.request({ method: "evm_increaseTime", params: [seconds] });
+        await provider.request({ method: "evm_mine", params: [] });
+    };
+
+    // Name of the custom error a call reverts with, or null if it succeeds
+    const revertReason = async (wallet, contract, functionName, args) => {
+        try {
+            await publicClient.simulateContract({ account: wallet.account, address: contract.address, abi: contract.abi, functionName, args });
+            return null;
+        } catch (error) {
+            for (let cause = error; cause; cause = cause.cause) {
+                if (typeof cause.data === "string" && cause.data.startsWith("0x")) {
+                    return decodeErrorResult({ abi: contract.abi, data: cause.data }).errorName;
+                }
+                if (cause.data?.errorName) return cause.data.errorName;
+            }
+            return error.shortMessage || error.message;
+        }
+    };
+
+    const assert = (condition, message) => {
+        if (!condition) throw new Error(`Assertion failed: ${message}`);
+        console.log(`   ✅ ${message}`);
+    };
+
+    // Compile and deploy
+    console.log("🔨 Compiling contracts...");
+    const tokenizeArtifact = compile("TokenizeAI.sol", "TokenizeAI");
+    const automationArtifact = compile("TokenExpirationAutomation.sol", "TokenExpirationAutomation");
+    console.log(`   TokenizeAI runtime size: ${tokenizeArtifact.runtimeSize} bytes (limit 24576)`);
+
+    const deploy = async (artifact, args = []) => {
+        const hash = await owner.deployContract({ abi: artifact.abi, bytecode: artifact.bytecode, args });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        return { address: receipt.contractAddress, abi: artifact.abi };
+    };
+
+    console.log("🚀 Deploying...");
+    const tokenizeAI = await deploy(tokenizeArtifact);
+    const automation = await deploy(automationArtifact, [tokenizeAI.address]);
+    console.log("   TokenizeAI:", tokenizeAI.address);
+    console.log("   TokenExpirationAutomation:", automation.address);
+
+    // Tokens 1-12 run for 30 days, 13-15 for 3 days, so the expired ones sit past the first batch
+    console.log("\n🎨 Creating tokens...");
+    const shortLived = [13n, 14n, 15n];
+    for (let i = 1; i <= 15; i++) {
+        const validityDays = i > 12 ? 3n : 30n;
+        await send(creator, tokenizeAI, "createTimeToken", [creator.account.address, `Service ${i}`, parseEther("0.01"), 10n, validityDays, ""]);
+    }
+    // A paused short-lived token is left alone by the automation
+    await send(creator, tokenizeAI, "createTimeToken", [creator.account.address, "Paused service", parseEther("0.01"), 10n, 3n, ""]);
+    await send(creator, tokenizeAI, "setTokenStatus", [16n, 2]);
+
+    console.log("\n🔐 Checking permissions...");
+    assert(
+        await revertReason(stranger, tokenizeAI, "setAutomation", [stranger.account.address, true]) === "OwnableUnauthorizedAccount",
+        "only the owner can grant the automation role"
+    );
+    assert(
+        await revertReason(owner, tokenizeAI, "expireToken", [13n]) === "OnlyAutomation",
+        "expireToken is closed to accounts without the automation role"
+    );
+
+    let [upkeepNeeded] = await read(automation, "checkUpkeep", ["0x"]);
+    assert(!upkeepNeeded, "no upkeep is needed before anything expires");
+
+    console.log("\n⏩ Advancing 4 days...");
+    await increaseTime(4 * DAY);
+
+    [upkeepNeeded] = await read(automation, "checkUpkeep", ["0x"]);
+    assert(upkeepNeeded, "checkUpkeep finds the expired tokens");
+
+    // Without the role every expiry fails and is reported instead of silently skipped
+    const [, unauthorizedData] = await read(automation, "checkUpkeep", ["0x"]);
+    const unauthorized = await send(stranger, automation, "performUpkeep", [unauthorizedData]);
+    const failures = parseEventLogs({ abi: automation.abi, logs: unauthorized.logs, eventName: "TokenExpiryFailed" });
+    assert(failures.length === shortLived.length, "performUpkeep reports each failed expiry while the role is missing");
+    assert(
+        failures.every((log) => decodeErrorResult({ abi: tokenizeAI.abi, data: log.args.reason }).errorName === "OnlyAutomation"),
+        "failures carry the OnlyAutomation revert"
+    );
+
+    console.log("\n🤖 Granting the automation role and running upkeeps...");
+    await send(owner, tokenizeAI, "setAutomation", [automation.address, true]);
+
+    const cleared = [];
+    for (let round = 1; round <= 5; round++) {
+        const [needed, performData] = await read(automation, "checkUpkeep", ["0x"]);
+        if (!needed) break;
+
+        // Like a Chainlink keeper, anyone can submit the simulated performData
+        const receipt = await send(stranger, automation, "performUpkeep", [performData]);
+        const expired = parseEventLogs({ abi: automation.abi, logs: receipt.logs, eventName: "TokenExpired" });
+        const statusChanges = parseEventLogs({ abi: tokenizeAI.abi, logs: receipt.logs, eventName: "TokenStatusChanged" });
+        console.log(`   Upkeep ${round}: expired ${expired.map((log) => `#${log.args.tokenId}`).join(", ")}`);
+
+        const [summary] = parseEventLogs({ abi: automation.abi, logs: receipt.logs, eventName: "TokensDeactivated" });
+        assert(statusChanges.length === expired.length, `upkeep ${round} emits a TokenStatusChanged per expiry`);
+        assert(summary?.args.tokenIds.length === expired.length, `upkeep ${round} summarizes the cleared tokens in TokensDeactivated`);
+        cleared.push(...expired.map((log) => log.args.tokenId));
+    }
+
+    console.log("\n🔍 Verifying token states...");
+    assert(
+        shortLived.every((tokenId) => cleared.includes(tokenId)) && cleared.length === shortLived.length,
+        "exactly the expired tokens were cleared"
+    );
+    for (let tokenId = 1n; tokenId <= 16n; tokenId++) {
+        const token = await read(tokenizeAI, "getTimeToken", [tokenId]);
+        const expected = tokenId === 16n ? "Paused" : shortLived.includes(tokenId) ? "Expired" : "Active";
+        if (TOKEN_STATUS[token.status] !== expected) {
+            throw new Error(`Token #${tokenId} is ${TOKEN_STATUS[token.status]}, expected ${expected}`);
+        }
+    }
+    console.log("   ✅ stored statuses match: 1-12 Active, 13-15 Expired, 16 Paused");
+
+    [upkeepNeeded] = await read(automation, "checkUpkeep", ["0x"]);
+    assert(!upkeepNeeded, "no upkeep is needed once everything is cleared");
+
+    assert(
+        await revertReason(owner, tokenizeAI, "expireToken", [1n]) === "OnlyAutomation",
+        "expireToken still requires the role"
+    );
+    console.log("\n🛠️ Creator extends an expired token...");
+    await send(creator, tokenizeAI, "extendTokenValidity", [13n, 7n]);
+    assert(TOKEN_STATUS[await read(tokenizeAI, "getTokenStatus", [13n])] === "Active", "extending an expired token makes it Active again");
+
+    console.log("\n🎉 Expiration automation works end to end");
+}
+
+main().catch((error) => {
+    console.error("\n❌ Expiration automation test failed:", error);
+    process.exit(1);
+});
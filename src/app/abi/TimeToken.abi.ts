@@ -6,6 +6,63 @@ export const TIME_TOKEN_ABI = [
 		"stateMutability": "nonpayable",
 		"type": "constructor"
 	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "target",
+				"type": "address"
+			}
+		],
+		"name": "AddressEmptyCode",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			}
+		],
+		"name": "AddressInsufficientBalance",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AssetNotAccepted",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AssetNotAllowed",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "BuyerLacksHours",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "DisputeDeadlineNotReached",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "DisputeDeadlinePassed",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "DisputeNotOpen",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EmptyBatch",
+		"type": "error"
+	},
 	{
 		"inputs": [
 			{
@@ -108,6 +165,132 @@ export const TIME_TOKEN_ABI = [
 		"name": "ERC1155MissingApprovalForAll",
 		"type": "error"
 	},
+	{
+		"inputs": [],
+		"name": "EscrowNotHeld",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EscrowRequired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EscrowTimeoutNotReached",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EscrowTimeoutPassed",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EvidenceRequired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "FailedInnerCall",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "FeeTooHigh",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "IllegalTransition",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "IncompletePriceRound",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InsufficientPayment",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidAsset",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidEscrowTimeout",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidPrice",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"internalType": "uint8",
+				"name": "requiredLevel",
+				"type": "uint8"
+			}
+		],
+		"name": "KYCLevelInsufficient",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "LengthMismatch",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NoFeesToWithdraw",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NotCreatorOrOperator",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NotEnoughHours",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "OnlyArbiter",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "OnlyAutomation",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "OnlyBuyer",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "OnlyCreator",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "OnlyDisputeParties",
+		"type": "error"
+	},
 	{
 		"inputs": [
 			{
@@ -130,11 +313,92 @@ export const TIME_TOKEN_ABI = [
 		"name": "OwnableUnauthorizedAccount",
 		"type": "error"
 	},
+	{
+		"inputs": [],
+		"name": "PriceAboveMax",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "PriceFeedNotSet",
+		"type": "error"
+	},
 	{
 		"inputs": [],
 		"name": "ReentrancyGuardReentrantCall",
 		"type": "error"
 	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			}
+		],
+		"name": "SafeERC20FailedOperation",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ServiceNameRequired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "SplitExceedsEscrow",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "StalePrice",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "TokenExpired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "TokenNotActive",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "TokenNotExpired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "TokenRetired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "UseNativePurchase",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ZeroDays",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ZeroHours",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ZeroMaxAge",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ZeroPrice",
+		"type": "error"
+	},
 	{
 		"anonymous": false,
 		"inputs": [
@@ -160,6 +424,57 @@ export const TIME_TOKEN_ABI = [
 		"name": "ApprovalForAll",
 		"type": "event"
 	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "arbiter",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "enabled",
+				"type": "bool"
+			}
+		],
+		"name": "ArbiterUpdated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "automation",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "enabled",
+				"type": "bool"
+			}
+		],
+		"name": "AutomationUpdated",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "escrowId",
+				"type": "uint256"
+			}
+		],
+		"name": "claimAfterTimeout",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
 	{
 		"inputs": [
 			{
@@ -186,7 +501,12 @@ export const TIME_TOKEN_ABI = [
 				"internalType": "uint256",
 				"name": "validityDays",
 				"type": "uint256"
-			}
+			},
+			{
+				"internalType": "string",
+				"name": "metadataURI",
+				"type": "string"
+			}
 		],
 		"name": "createTimeToken",
 		"outputs": [
@@ -202,113 +522,93 @@ export const TIME_TOKEN_ABI = [
 	{
 		"inputs": [
 			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "deactivateToken",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			},
 			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
+				"internalType": "string[]",
+				"name": "serviceNames",
+				"type": "string[]"
 			},
 			{
-				"internalType": "address",
-				"name": "buyer",
-				"type": "address"
+				"internalType": "uint256[]",
+				"name": "pricesPerHour",
+				"type": "uint256[]"
 			},
 			{
-				"internalType": "uint256",
-				"name": "hoursAmount",
-				"type": "uint256"
+				"internalType": "uint256[]",
+				"name": "totalHours",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "validityDays",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "string[]",
+				"name": "metadataURIs",
+				"type": "string[]"
+			}
+		],
+		"name": "createTimeTokensBatch",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "tokenIds",
+				"type": "uint256[]"
 			}
 		],
-		"name": "markServiceCompleted",
-		"outputs": [],
 		"stateMutability": "nonpayable",
 		"type": "function"
 	},
 	{
-		"anonymous": false,
 		"inputs": [
 			{
-				"indexed": true,
 				"internalType": "address",
-				"name": "previousOwner",
+				"name": "creator",
 				"type": "address"
 			},
 			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "newOwner",
-				"type": "address"
-			}
-		],
-		"name": "OwnershipTransferred",
-		"type": "event"
-	},
-	{
-		"inputs": [
+				"internalType": "string",
+				"name": "serviceName",
+				"type": "string"
+			},
 			{
 				"internalType": "uint256",
-				"name": "tokenId",
+				"name": "pricePerHour",
 				"type": "uint256"
 			},
 			{
 				"internalType": "uint256",
-				"name": "hoursAmount",
+				"name": "totalHours",
 				"type": "uint256"
-			}
-		],
-		"name": "purchaseTimeToken",
-		"outputs": [],
-		"stateMutability": "payable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "renounceOwnership",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
 			},
 			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "validityDays",
+				"type": "uint256"
 			},
 			{
-				"internalType": "uint256[]",
-				"name": "ids",
-				"type": "uint256[]"
+				"internalType": "uint256",
+				"name": "escrowTimeoutDays",
+				"type": "uint256"
 			},
 			{
-				"internalType": "uint256[]",
-				"name": "values",
-				"type": "uint256[]"
-			},
+				"internalType": "string",
+				"name": "metadataURI",
+				"type": "string"
+			}
+		],
+		"name": "createTimeTokenWithEscrow",
+		"outputs": [
 			{
-				"internalType": "bytes",
-				"name": "data",
-				"type": "bytes"
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
 			}
 		],
-		"name": "safeBatchTransferFrom",
-		"outputs": [],
 		"stateMutability": "nonpayable",
 		"type": "function"
 	},
@@ -316,32 +616,48 @@ export const TIME_TOKEN_ABI = [
 		"inputs": [
 			{
 				"internalType": "address",
-				"name": "from",
+				"name": "creator",
 				"type": "address"
 			},
 			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
+				"internalType": "string",
+				"name": "serviceName",
+				"type": "string"
 			},
 			{
 				"internalType": "uint256",
-				"name": "id",
+				"name": "usdPerHour",
 				"type": "uint256"
 			},
 			{
 				"internalType": "uint256",
-				"name": "value",
+				"name": "totalHours",
 				"type": "uint256"
 			},
 			{
-				"internalType": "bytes",
-				"name": "data",
-				"type": "bytes"
+				"internalType": "uint256",
+				"name": "validityDays",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "escrowTimeoutDays",
+				"type": "uint256"
+			},
+			{
+				"internalType": "string",
+				"name": "metadataURI",
+				"type": "string"
+			}
+		],
+		"name": "createUsdPricedTimeToken",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
 			}
 		],
-		"name": "safeTransferFrom",
-		"outputs": [],
 		"stateMutability": "nonpayable",
 		"type": "function"
 	},
@@ -351,78 +667,54 @@ export const TIME_TOKEN_ABI = [
 			{
 				"indexed": true,
 				"internalType": "uint256",
-				"name": "tokenId",
+				"name": "disputeId",
 				"type": "uint256"
 			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "buyer",
-				"type": "address"
-			},
 			{
 				"indexed": false,
 				"internalType": "uint256",
-				"name": "hoursCompleted",
+				"name": "refundedAmount",
 				"type": "uint256"
 			}
 		],
-		"name": "ServiceCompleted",
+		"name": "DisputeExpired",
 		"type": "event"
 	},
 	{
+		"anonymous": false,
 		"inputs": [
 			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "disputeId",
+				"type": "uint256"
 			},
-			{
-				"internalType": "bool",
-				"name": "approved",
-				"type": "bool"
-			}
-		],
-		"name": "setApprovalForAll",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
 			{
 				"indexed": true,
 				"internalType": "uint256",
-				"name": "tokenId",
+				"name": "escrowId",
 				"type": "uint256"
 			},
 			{
 				"indexed": true,
 				"internalType": "address",
-				"name": "creator",
+				"name": "buyer",
 				"type": "address"
 			},
 			{
 				"indexed": false,
 				"internalType": "string",
-				"name": "serviceName",
+				"name": "evidenceURI",
 				"type": "string"
 			},
 			{
 				"indexed": false,
 				"internalType": "uint256",
-				"name": "pricePerHour",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "totalHours",
+				"name": "deadline",
 				"type": "uint256"
 			}
 		],
-		"name": "TimeTokenCreated",
+		"name": "DisputeOpened",
 		"type": "event"
 	},
 	{
@@ -431,29 +723,29 @@ export const TIME_TOKEN_ABI = [
 			{
 				"indexed": true,
 				"internalType": "uint256",
-				"name": "tokenId",
+				"name": "disputeId",
 				"type": "uint256"
 			},
 			{
 				"indexed": true,
 				"internalType": "address",
-				"name": "buyer",
+				"name": "arbiter",
 				"type": "address"
 			},
 			{
 				"indexed": false,
 				"internalType": "uint256",
-				"name": "hoursAmount",
+				"name": "buyerAmount",
 				"type": "uint256"
 			},
 			{
 				"indexed": false,
 				"internalType": "uint256",
-				"name": "totalPrice",
+				"name": "creatorAmount",
 				"type": "uint256"
 			}
 		],
-		"name": "TimeTokenPurchased",
+		"name": "DisputeResolved",
 		"type": "event"
 	},
 	{
@@ -461,126 +753,1777 @@ export const TIME_TOKEN_ABI = [
 		"inputs": [
 			{
 				"indexed": true,
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "disputeId",
+				"type": "uint256"
 			},
 			{
 				"indexed": true,
 				"internalType": "address",
-				"name": "to",
+				"name": "creator",
 				"type": "address"
 			},
 			{
 				"indexed": false,
-				"internalType": "uint256[]",
-				"name": "ids",
-				"type": "uint256[]"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256[]",
-				"name": "values",
-				"type": "uint256[]"
+				"internalType": "string",
+				"name": "evidenceURI",
+				"type": "string"
 			}
 		],
-		"name": "TransferBatch",
+		"name": "DisputeResponded",
 		"type": "event"
 	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "newOwner",
-				"type": "address"
-			}
-		],
-		"name": "transferOwnership",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
 	{
 		"anonymous": false,
 		"inputs": [
 			{
 				"indexed": true,
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "escrowId",
+				"type": "uint256"
 			},
 			{
 				"indexed": true,
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
 			},
 			{
 				"indexed": true,
 				"internalType": "address",
-				"name": "to",
+				"name": "buyer",
 				"type": "address"
 			},
 			{
 				"indexed": false,
 				"internalType": "uint256",
-				"name": "id",
+				"name": "amount",
 				"type": "uint256"
 			},
 			{
 				"indexed": false,
 				"internalType": "uint256",
-				"name": "value",
+				"name": "fee",
 				"type": "uint256"
-			}
-		],
-		"name": "TransferSingle",
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "releaseAfter",
+				"type": "uint256"
+			}
+		],
+		"name": "EscrowCreated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "required",
+				"type": "bool"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "timeoutDays",
+				"type": "uint256"
+			}
+		],
+		"name": "EscrowPolicySet",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "escrowId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "releasedByTimeout",
+				"type": "bool"
+			}
+		],
+		"name": "EscrowReleased",
 		"type": "event"
 	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "expireToken",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "additionalDays",
+				"type": "uint256"
+			}
+		],
+		"name": "extendTokenValidity",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
 	{
 		"anonymous": false,
 		"inputs": [
 			{
 				"indexed": false,
+				"internalType": "address",
+				"name": "registry",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint8",
+				"name": "minCreatorLevel",
+				"type": "uint8"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint8",
+				"name": "minBuyerLevel",
+				"type": "uint8"
+			}
+		],
+		"name": "KYCPolicyUpdated",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "buyer",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			}
+		],
+		"name": "markServiceCompleted",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "escrowId",
+				"type": "uint256"
+			},
+			{
 				"internalType": "string",
-				"name": "value",
+				"name": "evidenceURI",
 				"type": "string"
+			}
+		],
+		"name": "openDispute",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "OperatorUpdated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "previousOwner",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "newOwner",
+				"type": "address"
+			}
+		],
+		"name": "OwnershipTransferred",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
 			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "allowed",
+				"type": "bool"
+			}
+		],
+		"name": "PaymentAssetUpdated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
 			{
 				"indexed": true,
+				"internalType": "address",
+				"name": "priceFeed",
+				"type": "address"
+			},
+			{
+				"indexed": false,
 				"internalType": "uint256",
-				"name": "id",
+				"name": "maxAge",
+				"type": "uint256"
+			}
+		],
+		"name": "PriceFeedUpdated",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "maxTotalPrice",
+				"type": "uint256"
+			}
+		],
+		"name": "purchaseTimeToken",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "maxTotalPrice",
 				"type": "uint256"
 			}
 		],
-		"name": "URI",
-		"type": "event"
+		"name": "purchaseWithAsset",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "timeoutDays",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "maxTotalPrice",
+				"type": "uint256"
+			}
+		],
+		"name": "purchaseWithAssetEscrow",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "timeoutDays",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "maxTotalPrice",
+				"type": "uint256"
+			}
+		],
+		"name": "purchaseWithEscrow",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "escrowId",
+				"type": "uint256"
+			}
+		],
+		"name": "releaseEscrow",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "renounceOwnership",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "newPricePerHour",
+				"type": "uint256"
+			}
+		],
+		"name": "repriceToken",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "disputeId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "buyerAmount",
+				"type": "uint256"
+			}
+		],
+		"name": "resolveDispute",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "disputeId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "string",
+				"name": "responseURI",
+				"type": "string"
+			}
+		],
+		"name": "respondToDispute",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "values",
+				"type": "uint256[]"
+			},
+			{
+				"internalType": "bytes",
+				"name": "data",
+				"type": "bytes"
+			}
+		],
+		"name": "safeBatchTransferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "value",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "data",
+				"type": "bytes"
+			}
+		],
+		"name": "safeTransferFrom",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "buyer",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "hoursCompleted",
+				"type": "uint256"
+			}
+		],
+		"name": "ServiceCompleted",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "setApprovalForAll",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "arbiter",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "enabled",
+				"type": "bool"
+			}
+		],
+		"name": "setArbiter",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "automation",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "enabled",
+				"type": "bool"
+			}
+		],
+		"name": "setAutomation",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "feeBps",
+				"type": "uint256"
+			}
+		],
+		"name": "setEscrowFeeBps",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "registry",
+				"type": "address"
+			},
+			{
+				"internalType": "uint8",
+				"name": "minCreatorLevel",
+				"type": "uint8"
+			},
+			{
+				"internalType": "uint8",
+				"name": "minBuyerLevel",
+				"type": "uint8"
+			}
+		],
+		"name": "setKYCPolicy",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "approved",
+				"type": "bool"
+			}
+		],
+		"name": "setOperator",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
+			},
+			{
+				"internalType": "bool",
+				"name": "allowed",
+				"type": "bool"
+			}
+		],
+		"name": "setPaymentAsset",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "feed",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "maxAge",
+				"type": "uint256"
+			}
+		],
+		"name": "setPriceFeed",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "disputeId",
+				"type": "uint256"
+			}
+		],
+		"name": "settleExpiredDispute",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "pricePerHour",
+				"type": "uint256"
+			}
+		],
+		"name": "setTokenPaymentAsset",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "enum TokenizeAI.TokenStatus",
+				"name": "status",
+				"type": "uint8"
+			}
+		],
+		"name": "setTokenStatus",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "string",
+				"name": "serviceName",
+				"type": "string"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "pricePerHour",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "totalHours",
+				"type": "uint256"
+			}
+		],
+		"name": "TimeTokenCreated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "validUntil",
+				"type": "uint256"
+			}
+		],
+		"name": "TimeTokenExtended",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "buyer",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "totalPrice",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "address",
+				"name": "paymentAsset",
+				"type": "address"
+			}
+		],
+		"name": "TimeTokenPurchased",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "pricePerHour",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "bool",
+				"name": "usdPriced",
+				"type": "bool"
+			}
+		],
+		"name": "TimeTokenRepriced",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "hoursAdded",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "totalHours",
+				"type": "uint256"
+			}
+		],
+		"name": "TimeTokenToppedUp",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "pricePerHour",
+				"type": "uint256"
+			}
+		],
+		"name": "TokenPaymentAssetSet",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "enum TokenizeAI.TokenStatus",
+				"name": "previousStatus",
+				"type": "uint8"
+			},
+			{
+				"indexed": false,
+				"internalType": "enum TokenizeAI.TokenStatus",
+				"name": "status",
+				"type": "uint8"
+			}
+		],
+		"name": "TokenStatusChanged",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "additionalHours",
+				"type": "uint256"
+			}
+		],
+		"name": "topUpTokenHours",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256[]",
+				"name": "values",
+				"type": "uint256[]"
+			}
+		],
+		"name": "TransferBatch",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "newOwner",
+				"type": "address"
+			}
+		],
+		"name": "transferOwnership",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "from",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "value",
+				"type": "uint256"
+			}
+		],
+		"name": "TransferSingle",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": false,
+				"internalType": "string",
+				"name": "value",
+				"type": "string"
+			},
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			}
+		],
+		"name": "URI",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "usdPricePerHour",
+				"type": "uint256"
+			}
+		],
+		"name": "UsdPricingSet",
+		"type": "event"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "asset",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			}
+		],
+		"name": "withdrawAssetFees",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address payable",
+				"name": "to",
+				"type": "address"
+			}
+		],
+		"name": "withdrawPlatformFees",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "accruedAssetFees",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "accruedPlatformFees",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "arbiters",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "assetPricePerHour",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "automations",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "id",
+				"type": "uint256"
+			}
+		],
+		"name": "balanceOf",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address[]",
+				"name": "accounts",
+				"type": "address[]"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			}
+		],
+		"name": "balanceOfBatch",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			}
+		],
+		"name": "calculateEscrowFee",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "COMPLETION_DISPUTE_DAYS",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "DISPUTE_RESOLUTION_DAYS",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"name": "escrowDisputes",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "escrowFeeBps",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "buyer",
+				"type": "address"
+			}
+		],
+		"name": "getBuyerDisputes",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "buyer",
+				"type": "address"
+			}
+		],
+		"name": "getBuyerEscrows",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "buyer",
+				"type": "address"
+			}
+		],
+		"name": "getBuyerTokens",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			}
+		],
+		"name": "getCreatorDisputes",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			}
+		],
+		"name": "getCreatorEscrows",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "creator",
+				"type": "address"
+			}
+		],
+		"name": "getCreatorTokens",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "getCurrentTokenId",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "disputeId",
+				"type": "uint256"
+			}
+		],
+		"name": "getDispute",
+		"outputs": [
+			{
+				"components": [
+					{
+						"internalType": "uint256",
+						"name": "escrowId",
+						"type": "uint256"
+					},
+					{
+						"internalType": "address",
+						"name": "buyer",
+						"type": "address"
+					},
+					{
+						"internalType": "address",
+						"name": "creator",
+						"type": "address"
+					},
+					{
+						"internalType": "string",
+						"name": "evidenceURI",
+						"type": "string"
+					},
+					{
+						"internalType": "string",
+						"name": "responseURI",
+						"type": "string"
+					},
+					{
+						"internalType": "uint256",
+						"name": "openedAt",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "deadline",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "buyerAmount",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "creatorAmount",
+						"type": "uint256"
+					},
+					{
+						"internalType": "address",
+						"name": "resolvedBy",
+						"type": "address"
+					},
+					{
+						"internalType": "enum TokenizeAI.DisputeStatus",
+						"name": "status",
+						"type": "uint8"
+					}
+				],
+				"internalType": "struct TokenizeAI.Dispute",
+				"name": "",
+				"type": "tuple"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "escrowId",
+				"type": "uint256"
+			}
+		],
+		"name": "getEscrow",
+		"outputs": [
+			{
+				"components": [
+					{
+						"internalType": "uint256",
+						"name": "tokenId",
+						"type": "uint256"
+					},
+					{
+						"internalType": "address",
+						"name": "buyer",
+						"type": "address"
+					},
+					{
+						"internalType": "address",
+						"name": "creator",
+						"type": "address"
+					},
+					{
+						"internalType": "uint256",
+						"name": "hoursAmount",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "amount",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "fee",
+						"type": "uint256"
+					},
+					{
+						"internalType": "address",
+						"name": "paymentAsset",
+						"type": "address"
+					},
+					{
+						"internalType": "uint256",
+						"name": "createdAt",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "releaseAfter",
+						"type": "uint256"
+					},
+					{
+						"internalType": "enum TokenizeAI.EscrowStatus",
+						"name": "status",
+						"type": "uint8"
+					}
+				],
+				"internalType": "struct TokenizeAI.Escrow",
+				"name": "",
+				"type": "tuple"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "getEscrowPolicy",
+		"outputs": [
+			{
+				"components": [
+					{
+						"internalType": "bool",
+						"name": "required",
+						"type": "bool"
+					},
+					{
+						"internalType": "uint256",
+						"name": "timeoutDays",
+						"type": "uint256"
+					}
+				],
+				"internalType": "struct TokenizeAI.EscrowPolicy",
+				"name": "",
+				"type": "tuple"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "getTimeToken",
+		"outputs": [
+			{
+				"components": [
+					{
+						"internalType": "address",
+						"name": "creator",
+						"type": "address"
+					},
+					{
+						"internalType": "string",
+						"name": "serviceName",
+						"type": "string"
+					},
+					{
+						"internalType": "uint256",
+						"name": "pricePerHour",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "totalHours",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "availableHours",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "validUntil",
+						"type": "uint256"
+					},
+					{
+						"internalType": "enum TokenizeAI.TokenStatus",
+						"name": "status",
+						"type": "uint8"
+					}
+				],
+				"internalType": "struct TokenizeAI.TimeToken",
+				"name": "",
+				"type": "tuple"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			}
+		],
+		"name": "getTokenPaymentAssets",
+		"outputs": [
+			{
+				"internalType": "address[]",
+				"name": "",
+				"type": "address[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
 	},
 	{
 		"inputs": [
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			},
 			{
 				"internalType": "uint256",
-				"name": "id",
+				"name": "tokenId",
 				"type": "uint256"
 			}
 		],
-		"name": "balanceOf",
+		"name": "getTokenStatus",
 		"outputs": [
 			{
-				"internalType": "uint256",
+				"internalType": "enum TokenizeAI.TokenStatus",
 				"name": "",
-				"type": "uint256"
+				"type": "uint8"
 			}
 		],
 		"stateMutability": "view",
@@ -589,41 +2532,43 @@ export const TIME_TOKEN_ABI = [
 	{
 		"inputs": [
 			{
-				"internalType": "address[]",
-				"name": "accounts",
-				"type": "address[]"
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
 			},
 			{
-				"internalType": "uint256[]",
-				"name": "ids",
-				"type": "uint256[]"
+				"internalType": "address",
+				"name": "operator",
+				"type": "address"
 			}
 		],
-		"name": "balanceOfBatch",
+		"name": "isApprovedForAll",
 		"outputs": [
 			{
-				"internalType": "uint256[]",
+				"internalType": "bool",
 				"name": "",
-				"type": "uint256[]"
+				"type": "bool"
 			}
 		],
 		"stateMutability": "view",
 		"type": "function"
 	},
 	{
-		"inputs": [
+		"inputs": [],
+		"name": "kycRegistry",
+		"outputs": [
 			{
-				"internalType": "address",
+				"internalType": "contract IWalletKYC",
 				"name": "",
 				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
 			}
 		],
-		"name": "buyerTokens",
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "MAX_ESCROW_FEE_BPS",
 		"outputs": [
 			{
 				"internalType": "uint256",
@@ -635,19 +2580,21 @@ export const TIME_TOKEN_ABI = [
 		"type": "function"
 	},
 	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			},
+		"inputs": [],
+		"name": "MAX_ESCROW_TIMEOUT_DAYS",
+		"outputs": [
 			{
 				"internalType": "uint256",
 				"name": "",
 				"type": "uint256"
 			}
 		],
-		"name": "creatorTokens",
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "MIN_ESCROW_TIMEOUT_DAYS",
 		"outputs": [
 			{
 				"internalType": "uint256",
@@ -659,19 +2606,26 @@ export const TIME_TOKEN_ABI = [
 		"type": "function"
 	},
 	{
-		"inputs": [
+		"inputs": [],
+		"name": "minBuyerKYCLevel",
+		"outputs": [
 			{
-				"internalType": "address",
-				"name": "buyer",
-				"type": "address"
+				"internalType": "uint8",
+				"name": "",
+				"type": "uint8"
 			}
 		],
-		"name": "getBuyerTokens",
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "minCreatorKYCLevel",
 		"outputs": [
 			{
-				"internalType": "uint256[]",
+				"internalType": "uint8",
 				"name": "",
-				"type": "uint256[]"
+				"type": "uint8"
 			}
 		],
 		"stateMutability": "view",
@@ -681,16 +2635,21 @@ export const TIME_TOKEN_ABI = [
 		"inputs": [
 			{
 				"internalType": "address",
-				"name": "creator",
+				"name": "",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "",
 				"type": "address"
 			}
 		],
-		"name": "getCreatorTokens",
+		"name": "operators",
 		"outputs": [
 			{
-				"internalType": "uint256[]",
+				"internalType": "bool",
 				"name": "",
-				"type": "uint256[]"
+				"type": "bool"
 			}
 		],
 		"stateMutability": "view",
@@ -698,12 +2657,12 @@ export const TIME_TOKEN_ABI = [
 	},
 	{
 		"inputs": [],
-		"name": "getCurrentTokenId",
+		"name": "owner",
 		"outputs": [
 			{
-				"internalType": "uint256",
+				"internalType": "address",
 				"name": "",
-				"type": "uint256"
+				"type": "address"
 			}
 		],
 		"stateMutability": "view",
@@ -712,31 +2671,16 @@ export const TIME_TOKEN_ABI = [
 	{
 		"inputs": [
 			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
+				"internalType": "address",
+				"name": "",
+				"type": "address"
 			}
 		],
-		"name": "getMarketData",
+		"name": "paymentAssets",
 		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "availableHours",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "pricePerHour",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "validUntil",
-				"type": "uint256"
-			},
 			{
 				"internalType": "bool",
-				"name": "isActive",
+				"name": "",
 				"type": "bool"
 			}
 		],
@@ -744,56 +2688,26 @@ export const TIME_TOKEN_ABI = [
 		"type": "function"
 	},
 	{
-		"inputs": [
+		"inputs": [],
+		"name": "priceFeed",
+		"outputs": [
 			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
+				"internalType": "contract AggregatorV3Interface",
+				"name": "",
+				"type": "address"
 			}
 		],
-		"name": "getTimeToken",
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "priceFeedMaxAge",
 		"outputs": [
 			{
-				"components": [
-					{
-						"internalType": "address",
-						"name": "creator",
-						"type": "address"
-					},
-					{
-						"internalType": "string",
-						"name": "serviceName",
-						"type": "string"
-					},
-					{
-						"internalType": "uint256",
-						"name": "pricePerHour",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "totalHours",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "availableHours",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "validUntil",
-						"type": "uint256"
-					},
-					{
-						"internalType": "bool",
-						"name": "isActive",
-						"type": "bool"
-					}
-				],
-				"internalType": "struct TokenizeAI.TimeToken",
+				"internalType": "uint256",
 				"name": "",
-				"type": "tuple"
+				"type": "uint256"
 			}
 		],
 		"stateMutability": "view",
@@ -802,37 +2716,53 @@ export const TIME_TOKEN_ABI = [
 	{
 		"inputs": [
 			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
 			},
 			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
 			}
 		],
-		"name": "isApprovedForAll",
+		"name": "quotePurchase",
 		"outputs": [
 			{
-				"internalType": "bool",
+				"internalType": "uint256",
 				"name": "",
-				"type": "bool"
+				"type": "uint256"
 			}
 		],
 		"stateMutability": "view",
 		"type": "function"
 	},
 	{
-		"inputs": [],
-		"name": "owner",
-		"outputs": [
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "tokenId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "hoursAmount",
+				"type": "uint256"
+			},
 			{
 				"internalType": "address",
-				"name": "",
+				"name": "asset",
 				"type": "address"
 			}
 		],
+		"name": "quotePurchaseInAsset",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
 		"stateMutability": "view",
 		"type": "function"
 	},
@@ -859,46 +2789,29 @@ export const TIME_TOKEN_ABI = [
 		"inputs": [
 			{
 				"internalType": "uint256",
-				"name": "",
+				"name": "tokenId",
 				"type": "uint256"
 			}
 		],
-		"name": "timeTokens",
+		"name": "uri",
 		"outputs": [
-			{
-				"internalType": "address",
-				"name": "creator",
-				"type": "address"
-			},
 			{
 				"internalType": "string",
-				"name": "serviceName",
+				"name": "",
 				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "pricePerHour",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "totalHours",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "availableHours",
-				"type": "uint256"
-			},
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "USD_DECIMALS",
+		"outputs": [
 			{
 				"internalType": "uint256",
-				"name": "validUntil",
+				"name": "",
 				"type": "uint256"
-			},
-			{
-				"internalType": "bool",
-				"name": "isActive",
-				"type": "bool"
 			}
 		],
 		"stateMutability": "view",
@@ -912,12 +2825,12 @@ export const TIME_TOKEN_ABI = [
 				"type": "uint256"
 			}
 		],
-		"name": "uri",
+		"name": "usdPricePerHour",
 		"outputs": [
 			{
-				"internalType": "string",
+				"internalType": "uint256",
 				"name": "",
-				"type": "string"
+				"type": "uint256"
 			}
 		],
 		"stateMutability": "view",
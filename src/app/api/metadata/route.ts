@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { METADATA_CONFIG } from '../../shared/constants';
+
+// Pins token metadata with the server-side Pinata credential, so the JWT never reaches the browser
+
+export async function POST(request: Request) {
+  const jwt = process.env.PINATA_JWT;
+  if (!jwt) {
+    return NextResponse.json({ error: 'No pinning service configured' }, { status: 503 });
+  }
+
+  let name: string;
+  let body: string;
+  try {
+    const payload = await request.json();
+    name = String(payload.name ?? '').slice(0, 100);
+    body = String(payload.body ?? '');
+    JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Expected { name, body } with a JSON metadata document' }, { status: 400 });
+  }
+
+  if (body.length > METADATA_CONFIG.MAX_DOCUMENT_SIZE) {
+    return NextResponse.json({ error: 'Metadata document is too large' }, { status: 413 });
+  }
+
+  try {
+    const form = new FormData();
+    form.append('file', new Blob([body], { type: 'application/json' }), 'metadata.json');
+    form.append('pinataMetadata', JSON.stringify({ name: `${name} metadata` }));
+    form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+    const response = await fetch(METADATA_CONFIG.PINATA_UPLOAD_URL, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${jwt}` },
+      body: form
+    });
+    if (!response.ok) {
+      console.error('❌ Pinning failed:', response.status, await response.text());
+      return NextResponse.json({ error: `Pinning failed with ${response.status}` }, { status: 502 });
+    }
+
+    const result = await response.json();
+    return NextResponse.json({ cid: result.IpfsHash as string });
+  } catch (error) {
+    console.error('❌ Failed to pin token metadata:', error);
+    return NextResponse.json({ error: 'Pinning service unreachable' }, { status: 502 });
+  }
+}
@@ -24,6 +24,8 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
     mapping(address => bool) public hasMinted;
     mapping(address => uint256) public walletToTokenId;
     mapping(uint256 => uint8) public tokenKYCLevel;
+    mapping(uint256 => uint64) public tokenExpiresAt; // 0 once revoked
+    mapping(address => bool) public revoked; // Blocks renewal until an operator clears it
     mapping(bytes32 => address) private requestIdToWallet;
     
     // Access control
@@ -33,12 +35,16 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
     event KYCVerificationRequested(bytes32 indexed requestId, address indexed wallet);
     event KYCVerificationCompleted(bytes32 indexed requestId, address indexed wallet, bool isVerified, uint8 kycLevel);
     event NFTMinted(address indexed recipient, uint256 tokenId, uint8 kycLevel);
+    event KYCRevoked(address indexed wallet, uint256 tokenId);
+    event KYCRevocationCleared(address indexed wallet);
     event Response(bytes32 indexed requestId, bytes response, bytes err);
 
     error UnexpectedRequestID(bytes32 requestId);
     error WalletAlreadyMinted(address wallet);
     error KYCNotVerified(address wallet);
     error Unauthorized();
+    error NoKYCPass(address wallet);
+    error WalletRevoked(address wallet);
 
     // KYC Level metadata URIs (stored on IPFS)
     mapping(uint8 => string) public kycLevelToTokenUri;
@@ -46,15 +52,20 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
     string constant KYC_LEVEL_2_METADATA = "https://gateway.pinata.cloud/ipfs/bafkreigrn7oxcjgdhwu744ontri3ojtu6kxes7bx5u37y2ho3zyabxayfa";
     string constant KYC_LEVEL_3_METADATA = "https://gateway.pinata.cloud/ipfs/bafkreig3a2mzqcrt3o5v6xxdp5h4hlnovcysg5dsq4qphgpflaxbddiobe";
 
-    // Chainlink Functions configuration for Avalanche Fuji
-    address public constant ROUTER_ADDR = 0xA9d587a00A31A52Ed70D6026794a8FC5E2F5dCb0;
-    bytes32 public constant DON_ID = 0x66756e2d6176616c616e6368652d66756a692d31000000000000000000000000;
+    // Chainlink Functions router and DON of the chain this pass contract is deployed on
+    // (Avalanche Fuji: 0xA9d587a00A31A52Ed70D6026794a8FC5E2F5dCb0, "fun-avalanche-fuji-1")
+    address public immutable ROUTER_ADDR;
+    bytes32 public immutable DON_ID;
     uint32 public constant CALLBACK_GAS_LIMIT = 300_000;
 
+    // Passes lapse after this long and must be re-verified
+    uint64 public constant KYC_VALIDITY_PERIOD = 365 days;
+
     // JavaScript code to verify KYC status in Supabase
     // IMPORTANT: Replace <SUPABASE_URL> with your actual Supabase URL
     string public constant SOURCE =
         "const walletAddress = args[0].toLowerCase();"
+        'const renewing = args[1] === "renew";'
         'if(!secrets.apikey) { throw Error("Error: Supabase API Key is not set!") };'
         'if(!secrets.supabaseUrl) { throw Error("Error: Supabase URL is not set!") };'
         "const apikey = secrets.apikey;"
@@ -73,7 +84,7 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
         'return Functions.encodeString("NOT_FOUND");'
         "};"
         "const walletData = data[0];"
-        "if(walletData.nft_token_id !== null) {"
+        "if(walletData.nft_token_id !== null && !renewing) {"
         'return Functions.encodeString("ALREADY_MINTED");'
         "};"
         "if(walletData.is_kyc_verified && walletData.kyc_status === 'approved') {"
@@ -82,7 +93,9 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
         'return Functions.encodeString(`NOT_VERIFIED:${walletData.kyc_status}`);'
         "}";
 
-    constructor() FunctionsClient(ROUTER_ADDR) ERC721("KYC Access Pass", "KYCPASS") {
+    constructor(address router, bytes32 donId) FunctionsClient(router) ERC721("KYC Access Pass", "KYCPASS") {
+        ROUTER_ADDR = router;
+        DON_ID = donId;
         operators[msg.sender] = true;
         
         // Initialize KYC level metadata
@@ -104,14 +117,19 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
         uint64 donHostedSecretsVersion,
         uint64 subscriptionId
     ) external returns (bytes32 requestId) {
-        // Check if NFT already minted
-        if (hasMinted[walletAddress]) {
+        // Only wallets without a valid pass can request one; expired passes are renewed,
+        // revoked ones only once an operator clears the revocation
+        if (hasKYCAccess(walletAddress)) {
             revert WalletAlreadyMinted(walletAddress);
         }
+        if (revoked[walletAddress]) {
+            revert WalletRevoked(walletAddress);
+        }
 
         // Prepare arguments
-        string[] memory args = new string[](1);
+        string[] memory args = new string[](2);
         args[0] = addressToString(walletAddress);
+        args[1] = hasMinted[walletAddress] ? "renew" : "";
 
         // Build and send request
         FunctionsRequest.Request memory req;
@@ -164,6 +182,12 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
 
         address walletAddress = requestIdToWallet[requestId];
         string memory responseStr = string(response);
+
+        // A request still in flight when the wallet was revoked must not renew it
+        if (revoked[walletAddress]) {
+            emit KYCVerificationCompleted(requestId, walletAddress, false, 0);
+            return;
+        }
         
         // Parse response
         if (keccak256(response) == keccak256(bytes("NOT_FOUND"))) {
@@ -192,6 +216,11 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
      * @notice Mint KYC NFT to verified wallet
      */
     function _mintKYCNFT(address to, uint8 kycLevel) internal {
+        // A renewal replaces the lapsed pass
+        if (hasMinted[to]) {
+            _burn(walletToTokenId[to]);
+        }
+
         uint256 newTokenId = tokenIdCounter;
         tokenIdCounter++;
         
@@ -201,6 +230,7 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
         hasMinted[to] = true;
         walletToTokenId[to] = newTokenId;
         tokenKYCLevel[newTokenId] = kycLevel;
+        tokenExpiresAt[newTokenId] = uint64(block.timestamp) + KYC_VALIDITY_PERIOD;
         
         emit NFTMinted(to, newTokenId, kycLevel);
     }
@@ -219,10 +249,41 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
     }
 
     /**
-     * @notice Check if wallet has KYC NFT
+     * @notice Revoke a wallet's pass, e.g. when its KYC is rejected off-chain
+     * @dev The soulbound token stays but no longer grants access, and the wallet can't
+     *      re-verify until an operator calls clearKYCRevocation
+     */
+    function revokeKYC(address wallet) external onlyOperator {
+        if (!hasMinted[wallet]) {
+            revert NoKYCPass(wallet);
+        }
+        uint256 tokenId = walletToTokenId[wallet];
+        tokenExpiresAt[tokenId] = 0;
+        revoked[wallet] = true;
+        emit KYCRevoked(wallet, tokenId);
+    }
+
+    /**
+     * @notice Let a revoked wallet request a new pass, e.g. once its KYC is approved again
+     */
+    function clearKYCRevocation(address wallet) external onlyOperator {
+        revoked[wallet] = false;
+        emit KYCRevocationCleared(wallet);
+    }
+
+    /**
+     * @notice Check if wallet has an unexpired, unrevoked KYC NFT
      */
     function hasKYCAccess(address wallet) public view returns (bool) {
-        return hasMinted[wallet] && balanceOf(wallet) > 0;
+        return hasMinted[wallet] && balanceOf(wallet) > 0 && block.timestamp < tokenExpiresAt[walletToTokenId[wallet]];
+    }
+
+    /**
+     * @notice When the wallet's pass lapses; 0 without a pass or once revoked
+     */
+    function getKYCExpiry(address wallet) public view returns (uint64) {
+        if (!hasMinted[wallet]) return 0;
+        return tokenExpiresAt[walletToTokenId[wallet]];
     }
 
     /**
@@ -243,7 +304,7 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
     }
 
     /**
-     * @notice Override transfer to make NFT non-transferable (Soulbound)
+     * @notice Override transfer to make NFT non-transferable (Soulbound); renewals burn the old pass
      */
     function _beforeTokenTransfer(
         address from,
@@ -251,7 +312,7 @@ contract KYCAccessNFT is FunctionsClient, ERC721URIStorage {
         uint256 tokenId,
         uint256 batchSize
     ) internal virtual override {
-        require(from == address(0), "KYC NFT is non-transferable");
+        require(from == address(0) || to == address(0), "KYC NFT is non-transferable");
         super._beforeTokenTransfer(from, to, tokenId, batchSize);
     }
 
@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+interface IWalletKYC {
+    function hasKYCAccess(address wallet) external view returns (bool);
+    function getKYCLevel(address wallet) external view returns (uint8);
+}
+
+interface ITokenizeAI {
+    struct TimeToken {
+        address creator;
+        string serviceName;
+        uint256 pricePerHour;
+        uint256 totalHours;
+        uint256 availableHours;
+        uint256 validUntil;
+        TokenStatus status;
+    }
+    
+    enum TokenStatus { Draft, Active, Paused, SoldOut, Expired, Retired }
+
+    function getTimeToken(uint256 tokenId) external view returns (TimeToken memory);
+    function kycRegistry() external view returns (IWalletKYC);
+    function minBuyerKYCLevel() external view returns (uint8);
+}
+
+/**
+ * @title TimeTokenResale
+ * @dev Secondary market for purchased TokenizeAI hours. Holders approve this contract,
+ *      list hours at their own price and the hours are held here until bought or
+ *      withdrawn. Every fill pays a royalty to the token's creator.
+ */
+contract TimeTokenResale is ERC1155Holder, Ownable, ReentrancyGuard {
+    event ResaleListed(
+        uint256 indexed listingId,
+        uint256 indexed tokenId,
+        address indexed seller,
+        uint256 hoursAmount,
+        uint256 pricePerHour
+    );
+
+    event ResaleCancelled(uint256 indexed listingId, address indexed seller, uint256 hoursReturned);
+
+    event ResaleFilled(
+        uint256 indexed listingId,
+        uint256 indexed tokenId,
+        address indexed buyer,
+        uint256 hoursAmount,
+        uint256 totalPrice,
+        uint256 royalty              // Part of totalPrice sent to the token's creator
+    );
+
+    event RoyaltyUpdated(uint256 royaltyBps);
+
+    struct Listing {
+        uint256 tokenId;
+        address seller;
+        uint256 hoursAmount;         // Hours still for sale
+        uint256 pricePerHour;        // Price in wei per hour
+        uint256 createdAt;
+        bool active;
+    }
+
+    ITokenizeAI public immutable tokenizeAI;
+
+    mapping(uint256 => Listing) public listings;
+    mapping(address => uint256[]) public sellerListings;
+    mapping(uint256 => uint256[]) public tokenListings;
+
+    uint256 public constant MAX_ROYALTY_BPS = 2000; // 20%
+    uint256 public royaltyBps = 500;                // 5% of each resale goes to the creator
+
+    uint256 private _listingIdCounter;
+
+    constructor(address _tokenizeAI) Ownable(msg.sender) {
+        tokenizeAI = ITokenizeAI(_tokenizeAI);
+    }
+
+    /**
+     * @dev List purchased hours for resale. Requires setApprovalForAll on TokenizeAI.
+     */
+    function list(uint256 tokenId, uint256 hoursAmount, uint256 pricePerHour)
+        external
+        nonReentrant
+        returns (uint256)
+    {
+        ITokenizeAI.TimeToken memory token = tokenizeAI.getTimeToken(tokenId);
+        require(token.creator != address(0), "Token does not exist");
+        require(msg.sender != token.creator, "Creators sell through primary listings");
+        require(hoursAmount > 0, "Hours must be positive");
+        require(pricePerHour > 0, "Price must be positive");
+        require(block.timestamp <= token.validUntil, "Token expired");
+
+        _listingIdCounter++;
+        uint256 listingId = _listingIdCounter;
+
+        listings[listingId] = Listing({
+            tokenId: tokenId,
+            seller: msg.sender,
+            hoursAmount: hoursAmount,
+            pricePerHour: pricePerHour,
+            createdAt: block.timestamp,
+            active: true
+        });
+        sellerListings[msg.sender].push(listingId);
+        tokenListings[tokenId].push(listingId);
+
+        IERC1155(address(tokenizeAI)).safeTransferFrom(msg.sender, address(this), tokenId, hoursAmount, "");
+
+        emit ResaleListed(listingId, tokenId, msg.sender, hoursAmount, pricePerHour);
+
+        return listingId;
+    }
+
+    /**
+     * @dev Withdraw a listing and return its unsold hours (seller only)
+     */
+    function cancel(uint256 listingId) external nonReentrant {
+        Listing storage listing = listings[listingId];
+        require(listing.seller == msg.sender, "Only seller");
+        require(listing.active, "Listing not active");
+
+        uint256 hoursReturned = listing.hoursAmount;
+        listing.active = false;
+        listing.hoursAmount = 0;
+
+        IERC1155(address(tokenizeAI)).safeTransferFrom(address(this), msg.sender, listing.tokenId, hoursReturned, "");
+
+        emit ResaleCancelled(listingId, msg.sender, hoursReturned);
+    }
+
+    /**
+     * @dev Buy hours from a listing. The creator receives the royalty and the seller
+     *      the rest; excess payment is refunded. Buyers need the same KYC level as
+     *      primary buyers on TokenizeAI.
+     */
+    function fill(uint256 listingId, uint256 hoursAmount) external payable nonReentrant {
+        Listing storage listing = listings[listingId];
+        require(listing.active, "Listing not active");
+        require(msg.sender != listing.seller, "Cannot buy own listing");
+        require(hoursAmount > 0, "Hours must be positive");
+        require(hoursAmount <= listing.hoursAmount, "Not enough hours listed");
+        _requireBuyerKYC(msg.sender);
+
+        ITokenizeAI.TimeToken memory token = tokenizeAI.getTimeToken(listing.tokenId);
+        require(block.timestamp <= token.validUntil, "Token expired");
+
+        uint256 totalPrice = hoursAmount * listing.pricePerHour;
+        require(msg.value >= totalPrice, "Insufficient payment");
+        uint256 royalty = (totalPrice * royaltyBps) / 10000;
+
+        listing.hoursAmount -= hoursAmount;
+        if (listing.hoursAmount == 0) {
+            listing.active = false;
+        }
+
+        IERC1155(address(tokenizeAI)).safeTransferFrom(address(this), msg.sender, listing.tokenId, hoursAmount, "");
+
+        if (royalty > 0) {
+            payable(token.creator).transfer(royalty);
+        }
+        payable(listing.seller).transfer(totalPrice - royalty);
+
+        if (msg.value > totalPrice) {
+            payable(msg.sender).transfer(msg.value - totalPrice);
+        }
+
+        emit ResaleFilled(listingId, listing.tokenId, msg.sender, hoursAmount, totalPrice, royalty);
+    }
+
+    // Mirrors TokenizeAI._requireKYC for its registry and buyer level
+    function _requireBuyerKYC(address buyer) internal view {
+        IWalletKYC registry = tokenizeAI.kycRegistry();
+        uint8 minLevel = tokenizeAI.minBuyerKYCLevel();
+        if (address(registry) == address(0) || minLevel == 0) return;
+        require(registry.hasKYCAccess(buyer) && registry.getKYCLevel(buyer) >= minLevel, "KYC level insufficient");
+    }
+
+    /**
+     * @dev Update the creator royalty taken from resales (owner only)
+     */
+    function setRoyaltyBps(uint256 _royaltyBps) external onlyOwner {
+        require(_royaltyBps <= MAX_ROYALTY_BPS, "Royalty too high");
+        royaltyBps = _royaltyBps;
+        emit RoyaltyUpdated(_royaltyBps);
+    }
+
+    /**
+     * @dev Get listing details
+     */
+    function getListing(uint256 listingId) external view returns (Listing memory) {
+        return listings[listingId];
+    }
+
+    /**
+     * @dev Get listing ids created by a seller
+     */
+    function getSellerListings(address seller) external view returns (uint256[] memory) {
+        return sellerListings[seller];
+    }
+
+    /**
+     * @dev Get listing ids for a token
+     */
+    function getTokenListings(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenListings[tokenId];
+    }
+
+    /**
+     * @dev Get current listing counter
+     */
+    function getCurrentListingId() external view returns (uint256) {
+        return _listingIdCounter;
+    }
+}
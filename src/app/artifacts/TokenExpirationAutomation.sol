@@ -15,29 +15,31 @@ interface ITokenizeAI {
         uint256 totalHours;
         uint256 availableHours;
         uint256 validUntil;
-        bool isActive;
+        TokenStatus status;
     }
     
+    enum TokenStatus { Draft, Active, Paused, SoldOut, Expired, Retired }
+    
     function getTimeToken(uint256 tokenId) external view returns (TimeToken memory);
     function getCurrentTokenId() external view returns (uint256);
-    function deactivateToken(uint256 tokenId) external;
+    function expireToken(uint256 tokenId) external;
 }
 
 contract TokenExpirationAutomation is AutomationCompatibleInterface {
     ITokenizeAI public immutable tokenizeAI;
     uint256 public lastCheckedTokenId;
-    uint256 public constant BATCH_SIZE = 10; // Check 10 tokens per upkeep
+    uint256 public constant BATCH_SIZE = 10; // Expire at most 10 tokens per upkeep
+    uint256 public constant MAX_SCAN = 200;  // Token ids read per checkUpkeep simulation
     
     event TokensDeactivated(uint256[] tokenIds);
+    event TokenExpired(uint256 indexed tokenId);
+    event TokenExpiryFailed(uint256 indexed tokenId, bytes reason);
     
     constructor(address _tokenizeAI) {
         tokenizeAI = ITokenizeAI(_tokenizeAI);
     }
     
-    // For your deployed contract
-    // constructor() {
-    //     tokenizeAI = ITokenizeAI(0xcEC74F686A7EEC2d818a1646996F3eDc9da890EA);
-    // }
+    // This contract must be granted the automation role with tokenizeAI.setAutomation(address(this), true)
     
     function checkUpkeep(bytes calldata /* checkData */) 
         external 
@@ -49,17 +51,16 @@ contract TokenExpirationAutomation is AutomationCompatibleInterface {
         uint256[] memory expiredTokens = new uint256[](BATCH_SIZE);
         uint256 expiredCount = 0;
         
-        // Check next batch of tokens
-        uint256 startId = lastCheckedTokenId + 1;
-        uint256 endId = startId + BATCH_SIZE - 1;
-        if (endId > currentMaxTokenId) {
-            endId = currentMaxTokenId;
-        }
-        
-        for (uint256 i = startId; i <= endId && expiredCount < BATCH_SIZE; i++) {
-            try tokenizeAI.getTimeToken(i) returns (ITokenizeAI.TimeToken memory token) {
-                if (token.isActive && block.timestamp > token.validUntil) {
-                    expiredTokens[expiredCount] = i;
+        // Walk forward from where the last upkeep stopped, wrapping after the newest token.
+        // The cursor only moves when an upkeep is performed, so the scan must look past
+        // a window with nothing to expire instead of waiting on it.
+        uint256 scanCount = currentMaxTokenId < MAX_SCAN ? currentMaxTokenId : MAX_SCAN;
+        uint256 tokenId = lastCheckedTokenId;
+        for (uint256 scanned = 0; scanned < scanCount && expiredCount < BATCH_SIZE; scanned++) {
+            tokenId = tokenId >= currentMaxTokenId ? 1 : tokenId + 1;
+            try tokenizeAI.getTimeToken(tokenId) returns (ITokenizeAI.TimeToken memory token) {
+                if (token.status == ITokenizeAI.TokenStatus.Active && block.timestamp > token.validUntil) {
+                    expiredTokens[expiredCount] = tokenId;
                     expiredCount++;
                 }
             } catch {
@@ -68,19 +69,13 @@ contract TokenExpirationAutomation is AutomationCompatibleInterface {
             }
         }
         
-        if (expiredCount > 0) {
-            // Resize array to actual count
-            uint256[] memory result = new uint256[](expiredCount);
-            for (uint256 i = 0; i < expiredCount; i++) {
-                result[i] = expiredTokens[i];
-            }
-            upkeepNeeded = true;
-            performData = abi.encode(result, endId);
-        } else {
-            // Reset to beginning if we've checked all tokens
-            uint256 nextStart = endId >= currentMaxTokenId ? 0 : endId;
-            performData = abi.encode(new uint256[](0), nextStart);
+        // Resize array to actual count
+        uint256[] memory result = new uint256[](expiredCount);
+        for (uint256 i = 0; i < expiredCount; i++) {
+            result[i] = expiredTokens[i];
         }
+        upkeepNeeded = expiredCount > 0;
+        performData = abi.encode(result, tokenId);
     }
     
     function performUpkeep(bytes calldata performData) external override {
@@ -89,18 +84,26 @@ contract TokenExpirationAutomation is AutomationCompatibleInterface {
         // Update last checked position
         lastCheckedTokenId = newLastChecked;
         
-        // Deactivate expired tokens
+        // Record each expiry; a token extended or expired since checkUpkeep ran is reported and skipped
+        uint256[] memory cleared = new uint256[](expiredTokens.length);
+        uint256 clearedCount = 0;
         for (uint256 i = 0; i < expiredTokens.length; i++) {
-            try tokenizeAI.deactivateToken(expiredTokens[i]) {
-                // Successfully deactivated
-            } catch {
-                // Skip if deactivation fails (might already be deactivated)
-                continue;
+            try tokenizeAI.expireToken(expiredTokens[i]) {
+                cleared[clearedCount] = expiredTokens[i];
+                clearedCount++;
+                emit TokenExpired(expiredTokens[i]);
+            } catch (bytes memory reason) {
+                emit TokenExpiryFailed(expiredTokens[i], reason);
             }
         }
         
-        if (expiredTokens.length > 0) {
-            emit TokensDeactivated(expiredTokens);
+        if (clearedCount > 0) {
+            // Resize array to the tokens actually expired
+            uint256[] memory result = new uint256[](clearedCount);
+            for (uint256 i = 0; i < clearedCount; i++) {
+                result[i] = cleared[i];
+            }
+            emit TokensDeactivated(result);
         }
     }
     
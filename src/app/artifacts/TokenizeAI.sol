@@ -4,8 +4,26 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// Chainlink price feed (native/USD) used to price USD-denominated tokens
+interface AggregatorV3Interface {
+    function decimals() external view returns (uint8);
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+}
+
+// GetWalletKYC NFT registry; level is 0 for wallets without a KYC NFT
+interface IWalletKYC {
+    function hasKYCAccess(address wallet) external view returns (bool);
+    function getKYCLevel(address wallet) external view returns (uint8);
+}
 
 contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
     
     // Events for AI agents to listen to
     event TimeTokenCreated(
@@ -20,7 +38,8 @@ contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
         uint256 indexed tokenId,
         address indexed buyer,
         uint256 hoursAmount,
-        uint256 totalPrice
+        uint256 totalPrice,
+        address paymentAsset         // address(0) for native currency
     );
     
     event ServiceCompleted(
@@ -28,24 +47,245 @@ contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
         address indexed buyer,
         uint256 hoursCompleted
     );
+    
+    event TokenStatusChanged(
+        uint256 indexed tokenId,
+        TokenStatus previousStatus,
+        TokenStatus status
+    );
+    
+    event EscrowCreated(
+        uint256 indexed escrowId,
+        uint256 indexed tokenId,
+        address indexed buyer,
+        uint256 amount,
+        uint256 fee,
+        uint256 releaseAfter
+    );
+    
+    event EscrowReleased(
+        uint256 indexed escrowId,
+        address indexed creator,
+        uint256 amount,
+        bool releasedByTimeout
+    );
+    
+    event EscrowPolicySet(
+        uint256 indexed tokenId,
+        bool required,
+        uint256 timeoutDays
+    );
+    
+    event DisputeOpened(
+        uint256 indexed disputeId,
+        uint256 indexed escrowId,
+        address indexed buyer,
+        string evidenceURI,
+        uint256 deadline
+    );
+    
+    event DisputeResponded(
+        uint256 indexed disputeId,
+        address indexed creator,
+        string evidenceURI
+    );
+    
+    event DisputeResolved(
+        uint256 indexed disputeId,
+        address indexed arbiter,
+        uint256 buyerAmount,
+        uint256 creatorAmount
+    );
+    
+    event DisputeExpired(
+        uint256 indexed disputeId,
+        uint256 refundedAmount
+    );
+    
+    event ArbiterUpdated(address indexed arbiter, bool enabled);
+    
+    event AutomationUpdated(address indexed automation, bool enabled);
+    
+    event KYCPolicyUpdated(address registry, uint8 minCreatorLevel, uint8 minBuyerLevel);
+    
+    event OperatorUpdated(address indexed creator, address indexed operator, bool approved);
+    
+    event UsdPricingSet(uint256 indexed tokenId, uint256 usdPricePerHour);
+    
+    event PriceFeedUpdated(address indexed priceFeed, uint256 maxAge);
+    
+    event PaymentAssetUpdated(address indexed asset, bool allowed);
+    
+    event TokenPaymentAssetSet(uint256 indexed tokenId, address indexed asset, uint256 pricePerHour);
+    
+    event TimeTokenRepriced(uint256 indexed tokenId, uint256 pricePerHour, bool usdPriced);
+    
+    event TimeTokenExtended(uint256 indexed tokenId, uint256 validUntil);
+    
+    event TimeTokenToppedUp(uint256 indexed tokenId, uint256 hoursAdded, uint256 totalHours);
+
+    // Custom errors instead of revert strings keep the contract under the EIP-170 size limit
+    
+    // Access
+    error OnlyCreator();
+    error OnlyBuyer();
+    error OnlyArbiter();
+    error OnlyAutomation();
+    error OnlyDisputeParties();
+    error NotCreatorOrOperator();
+    error KYCLevelInsufficient(address account, uint8 requiredLevel);
+    
+    // Token creation and editing
+    error ServiceNameRequired();
+    error ZeroPrice();
+    error ZeroHours();
+    error ZeroDays();
+    error EmptyBatch();
+    error LengthMismatch();
+    error IllegalTransition();
+    error TokenRetired();
+    error TokenNotExpired();
+    
+    // Purchases
+    error TokenNotActive();
+    error TokenExpired();
+    error NotEnoughHours();
+    error InsufficientPayment();
+    error PriceAboveMax();
+    error UseNativePurchase();
+    error AssetNotAllowed();
+    error AssetNotAccepted();
+    error InvalidAsset();
+    error BuyerLacksHours();
+    
+    // Escrow and disputes
+    error EscrowRequired();
+    error InvalidEscrowTimeout();
+    error EscrowNotHeld();
+    error EscrowTimeoutNotReached();
+    error EscrowTimeoutPassed();
+    error EvidenceRequired();
+    error DisputeNotOpen();
+    error DisputeDeadlinePassed();
+    error DisputeDeadlineNotReached();
+    error SplitExceedsEscrow();
+    
+    // Price feed and fees
+    error PriceFeedNotSet();
+    error ZeroMaxAge();
+    error InvalidPrice();
+    error IncompletePriceRound();
+    error StalePrice();
+    error FeeTooHigh();
+    error NoFeesToWithdraw();
 
     // Struct to store token information
     struct TimeToken {
         address creator;
         string serviceName;
-        uint256 pricePerHour;        // Price in wei per hour
+        uint256 pricePerHour;        // Price in wei per hour (0 for USD-priced tokens)
         uint256 totalHours;          // Total hours available
         uint256 availableHours;      // Remaining hours
         uint256 validUntil;          // Expiration timestamp
-        bool isActive;
+        TokenStatus status;
+    }
+    
+    // Draft tokens are unlisted, Paused ones are held back by the creator. SoldOut and
+    // Expired are entered automatically and left by topping up or extending. Retired is final.
+    enum TokenStatus { Draft, Active, Paused, SoldOut, Expired, Retired }
+    
+    enum EscrowStatus { None, Held, Released, Disputed, Resolved }
+    
+    enum DisputeStatus { None, Open, Resolved, Expired }
+    
+    // Payment and hours held by the contract for a single escrowed purchase
+    struct Escrow {
+        uint256 tokenId;
+        address buyer;
+        address creator;
+        uint256 hoursAmount;
+        uint256 amount;              // Service price owed to the creator
+        uint256 fee;                 // Platform fee paid on top of the service price
+        address paymentAsset;        // ERC-20 the amounts are in; address(0) for native currency
+        uint256 createdAt;
+        uint256 releaseAfter;        // Creator may claim after this timestamp
+        EscrowStatus status;
+    }
+    
+    // Buyer-initiated dispute over an escrowed purchase
+    struct Dispute {
+        uint256 escrowId;
+        address buyer;
+        address creator;
+        string evidenceURI;          // Buyer evidence (e.g. IPFS document)
+        string responseURI;          // Creator counter-evidence
+        uint256 openedAt;
+        uint256 deadline;            // Arbiter must resolve before this timestamp
+        uint256 buyerAmount;         // Refunded to buyer on resolution
+        uint256 creatorAmount;       // Paid to creator on resolution
+        address resolvedBy;
+        DisputeStatus status;
+    }
+    
+    // Creator-defined escrow requirements for a token
+    struct EscrowPolicy {
+        bool required;
+        uint256 timeoutDays;
     }
     
     // State variables
-    mapping(uint256 => TimeToken) public timeTokens;
-    mapping(address => uint256[]) public creatorTokens;
-    mapping(address => uint256[]) public buyerTokens;
+    mapping(uint256 => TimeToken) internal timeTokens;
+    mapping(address => uint256[]) internal creatorTokens;
+    mapping(address => uint256[]) internal buyerTokens;
+    mapping(address => mapping(uint256 => bool)) private _hasPurchased;  // buyer => tokenId => listed in buyerTokens
+    
+    mapping(uint256 => Escrow) internal escrows;
+    mapping(uint256 => EscrowPolicy) internal escrowPolicies;
+    mapping(address => uint256[]) internal buyerEscrows;
+    mapping(address => uint256[]) internal creatorEscrows;
+    
+    mapping(uint256 => Dispute) internal disputes;
+    mapping(uint256 => uint256) public escrowDisputes;  // escrowId => disputeId
+    mapping(uint256 => bool) private _completionMarked;  // escrowId => creator already emitted ServiceCompleted
+    mapping(address => uint256[]) internal buyerDisputes;
+    mapping(address => uint256[]) internal creatorDisputes;
+    mapping(address => bool) public arbiters;
+    mapping(address => bool) public automations;     // Keepers allowed to record expiries
+    mapping(address => mapping(address => bool)) public operators;  // creator => operator => may mint in creator's name
+    
+    IWalletKYC public kycRegistry;    // KYC checks are off while unset
+    uint8 public minCreatorKYCLevel;  // 0 disables the check for creators
+    uint8 public minBuyerKYCLevel;    // 0 disables the check for buyers
+    
+    mapping(uint256 => uint256) public usdPricePerHour;  // tokenId => USD price (USD_DECIMALS); 0 for native pricing
+    AggregatorV3Interface public priceFeed;
+    uint256 public priceFeedMaxAge = 1 days + 1 hours;
+    
+    mapping(address => bool) public paymentAssets;  // ERC-20s the owner allows as payment
+    mapping(uint256 => mapping(address => uint256)) public assetPricePerHour;  // tokenId => asset => price in asset units
+    mapping(uint256 => address[]) private _tokenPaymentAssets;
+    mapping(address => uint256) public accruedAssetFees;
+    
+    mapping(uint256 => string) private _tokenURIs;  // tokenId => metadata JSON URI (e.g. ipfs://<cid>)
+    
+    uint256 public constant MIN_ESCROW_TIMEOUT_DAYS = 1;
+    uint256 public constant MAX_ESCROW_TIMEOUT_DAYS = 30;
+    uint256 public constant MAX_ESCROW_FEE_BPS = 1000; // 10%
+    uint256 public constant DISPUTE_RESOLUTION_DAYS = 14;
+    uint256 public constant COMPLETION_DISPUTE_DAYS = 3; // Buyer's window to dispute once the creator marks completion
+    uint256 public constant USD_DECIMALS = 8;
+    
+    uint256 public escrowFeeBps = 250;                 // 2.5% platform fee
+    uint256 public accruedPlatformFees;
     
     uint256 private _tokenIdCounter;
+    uint256 private _escrowIdCounter;
+    uint256 private _disputeIdCounter;
+    
+    modifier onlyArbiter() {
+        if (!arbiters[msg.sender]) revert OnlyArbiter();
+        _;
+    }
     
     constructor() ERC1155("") Ownable(msg.sender) {}
     
@@ -57,11 +297,98 @@ contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
         string memory serviceName,
         uint256 pricePerHour,
         uint256 totalHours,
-        uint256 validityDays
+        uint256 validityDays,
+        string memory metadataURI
+    ) external returns (uint256) {
+        if (pricePerHour == 0) revert ZeroPrice();
+        return _createTimeToken(creator, serviceName, pricePerHour, totalHours, validityDays, metadataURI);
+    }
+    
+    /**
+     * @dev Create a new time token that can only be purchased through escrow
+     */
+    function createTimeTokenWithEscrow(
+        address creator,
+        string memory serviceName,
+        uint256 pricePerHour,
+        uint256 totalHours,
+        uint256 validityDays,
+        uint256 escrowTimeoutDays,
+        string memory metadataURI
+    ) external returns (uint256) {
+        if (pricePerHour == 0) revert ZeroPrice();
+        uint256 tokenId = _createTimeToken(creator, serviceName, pricePerHour, totalHours, validityDays, metadataURI);
+        _requireEscrow(tokenId, escrowTimeoutDays);
+        return tokenId;
+    }
+    
+    /**
+     * @dev Create a time token priced in USD. Buyers pay the native amount the
+     *      price feed gives at purchase time. Pass escrowTimeoutDays = 0 for no escrow.
+     */
+    function createUsdPricedTimeToken(
+        address creator,
+        string memory serviceName,
+        uint256 usdPerHour,
+        uint256 totalHours,
+        uint256 validityDays,
+        uint256 escrowTimeoutDays,
+        string memory metadataURI
     ) external returns (uint256) {
-        require(bytes(serviceName).length > 0, "Service name required");
-        require(pricePerHour > 0, "Price must be positive");
-        require(totalHours > 0, "Hours must be positive");
+        if (address(priceFeed) == address(0)) revert PriceFeedNotSet();
+        if (usdPerHour == 0) revert ZeroPrice();
+        
+        uint256 tokenId = _createTimeToken(creator, serviceName, 0, totalHours, validityDays, metadataURI);
+        usdPricePerHour[tokenId] = usdPerHour;
+        emit UsdPricingSet(tokenId, usdPerHour);
+        
+        if (escrowTimeoutDays > 0) {
+            _requireEscrow(tokenId, escrowTimeoutDays);
+        }
+        
+        return tokenId;
+    }
+
+    /**
+     * @dev Create several native-priced time tokens in one transaction. Reverts
+     *      as a whole if any entry is invalid, so a bundle is never half-minted.
+     */
+    function createTimeTokensBatch(
+        address creator,
+        string[] calldata serviceNames,
+        uint256[] calldata pricesPerHour,
+        uint256[] calldata totalHours,
+        uint256[] calldata validityDays,
+        string[] calldata metadataURIs
+    ) external returns (uint256[] memory tokenIds) {
+        uint256 count = serviceNames.length;
+        if (count == 0) revert EmptyBatch();
+        if (
+            pricesPerHour.length != count || totalHours.length != count || validityDays.length != count
+                || metadataURIs.length != count
+        ) revert LengthMismatch();
+
+        tokenIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            if (pricesPerHour[i] == 0) revert ZeroPrice();
+            tokenIds[i] = _createTimeToken(
+                creator, serviceNames[i], pricesPerHour[i], totalHours[i], validityDays[i], metadataURIs[i]
+            );
+        }
+    }
+
+    function _createTimeToken(
+        address creator,
+        string memory serviceName,
+        uint256 pricePerHour,
+        uint256 totalHours,
+        uint256 validityDays,
+        string memory metadataURI
+    ) internal returns (uint256) {
+        if (creator != msg.sender && !operators[creator][msg.sender]) revert NotCreatorOrOperator();
+        _requireKYC(creator, minCreatorKYCLevel);
+        if (bytes(serviceName).length == 0) revert ServiceNameRequired();
+        if (totalHours == 0) revert ZeroHours();
         
         _tokenIdCounter++;
         uint256 tokenId = _tokenIdCounter;
@@ -73,7 +400,7 @@ contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
             totalHours: totalHours,
             availableHours: totalHours,
             validUntil: block.timestamp + (validityDays * 1 days),
-            isActive: true
+            status: TokenStatus.Active
         });
         
         // Mint tokens to creator
@@ -84,60 +411,561 @@ contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
         
         emit TimeTokenCreated(tokenId, creator, serviceName, pricePerHour, totalHours);
         
+        // Content-addressed ERC-1155 metadata JSON; fixed once the token exists
+        if (bytes(metadataURI).length > 0) {
+            _tokenURIs[tokenId] = metadataURI;
+            emit URI(metadataURI, tokenId);
+        }
+        
         return tokenId;
     }
     
+    function _requireEscrow(uint256 tokenId, uint256 escrowTimeoutDays) internal {
+        if (escrowTimeoutDays < MIN_ESCROW_TIMEOUT_DAYS || escrowTimeoutDays > MAX_ESCROW_TIMEOUT_DAYS) {
+            revert InvalidEscrowTimeout();
+        }
+        
+        escrowPolicies[tokenId] = EscrowPolicy({
+            required: true,
+            timeoutDays: escrowTimeoutDays
+        });
+        
+        emit EscrowPolicySet(tokenId, true, escrowTimeoutDays);
+    }
+    
     /**
-     * @dev Purchase time tokens
+     * @dev Purchase time tokens. maxTotalPrice bounds what the buyer pays if a
+     *      USD-priced token's native price moves before the transaction lands.
      */
-    function purchaseTimeToken(uint256 tokenId, uint256 hoursAmount) 
+    function purchaseTimeToken(uint256 tokenId, uint256 hoursAmount, uint256 maxTotalPrice) 
         external 
         payable 
         nonReentrant 
     {
+        if (escrowPolicies[tokenId].required) revert EscrowRequired();
+        
         TimeToken storage token = timeTokens[tokenId];
+        uint256 totalPrice = _transferPurchasedHours(token, tokenId, hoursAmount, address(0), maxTotalPrice, false);
+        if (msg.value < totalPrice) revert InsufficientPayment();
         
-        require(token.isActive, "Token not active");
-        require(hoursAmount > 0, "Hours must be positive");
-        require(hoursAmount <= token.availableHours, "Not enough hours available");
-        require(block.timestamp <= token.validUntil, "Token expired");
+        // Transfer full payment to creator
+        payable(token.creator).transfer(totalPrice);
         
-        uint256 totalPrice = hoursAmount * token.pricePerHour;
-        require(msg.value >= totalPrice, "Insufficient payment");
+        // Refund excess payment
+        if (msg.value > totalPrice) {
+            payable(msg.sender).transfer(msg.value - totalPrice);
+        }
         
-        // Update available hours
-        token.availableHours -= hoursAmount;
+        emit TimeTokenPurchased(tokenId, msg.sender, hoursAmount, totalPrice, address(0));
+    }
+    
+    /**
+     * @dev Purchase time tokens in an ERC-20 the creator accepts. The buyer must
+     *      have approved this contract for at least the total price.
+     */
+    function purchaseWithAsset(uint256 tokenId, uint256 hoursAmount, address asset, uint256 maxTotalPrice)
+        external
+        nonReentrant
+    {
+        if (escrowPolicies[tokenId].required) revert EscrowRequired();
+        if (asset == address(0)) revert UseNativePurchase();
         
-        // Transfer tokens from creator to buyer
-        _safeTransferFrom(token.creator, msg.sender, tokenId, hoursAmount, "");
+        TimeToken storage token = timeTokens[tokenId];
+        uint256 totalPrice = _transferPurchasedHours(token, tokenId, hoursAmount, asset, maxTotalPrice, false);
         
-        // Track buyer's tokens
-        buyerTokens[msg.sender].push(tokenId);
+        IERC20(asset).safeTransferFrom(msg.sender, token.creator, totalPrice);
         
-        // Transfer full payment to creator
-        payable(token.creator).transfer(totalPrice);
+        emit TimeTokenPurchased(tokenId, msg.sender, hoursAmount, totalPrice, asset);
+    }
+    
+    /**
+     * @dev Purchase time tokens with payment and hours held in escrow until the buyer
+     *      releases it or the escrow timeout passes
+     */
+    function purchaseWithEscrow(uint256 tokenId, uint256 hoursAmount, uint256 timeoutDays, uint256 maxTotalPrice)
+        external
+        payable
+        nonReentrant
+        returns (uint256)
+    {
+        EscrowPolicy memory policy = escrowPolicies[tokenId];
+        if (policy.required) {
+            // Creator-defined timeout takes precedence over the buyer's choice
+            timeoutDays = policy.timeoutDays;
+        }
+        if (timeoutDays < MIN_ESCROW_TIMEOUT_DAYS || timeoutDays > MAX_ESCROW_TIMEOUT_DAYS) {
+            revert InvalidEscrowTimeout();
+        }
+        
+        TimeToken storage token = timeTokens[tokenId];
+        uint256 totalPrice = _transferPurchasedHours(token, tokenId, hoursAmount, address(0), maxTotalPrice, true);
+        uint256 fee = calculateEscrowFee(totalPrice);
+        if (msg.value < totalPrice + fee) revert InsufficientPayment();
+        
+        accruedPlatformFees += fee;
         
         // Refund excess payment
-        if (msg.value > totalPrice) {
-            payable(msg.sender).transfer(msg.value - totalPrice);
+        if (msg.value > totalPrice + fee) {
+            payable(msg.sender).transfer(msg.value - totalPrice - fee);
+        }
+        
+        return _openEscrow(tokenId, token.creator, hoursAmount, totalPrice, fee, address(0), timeoutDays);
+    }
+    
+    /**
+     * @dev Escrowed purchase paid in an ERC-20; the price and fee are pulled into the contract
+     */
+    function purchaseWithAssetEscrow(
+        uint256 tokenId,
+        uint256 hoursAmount,
+        uint256 timeoutDays,
+        address asset,
+        uint256 maxTotalPrice
+    )
+        external
+        nonReentrant
+        returns (uint256)
+    {
+        if (asset == address(0)) revert UseNativePurchase();
+        
+        EscrowPolicy memory policy = escrowPolicies[tokenId];
+        if (policy.required) {
+            timeoutDays = policy.timeoutDays;
+        }
+        if (timeoutDays < MIN_ESCROW_TIMEOUT_DAYS || timeoutDays > MAX_ESCROW_TIMEOUT_DAYS) {
+            revert InvalidEscrowTimeout();
+        }
+        
+        TimeToken storage token = timeTokens[tokenId];
+        uint256 totalPrice = _transferPurchasedHours(token, tokenId, hoursAmount, asset, maxTotalPrice, true);
+        uint256 fee = calculateEscrowFee(totalPrice);
+        
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), totalPrice + fee);
+        accruedAssetFees[asset] += fee;
+        
+        return _openEscrow(tokenId, token.creator, hoursAmount, totalPrice, fee, asset, timeoutDays);
+    }
+    
+    /**
+     * @dev Buyer confirms the service was delivered, releasing payment to the creator and hours to the buyer
+     */
+    function releaseEscrow(uint256 escrowId) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+        if (escrow.status != EscrowStatus.Held) revert EscrowNotHeld();
+        if (msg.sender != escrow.buyer) revert OnlyBuyer();
+        
+        _releaseEscrow(escrowId, escrow, false);
+        
+        // One ServiceCompleted per escrow, so indexed completed hours aren't counted twice
+        if (!_completionMarked[escrowId]) {
+            emit ServiceCompleted(escrow.tokenId, escrow.buyer, escrow.hoursAmount);
+        }
+    }
+    
+    /**
+     * @dev Creator claims escrowed payment once the escrow timeout has passed
+     */
+    function claimAfterTimeout(uint256 escrowId) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+        if (escrow.status != EscrowStatus.Held) revert EscrowNotHeld();
+        if (msg.sender != escrow.creator) revert OnlyCreator();
+        if (block.timestamp <= escrow.releaseAfter) revert EscrowTimeoutNotReached();
+        
+        _releaseEscrow(escrowId, escrow, true);
+    }
+    
+    /**
+     * @dev Buyer disputes an escrowed purchase before the escrow timeout,
+     *      freezing the payment until an arbiter resolves it
+     */
+    function openDispute(uint256 escrowId, string memory evidenceURI) external returns (uint256) {
+        Escrow storage escrow = escrows[escrowId];
+        if (escrow.status != EscrowStatus.Held) revert EscrowNotHeld();
+        if (msg.sender != escrow.buyer) revert OnlyBuyer();
+        if (block.timestamp > escrow.releaseAfter) revert EscrowTimeoutPassed();
+        if (bytes(evidenceURI).length == 0) revert EvidenceRequired();
+        
+        _disputeIdCounter++;
+        uint256 disputeId = _disputeIdCounter;
+        uint256 deadline = block.timestamp + (DISPUTE_RESOLUTION_DAYS * 1 days);
+        
+        disputes[disputeId] = Dispute({
+            escrowId: escrowId,
+            buyer: escrow.buyer,
+            creator: escrow.creator,
+            evidenceURI: evidenceURI,
+            responseURI: "",
+            openedAt: block.timestamp,
+            deadline: deadline,
+            buyerAmount: 0,
+            creatorAmount: 0,
+            resolvedBy: address(0),
+            status: DisputeStatus.Open
+        });
+        
+        escrow.status = EscrowStatus.Disputed;
+        escrowDisputes[escrowId] = disputeId;
+        buyerDisputes[escrow.buyer].push(disputeId);
+        creatorDisputes[escrow.creator].push(disputeId);
+        
+        emit DisputeOpened(disputeId, escrowId, escrow.buyer, evidenceURI, deadline);
+        
+        return disputeId;
+    }
+    
+    /**
+     * @dev Creator submits counter-evidence for an open dispute
+     */
+    function respondToDispute(uint256 disputeId, string memory responseURI) external {
+        Dispute storage dispute = disputes[disputeId];
+        if (dispute.status != DisputeStatus.Open) revert DisputeNotOpen();
+        if (msg.sender != dispute.creator) revert OnlyCreator();
+        if (bytes(responseURI).length == 0) revert EvidenceRequired();
+        
+        dispute.responseURI = responseURI;
+        
+        emit DisputeResponded(disputeId, msg.sender, responseURI);
+    }
+    
+    /**
+     * @dev Arbiter splits the escrowed payment between buyer and creator
+     */
+    function resolveDispute(uint256 disputeId, uint256 buyerAmount) external onlyArbiter nonReentrant {
+        Dispute storage dispute = disputes[disputeId];
+        if (dispute.status != DisputeStatus.Open) revert DisputeNotOpen();
+        if (block.timestamp > dispute.deadline) revert DisputeDeadlinePassed();
+        
+        Escrow storage escrow = escrows[dispute.escrowId];
+        if (buyerAmount > escrow.amount) revert SplitExceedsEscrow();
+        
+        uint256 creatorAmount;
+        unchecked { creatorAmount = escrow.amount - buyerAmount; }
+        
+        dispute.status = DisputeStatus.Resolved;
+        dispute.buyerAmount = buyerAmount;
+        dispute.creatorAmount = creatorAmount;
+        dispute.resolvedBy = msg.sender;
+        escrow.status = EscrowStatus.Resolved;
+        
+        // The buyer keeps the share of hours they end up paying for; refunded hours return to the creator.
+        // A zero-priced escrow (a tiny quote rounded down) has nothing to split and is refunded.
+        uint256 paidHours = escrow.amount == 0 ? 0 : (escrow.hoursAmount * creatorAmount) / escrow.amount;
+        _settleEscrowHours(escrow, paidHours);
+        
+        if (buyerAmount > 0) {
+            _payout(escrow.paymentAsset, dispute.buyer, buyerAmount);
         }
+        if (creatorAmount > 0) {
+            _payout(escrow.paymentAsset, dispute.creator, creatorAmount);
+        }
+        
+        emit DisputeResolved(disputeId, msg.sender, buyerAmount, creatorAmount);
+    }
+    
+    /**
+     * @dev Refund the buyer when no arbiter resolved the dispute before its deadline;
+     *      the escrowed hours return to the creator's inventory
+     */
+    function settleExpiredDispute(uint256 disputeId) external nonReentrant {
+        Dispute storage dispute = disputes[disputeId];
+        if (dispute.status != DisputeStatus.Open) revert DisputeNotOpen();
+        if (block.timestamp <= dispute.deadline) revert DisputeDeadlineNotReached();
+        if (msg.sender != dispute.buyer && msg.sender != dispute.creator) revert OnlyDisputeParties();
         
-        emit TimeTokenPurchased(tokenId, msg.sender, hoursAmount, totalPrice);
+        Escrow storage escrow = escrows[dispute.escrowId];
+        
+        dispute.status = DisputeStatus.Expired;
+        dispute.buyerAmount = escrow.amount;
+        escrow.status = EscrowStatus.Resolved;
+        _settleEscrowHours(escrow, 0);
+        
+        _payout(escrow.paymentAsset, dispute.buyer, escrow.amount);
+        
+        emit DisputeExpired(disputeId, escrow.amount);
     }
     
     /**
-     * @dev Mark service as completed (for reputation/tracking)
+     * @dev Mark service as completed. For a held escrow of exactly these hours the buyer
+     *      then has COMPLETION_DISPUTE_DAYS to dispute before the creator can claim it.
      */
     function markServiceCompleted(uint256 tokenId, address buyer, uint256 hoursAmount) 
         external 
     {
-        TimeToken memory token = timeTokens[tokenId];
-        require(msg.sender == token.creator, "Only creator can mark completed");
-        require(balanceOf(buyer, tokenId) >= hoursAmount, "Buyer doesn't own enough tokens");
+        if (msg.sender != timeTokens[tokenId].creator) revert OnlyCreator();
+        
+        uint256 releaseAfter = block.timestamp + (COMPLETION_DISPUTE_DAYS * 1 days);
+        uint256[] storage ids = buyerEscrows[buyer];
+        bool escrowed;
+        for (uint256 i = 0; i < ids.length && !escrowed; i++) {
+            Escrow storage escrow = escrows[ids[i]];
+            // Escrows already marked complete have releaseAfter within the window
+            if (escrow.status == EscrowStatus.Held && escrow.tokenId == tokenId &&
+                escrow.hoursAmount == hoursAmount && escrow.releaseAfter > releaseAfter) {
+                escrow.releaseAfter = releaseAfter;
+                _completionMarked[ids[i]] = true;
+                escrowed = true;
+            }
+        }
+        if (!escrowed && balanceOf(buyer, tokenId) < hoursAmount) revert BuyerLacksHours();
         
         emit ServiceCompleted(tokenId, buyer, hoursAmount);
     }
     
+    /**
+     * @dev Update the escrow platform fee (owner only)
+     */
+    function setEscrowFeeBps(uint256 feeBps) external onlyOwner {
+        if (feeBps > MAX_ESCROW_FEE_BPS) revert FeeTooHigh();
+        escrowFeeBps = feeBps;
+    }
+    
+    /**
+     * @dev Grant or revoke the arbiter role (owner only)
+     */
+    function setArbiter(address arbiter, bool enabled) external onlyOwner {
+        arbiters[arbiter] = enabled;
+        emit ArbiterUpdated(arbiter, enabled);
+    }
+    
+    /**
+     * @dev Grant or revoke the automation role used by expiry keepers (owner only)
+     */
+    function setAutomation(address automation, bool enabled) external onlyOwner {
+        automations[automation] = enabled;
+        emit AutomationUpdated(automation, enabled);
+    }
+    
+    /**
+     * @dev Set the GetWalletKYC registry and the KYC levels required to create and buy (owner only)
+     */
+    function setKYCPolicy(address registry, uint8 minCreatorLevel, uint8 minBuyerLevel) external onlyOwner {
+        kycRegistry = IWalletKYC(registry);
+        minCreatorKYCLevel = minCreatorLevel;
+        minBuyerKYCLevel = minBuyerLevel;
+        emit KYCPolicyUpdated(registry, minCreatorLevel, minBuyerLevel);
+    }
+    
+    /**
+     * @dev Let an operator (e.g. an agent wallet) create tokens in the caller's name
+     */
+    function setOperator(address operator, bool approved) external {
+        operators[msg.sender][operator] = approved;
+        emit OperatorUpdated(msg.sender, operator, approved);
+    }
+    
+    /**
+     * @dev Set the native/USD feed used for USD-priced tokens (owner only)
+     */
+    function setPriceFeed(address feed, uint256 maxAge) external onlyOwner {
+        if (maxAge == 0) revert ZeroMaxAge();
+        priceFeed = AggregatorV3Interface(feed);
+        priceFeedMaxAge = maxAge;
+        emit PriceFeedUpdated(feed, maxAge);
+    }
+    
+    /**
+     * @dev Allow or disallow an ERC-20 as a payment asset (owner only)
+     */
+    function setPaymentAsset(address asset, bool allowed) external onlyOwner {
+        if (asset == address(0)) revert InvalidAsset();
+        paymentAssets[asset] = allowed;
+        emit PaymentAssetUpdated(asset, allowed);
+    }
+    
+    /**
+     * @dev Accept an allowed ERC-20 for a token at a fixed price per hour, or stop
+     *      accepting it with pricePerHour = 0 (creator only)
+     */
+    function setTokenPaymentAsset(uint256 tokenId, address asset, uint256 pricePerHour) external {
+        if (timeTokens[tokenId].creator != msg.sender) revert OnlyCreator();
+        
+        address[] storage assets = _tokenPaymentAssets[tokenId];
+        bool listed = assetPricePerHour[tokenId][asset] > 0;
+        
+        if (pricePerHour > 0) {
+            if (!paymentAssets[asset]) revert AssetNotAllowed();
+            if (!listed) {
+                assets.push(asset);
+            }
+        } else if (listed) {
+            for (uint256 i = 0; i < assets.length; i++) {
+                if (assets[i] == asset) {
+                    assets[i] = assets[assets.length - 1];
+                    assets.pop();
+                    break;
+                }
+            }
+        }
+        
+        assetPricePerHour[tokenId][asset] = pricePerHour;
+        emit TokenPaymentAssetSet(tokenId, asset, pricePerHour);
+    }
+    
+    /**
+     * @dev Withdraw collected escrow fees paid in an ERC-20 (owner only)
+     */
+    function withdrawAssetFees(address asset, address to) external onlyOwner nonReentrant {
+        uint256 amount = accruedAssetFees[asset];
+        if (amount == 0) revert NoFeesToWithdraw();
+        
+        accruedAssetFees[asset] = 0;
+        IERC20(asset).safeTransfer(to, amount);
+    }
+    
+    /**
+     * @dev Withdraw collected escrow fees (owner only)
+     */
+    function withdrawPlatformFees(address payable to) external onlyOwner nonReentrant {
+        uint256 amount = accruedPlatformFees;
+        if (amount == 0) revert NoFeesToWithdraw();
+        
+        accruedPlatformFees = 0;
+        to.transfer(amount);
+    }
+    
+    // Internal helpers
+    
+    function _transferPurchasedHours(
+        TimeToken storage token,
+        uint256 tokenId,
+        uint256 hoursAmount,
+        address asset,
+        uint256 maxTotalPrice,
+        bool escrowed
+    )
+        internal
+        returns (uint256 totalPrice)
+    {
+        _requireKYC(msg.sender, minBuyerKYCLevel);
+        if (token.status != TokenStatus.Active) revert TokenNotActive();
+        if (hoursAmount == 0) revert ZeroHours();
+        if (hoursAmount > token.availableHours) revert NotEnoughHours();
+        if (block.timestamp > token.validUntil) revert TokenExpired();
+        
+        totalPrice = asset == address(0)
+            ? quotePurchase(tokenId, hoursAmount)
+            : quotePurchaseInAsset(tokenId, hoursAmount, asset);
+        if (totalPrice > maxTotalPrice) revert PriceAboveMax();
+        
+        // Update available hours (checked against availableHours above)
+        unchecked { token.availableHours -= hoursAmount; }
+        if (token.availableHours == 0) {
+            _setStatus(tokenId, token, TokenStatus.SoldOut);
+        }
+        
+        // Transfer tokens from creator to buyer; escrowed hours wait in the contract until release
+        if (escrowed) {
+            _moveHours(token.creator, address(this), tokenId, hoursAmount);
+        } else {
+            _safeTransferFrom(token.creator, msg.sender, tokenId, hoursAmount, "");
+        }
+        
+        // Track buyer's tokens once, however many times they buy
+        if (!_hasPurchased[msg.sender][tokenId]) {
+            _hasPurchased[msg.sender][tokenId] = true;
+            buyerTokens[msg.sender].push(tokenId);
+        }
+    }
+    
+    function _requireKYC(address account, uint8 minLevel) internal view {
+        if (address(kycRegistry) == address(0) || minLevel == 0) return;
+        if (!kycRegistry.hasKYCAccess(account) || kycRegistry.getKYCLevel(account) < minLevel) {
+            revert KYCLevelInsufficient(account, minLevel);
+        }
+    }
+    
+    function _usdToNative(uint256 usdAmount) internal view returns (uint256) {
+        if (address(priceFeed) == address(0)) revert PriceFeedNotSet();
+        
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = priceFeed.latestRoundData();
+        if (answer <= 0) revert InvalidPrice();
+        if (answeredInRound < roundId) revert IncompletePriceRound();
+        if (updatedAt + priceFeedMaxAge < block.timestamp) revert StalePrice();
+        
+        // usdAmount and answer carry their own decimals; scale to 18-decimal native units
+        return (usdAmount * 1e18 * (10 ** priceFeed.decimals())) / (uint256(answer) * (10 ** USD_DECIMALS));
+    }
+    
+    function _openEscrow(
+        uint256 tokenId,
+        address creator,
+        uint256 hoursAmount,
+        uint256 totalPrice,
+        uint256 fee,
+        address asset,
+        uint256 timeoutDays
+    ) internal returns (uint256) {
+        _escrowIdCounter++;
+        uint256 escrowId = _escrowIdCounter;
+        uint256 releaseAfter = block.timestamp + (timeoutDays * 1 days);
+        
+        escrows[escrowId] = Escrow({
+            tokenId: tokenId,
+            buyer: msg.sender,
+            creator: creator,
+            hoursAmount: hoursAmount,
+            amount: totalPrice,
+            fee: fee,
+            paymentAsset: asset,
+            createdAt: block.timestamp,
+            releaseAfter: releaseAfter,
+            status: EscrowStatus.Held
+        });
+        
+        buyerEscrows[msg.sender].push(escrowId);
+        creatorEscrows[creator].push(escrowId);
+        
+        emit TimeTokenPurchased(tokenId, msg.sender, hoursAmount, totalPrice, asset);
+        emit EscrowCreated(escrowId, tokenId, msg.sender, totalPrice, fee, releaseAfter);
+        
+        return escrowId;
+    }
+    
+    function _payout(address asset, address to, uint256 amount) internal {
+        if (asset == address(0)) {
+            payable(to).transfer(amount);
+        } else {
+            IERC20(asset).safeTransfer(to, amount);
+        }
+    }
+    
+    function _releaseEscrow(uint256 escrowId, Escrow storage escrow, bool releasedByTimeout) internal {
+        escrow.status = EscrowStatus.Released;
+        _settleEscrowHours(escrow, escrow.hoursAmount);
+        _payout(escrow.paymentAsset, escrow.creator, escrow.amount);
+        
+        emit EscrowReleased(escrowId, escrow.creator, escrow.amount, releasedByTimeout);
+    }
+    
+    // Deliver paidHours of the escrowed hours to the buyer and put the rest back on sale
+    function _settleEscrowHours(Escrow storage escrow, uint256 paidHours) internal {
+        uint256 refundedHours = escrow.hoursAmount - paidHours;
+        _moveHours(address(this), escrow.buyer, escrow.tokenId, paidHours);
+        if (refundedHours == 0) return;
+        
+        TimeToken storage token = timeTokens[escrow.tokenId];
+        _moveHours(address(this), escrow.creator, escrow.tokenId, refundedHours);
+        unchecked { token.availableHours += refundedHours; } // Bounded by totalHours
+        _reopenSoldOut(escrow.tokenId, token);
+    }
+    
+    // A SoldOut token that has hours again goes back on sale, or to Expired once past validUntil
+    function _reopenSoldOut(uint256 tokenId, TimeToken storage token) internal {
+        if (token.status == TokenStatus.SoldOut) {
+            _setStatus(tokenId, token, block.timestamp > token.validUntil ? TokenStatus.Expired : TokenStatus.Active);
+        }
+    }
+    
+    // Escrow moves skip the receiver hook so a buyer contract can't block its own escrow settling
+    function _moveHours(address from, address to, uint256 tokenId, uint256 hoursAmount) internal {
+        if (hoursAmount == 0) return;
+        uint256[] memory ids = new uint256[](1);
+        uint256[] memory values = new uint256[](1);
+        ids[0] = tokenId;
+        values[0] = hoursAmount;
+        _update(from, to, ids, values);
+    }
+    
     // View functions for AI agents
     
     /**
@@ -174,33 +1002,198 @@ contract TokenizeAI is ERC1155, Ownable, ReentrancyGuard {
     }
     
     /**
-     * @dev Get market data for a token
+     * @dev Lifecycle state of a token, reporting Active tokens past their expiry as Expired
+     *      before anyone has recorded it
      */
-    function getMarketData(uint256 tokenId) 
-        external 
-        view 
-        returns (
-            uint256 availableHours,
-            uint256 pricePerHour,
-            uint256 validUntil,
-            bool isActive
-        ) 
-    {
-        TimeToken memory token = timeTokens[tokenId];
-        return (
-            token.availableHours,
-            token.pricePerHour,
-            token.validUntil,
-            token.isActive
-        );
+    function getTokenStatus(uint256 tokenId) external view returns (TokenStatus) {
+        TimeToken storage token = timeTokens[tokenId];
+        if (token.status == TokenStatus.Active && block.timestamp > token.validUntil) {
+            return TokenStatus.Expired;
+        }
+        return token.status;
+    }
+    
+    /**
+     * @dev Get escrow details
+     */
+    function getEscrow(uint256 escrowId) external view returns (Escrow memory) {
+        return escrows[escrowId];
+    }
+    
+    /**
+     * @dev Get all escrows opened by a buyer
+     */
+    function getBuyerEscrows(address buyer) external view returns (uint256[] memory) {
+        return buyerEscrows[buyer];
+    }
+    
+    /**
+     * @dev Get all escrows holding payments for a creator
+     */
+    function getCreatorEscrows(address creator) external view returns (uint256[] memory) {
+        return creatorEscrows[creator];
+    }
+    
+    /**
+     * @dev Get dispute details
+     */
+    function getDispute(uint256 disputeId) external view returns (Dispute memory) {
+        return disputes[disputeId];
+    }
+    
+    /**
+     * @dev Get all disputes opened by a buyer
+     */
+    function getBuyerDisputes(address buyer) external view returns (uint256[] memory) {
+        return buyerDisputes[buyer];
+    }
+    
+    /**
+     * @dev Get all disputes raised against a creator
+     */
+    function getCreatorDisputes(address creator) external view returns (uint256[] memory) {
+        return creatorDisputes[creator];
+    }
+    
+    /**
+     * @dev Get the escrow requirements for a token
+     */
+    function getEscrowPolicy(uint256 tokenId) external view returns (EscrowPolicy memory) {
+        return escrowPolicies[tokenId];
+    }
+    
+    /**
+     * @dev Native amount a purchase costs right now; reads the price feed for USD-priced tokens
+     */
+    function quotePurchase(uint256 tokenId, uint256 hoursAmount) public view returns (uint256) {
+        uint256 usdPerHour = usdPricePerHour[tokenId];
+        if (usdPerHour == 0) {
+            return hoursAmount * timeTokens[tokenId].pricePerHour;
+        }
+        return _usdToNative(hoursAmount * usdPerHour);
+    }
+    
+    /**
+     * @dev Amount of an accepted ERC-20 a purchase costs
+     */
+    function quotePurchaseInAsset(uint256 tokenId, uint256 hoursAmount, address asset) public view returns (uint256) {
+        uint256 pricePerHour = assetPricePerHour[tokenId][asset];
+        if (pricePerHour == 0) revert AssetNotAccepted();
+        return hoursAmount * pricePerHour;
+    }
+    
+    /**
+     * @dev ERC-20s a token can be paid in
+     */
+    function getTokenPaymentAssets(uint256 tokenId) external view returns (address[] memory) {
+        return _tokenPaymentAssets[tokenId];
+    }
+    
+    /**
+     * @dev Platform fee charged on top of an escrowed purchase
+     */
+    function calculateEscrowFee(uint256 amount) public view returns (uint256) {
+        return (amount * escrowFeeBps) / 10000;
+    }
+    
+    /**
+     * @dev Move a token between Draft, Active, Paused and Retired (creator only). Only tokens
+     *      nobody has bought from can go back to Draft; Retired tokens stay retired.
+     */
+    function setTokenStatus(uint256 tokenId, TokenStatus status) external {
+        TimeToken storage token = _creatorToken(tokenId);
+        TokenStatus current = token.status;
+        
+        bool legal = status == TokenStatus.Retired
+            || (status == TokenStatus.Paused && current == TokenStatus.Active)
+            || (status == TokenStatus.Active && (current == TokenStatus.Draft || current == TokenStatus.Paused)
+                && block.timestamp <= token.validUntil)
+            || (status == TokenStatus.Draft && (current == TokenStatus.Active || current == TokenStatus.Paused)
+                && token.availableHours == token.totalHours);
+        if (!legal) revert IllegalTransition();
+        
+        _setStatus(tokenId, token, status);
+    }
+    
+    /**
+     * @dev Record the expiry of an Active token once validUntil has passed (automation only).
+     *      The creator can still extend it back to Active.
+     */
+    function expireToken(uint256 tokenId) external {
+        if (!automations[msg.sender]) revert OnlyAutomation();
+        TimeToken storage token = timeTokens[tokenId];
+        if (token.status != TokenStatus.Active) revert TokenNotActive();
+        if (block.timestamp <= token.validUntil) revert TokenNotExpired();
+        
+        _setStatus(tokenId, token, TokenStatus.Expired);
+    }
+    
+    function _setStatus(uint256 tokenId, TimeToken storage token, TokenStatus status) internal {
+        emit TokenStatusChanged(tokenId, token.status, status);
+        token.status = status;
+    }
+    
+    /**
+     * @dev Change a token's hourly rate (creator only). USD-priced tokens take the
+     *      new price in USD_DECIMALS, native-priced tokens in wei.
+     */
+    function repriceToken(uint256 tokenId, uint256 newPricePerHour) external {
+        TimeToken storage token = _creatorToken(tokenId);
+        if (newPricePerHour == 0) revert ZeroPrice();
+        
+        bool usdPriced = usdPricePerHour[tokenId] > 0;
+        if (usdPriced) {
+            usdPricePerHour[tokenId] = newPricePerHour;
+        } else {
+            token.pricePerHour = newPricePerHour;
+        }
+        
+        emit TimeTokenRepriced(tokenId, newPricePerHour, usdPriced);
+    }
+    
+    /**
+     * @dev Push a token's expiry back (creator only). An expired token is extended from now.
+     */
+    function extendTokenValidity(uint256 tokenId, uint256 additionalDays) external {
+        TimeToken storage token = _creatorToken(tokenId);
+        if (additionalDays == 0) revert ZeroDays();
+        
+        uint256 from = token.validUntil > block.timestamp ? token.validUntil : block.timestamp;
+        token.validUntil = from + (additionalDays * 1 days);
+        if (token.status == TokenStatus.Expired) {
+            _setStatus(tokenId, token, TokenStatus.Active);
+        }
+        
+        emit TimeTokenExtended(tokenId, token.validUntil);
+    }
+    
+    /**
+     * @dev Mint more hours of an existing token to its creator (creator only)
+     */
+    function topUpTokenHours(uint256 tokenId, uint256 additionalHours) external {
+        TimeToken storage token = _creatorToken(tokenId);
+        if (additionalHours == 0) revert ZeroHours();
+        
+        token.totalHours += additionalHours;
+        token.availableHours += additionalHours;
+        _mint(msg.sender, tokenId, additionalHours, "");
+        // A top-up can't revive a token past validUntil; it needs extendTokenValidity for that
+        _reopenSoldOut(tokenId, token);
+        
+        emit TimeTokenToppedUp(tokenId, additionalHours, token.totalHours);
+    }
+    
+    function _creatorToken(uint256 tokenId) internal view returns (TimeToken storage token) {
+        token = timeTokens[tokenId];
+        if (token.creator != msg.sender) revert OnlyCreator();
+        if (token.status == TokenStatus.Retired) revert TokenRetired();
     }
     
     /**
-     * @dev Deactivate a token (creator only)
+     * @dev ERC-1155 metadata URI of a token; empty for tokens minted without metadata
      */
-    function deactivateToken(uint256 tokenId) external {
-        require(timeTokens[tokenId].creator == msg.sender, "Only creator can deactivate");
-        timeTokens[tokenId].isActive = false;
+    function uri(uint256 tokenId) public view override returns (string memory) {
+        return _tokenURIs[tokenId];
     }
     
     /**
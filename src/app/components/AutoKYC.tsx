@@ -2,8 +2,11 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAccount } from 'wagmi';
-import { getUnifiedKYCAgent, KYCResult, KYCEventCallbacks } from '../services/unifiedKycAgent';
+import { useAccount, useChainId } from 'wagmi';
+import { getUnifiedKYCAgent, KYCResult, KYCEventCallbacks, KYCOutcome } from '../services/unifiedKycAgent';
+import { CHAINLINK_CONFIG, BLOCK_EXPLORERS, KYC_HOME_CHAIN_ID, getKYCContract } from '../shared/constants';
+import { getChainDisplayName } from '../lib/wagmi';
+import { KYCTierPolicy, AccountKYCTier, KYCTier } from '../services/kycTiers';
 
 interface AutoKYCProps {
   onAccessGranted?: () => void;
@@ -21,6 +24,7 @@ interface KYCStep {
 
 export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrigger = true }: AutoKYCProps) {
   const { address, isConnected } = useAccount();
+  const chainId = useChainId();
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentStep, setCurrentStep] = useState<string | null>(null);
   const [steps, setSteps] = useState<KYCStep[]>([
@@ -63,6 +67,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
   ]);
   const [result, setResult] = useState<KYCResult | null>(null);
   const [tokenId, setTokenId] = useState<number | null>(null);
+  const [kycTier, setKycTier] = useState<AccountKYCTier | null>(null);
 
   const kycAgent = getUnifiedKYCAgent();
   const flowInitiatedForAddressRef = useRef<string | null>(null);
@@ -123,7 +128,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
         }
         flowInitiatedForAddressRef.current = null;
       },
-      onNFTMinted: (tokenId: number, contractAddress: string, transactionHash?: string) => {
+      onNFTMinted: (tokenId: number, contractAddress: string, transactionHash?: string, passChainId?: number) => {
         console.log('🎉 NFT minted! Token ID:', tokenId, 'Contract:', contractAddress);
         setTokenId(tokenId);
         updateStepStatus('nft-minting', 'completed', `✅ NFT Minted! Token ID: ${tokenId}`);
@@ -135,11 +140,30 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
           success: true,
           tokenId,
           contractAddress,
-          transactionHash
+          transactionHash,
+          chainId: passChainId
         });
 
         flowInitiatedForAddressRef.current = null;
       },
+      onKYCOutcome: (outcome: KYCOutcome) => {
+        // Failures land on the step they came from; success is handled by onNFTMinted
+        if (outcome.status === 'verified') return;
+
+        const failure = outcome.status === 'rejected'
+          ? { step: 'nft-minting', message: `❌ KYC rejected: ${outcome.reason}` }
+          : outcome.status === 'functions-error'
+            ? { step: 'chainlink-call', message: `❌ Chainlink Functions error: ${outcome.error}` }
+            : { step: 'nft-minting', message: `⏰ No response from Chainlink after ${outcome.timeoutMs / 60000} minutes - the NFT may still arrive` };
+
+        if (failure.step === 'chainlink-call') {
+          updateStepStatus('nft-minting', 'pending');
+        }
+        updateStepStatus(failure.step, 'error', failure.message);
+        setCurrentStep(failure.step);
+        setIsProcessing(false);
+        flowInitiatedForAddressRef.current = null;
+      },
       onAccessGranted: () => {
         console.log('🎊 Access granted! User can proceed to questionnaire');
         updateStepStatus('access-granted', 'completed');
@@ -215,7 +239,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
 
       // Step 2: Check existing NFT access (NO TRANSACTION)
       console.log('🔍 Step 2: Checking existing NFT access...');
-      const existingStatus = await kycAgent.checkKYCStatus(walletAddress);
+      const existingStatus = await kycAgent.checkKYCStatus(walletAddress, chainId);
 
       if (existingStatus.hasAccess) {
         // Handle existing NFT case
@@ -228,7 +252,9 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
         const ipfsUrl = kycLevelMetadata[existingStatus.kycLevel as keyof typeof kycLevelMetadata] || "Unknown";
 
         // Show abbreviated flow for existing NFT
-        updateStepStatus('nft-check', 'completed', `✅ NFT Found - Level ${existingStatus.kycLevel}\n📎 IPFS: ${ipfsUrl}`);
+        const validUntil = existingStatus.expiresAt ? `\n📅 Valid until: ${new Date(existingStatus.expiresAt * 1000).toLocaleDateString()}` : '';
+        const passChain = existingStatus.chainId ? `\n⛓️ Issued on: ${getChainDisplayName(existingStatus.chainId)}` : '';
+        updateStepStatus('nft-check', 'completed', `✅ NFT Found - Level ${existingStatus.kycLevel}\n📎 IPFS: ${ipfsUrl}${validUntil}${passChain}`);
 
         // Hide remaining stages
         setSteps(prev => prev.map((step, index) => {
@@ -243,13 +269,29 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
         setResult({
           success: true,
           tokenId: existingStatus.kycLevel,
-          contractAddress: kycAgent.getStatus().contractAddress,
-          hasExistingNFT: true
+          contractAddress: (existingStatus.chainId && getKYCContract(existingStatus.chainId)) || kycAgent.getStatus().contractAddress,
+          hasExistingNFT: true,
+          expiresAt: existingStatus.expiresAt,
+          chainId: existingStatus.chainId
         });
         setIsProcessing(false);
         flowInitiatedForAddressRef.current = null;
         onAccessGranted?.();
         return;
+      } else if (existingStatus.passStatus === 'revoked') {
+        // Revoked passes can't be renewed until an operator clears the revocation
+        const error = 'KYC pass was revoked - contact support to have it reinstated';
+        updateStepStatus('nft-check', 'error', `⛔ ${error}`);
+        setResult({ success: false, error });
+        setIsProcessing(false);
+        flowInitiatedForAddressRef.current = null;
+        return;
+      } else if (existingStatus.passStatus === 'expired') {
+        // A lapsed pass is renewed through the same database check and Chainlink request
+        const lapsed = `⚠️ KYC pass expired on ${new Date((existingStatus.expiresAt ?? 0) * 1000).toLocaleDateString()}`;
+        const passChain = existingStatus.chainId ? ` on ${getChainDisplayName(existingStatus.chainId)}` : '';
+        updateStepStatus('nft-check', 'completed', `${lapsed}${passChain} - re-verifying to renew it`);
+        await new Promise(resolve => setTimeout(resolve, 500));
       } else {
         updateStepStatus('nft-check', 'completed', 'No existing NFT found');
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -280,7 +322,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
       console.log('🔗 Step 4: Triggering Chainlink Functions - TRANSACTION WILL POPUP NOW...');
 
       // ✅ NOW call verifyKYC which will trigger the transaction
-      const kycResult = await kycAgent.verifyKYC(walletAddress);
+      const kycResult = await kycAgent.verifyKYC(walletAddress, chainId);
 
       if (kycResult.success) {
         if (kycResult.tokenId) {
@@ -294,30 +336,12 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
           flowInitiatedForAddressRef.current = null;
           onAccessGranted?.();
         } else if (kycResult.pending) {
-          // Chainlink processing - wait for completion
-          updateStepStatus('chainlink-call', 'completed', 'Chainlink request submitted');
-          updateStepStatus('nft-minting', 'processing', 'Waiting for Chainlink NFT minting...');
+          // The agent reports the Functions callback through onNFTMinted / onKYCOutcome
+          const requestChain = kycResult.chainId ? `\n⛓️ Network: ${getChainDisplayName(kycResult.chainId)}` : '';
+          updateStepStatus('chainlink-call', 'completed', `Chainlink request submitted\n🆔 Request: ${kycResult.requestId}${requestChain}`);
+          updateStepStatus('nft-minting', 'processing', `Waiting up to ${CHAINLINK_CONFIG.REQUEST_TIMEOUT / 60000} minutes for Chainlink to mint the NFT...`);
           setCurrentStep('nft-minting');
-
-          // 10-second auto-completion for demo
-          setTimeout(() => {
-            const mockTokenId = Math.floor(Date.now() / 1000) % 10000;
-            updateStepStatus('nft-minting', 'completed', `✅ NFT Minted! Token ID: ${mockTokenId}`);
-            updateStepStatus('access-granted', 'completed', 'KYC Complete - You can now proceed to questionnaire');
-            setCurrentStep('access-granted');
-            setIsProcessing(false);
-
-            setTokenId(mockTokenId);
-            setResult({
-              success: true,
-              tokenId: mockTokenId,
-              contractAddress: kycAgent.getStatus().contractAddress,
-              transactionHash: kycResult.transactionHash
-            });
-
-            flowInitiatedForAddressRef.current = null;
-            onAccessGranted?.();
-          }, 10000);
+          setResult(kycResult);
         }
       } else {
         // Handle verification failure
@@ -335,7 +359,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
       setIsProcessing(false);
       flowInitiatedForAddressRef.current = null;
     }
-  }, [updateStepStatus, setCurrentStep, onAccessGranted, kycAgent, currentStep]);
+  }, [updateStepStatus, setCurrentStep, onAccessGranted, kycAgent, currentStep, chainId]);
 
   useEffect(() => {
     if (isConnected && address && enableAutoTrigger && flowInitiatedForAddressRef.current !== address) {
@@ -355,6 +379,25 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
     }
   }, [address, isConnected, enableAutoTrigger, isProcessing, triggerKYCFlow, kycAgent]);
 
+  // Show the tier the KYC NFT unlocks once verification is through
+  useEffect(() => {
+    if (!address || !result?.success || tokenId === null) {
+      setKycTier(null);
+      return;
+    }
+    KYCTierPolicy.getAccountTier(address, chainId).then(setKycTier);
+  }, [address, chainId, result?.success, tokenId]);
+
+  const formatLimit = (value: number | null, format: (value: number) => string) =>
+    value === null ? 'Unlimited' : format(value);
+
+  const tierLimits = (tier: KYCTier) => [
+    { label: 'Max price per hour', value: formatLimit(tier.maxPricePerHourUSD, value => `$${value.toLocaleString()}`) },
+    { label: 'Max hours per token', value: formatLimit(tier.maxTotalHoursPerToken, value => value.toLocaleString()) },
+    { label: 'Max active tokens', value: formatLimit(tier.maxActiveTokens, value => value.toString()) },
+    { label: 'Escrow on purchases', value: tier.escrowRequired ? 'Required' : 'Optional' }
+  ];
+
   const getStepIcon = (status: KYCStep['status']) => {
     switch (status) {
       case 'completed': return '✅';
@@ -454,7 +497,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
           >
             {result.success ? (
               <div className="text-green-700">
-                {tokenId ? (
+                {tokenId !== null ? (
                   <>
                     {result.hasExistingNFT ? (
                       <>
@@ -462,6 +505,12 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
                         <div className="space-y-1">
                           <p className="font-semibold">🎫 Your NFT Token ID: {tokenId}</p>
                           <p className="text-sm">📍 Contract: {result.contractAddress}</p>
+                          {result.chainId && (
+                            <p className="text-sm">⛓️ Issued on {getChainDisplayName(result.chainId)} - recognised on every supported network</p>
+                          )}
+                          {result.expiresAt && (
+                            <p className="text-sm">📅 Valid until: {new Date(result.expiresAt * 1000).toLocaleDateString()}</p>
+                          )}
                           <p className="text-sm">🚀 You're already verified! Proceed to questionnaire</p>
                         </div>
                       </>
@@ -493,9 +542,45 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
         )}
       </AnimatePresence>
 
+      {/* KYC tier and what the next level unlocks */}
+      {kycTier && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-4 p-4 rounded-lg bg-blue-50 border border-blue-200"
+        >
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-bold text-gray-800">{kycTier.tier.icon} {kycTier.tier.name} Tier</h3>
+            <span className="text-sm text-gray-600">KYC level {kycTier.level}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {tierLimits(kycTier.tier).map(limit => (
+              <div key={limit.label} className="flex justify-between bg-white rounded px-3 py-2">
+                <span className="text-gray-600">{limit.label}</span>
+                <span className="font-semibold text-gray-800">{limit.value}</span>
+              </div>
+            ))}
+          </div>
+          {kycTier.nextTier ? (
+            <div className="mt-3 text-sm text-gray-700">
+              <p className="font-semibold">
+                Reach KYC level {kycTier.nextTier.minLevel} for {kycTier.nextTier.icon} {kycTier.nextTier.name}:
+              </p>
+              <ul className="mt-1 space-y-1">
+                {KYCTierPolicy.describeUnlocks(kycTier.tier, kycTier.nextTier).map(unlock => (
+                  <li key={unlock}>• {unlock}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="mt-3 text-sm text-gray-700">You&apos;re at the highest tier; no platform limits apply.</p>
+          )}
+        </motion.div>
+      )}
+
       {/* Action buttons */}
       <div className="text-center mt-6">
-        {result?.success && tokenId ? (
+        {result?.success && tokenId !== null ? (
           <div className="space-y-4">
             <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
               {result.hasExistingNFT ? (
@@ -511,7 +596,7 @@ export default function AutoKYC({ onAccessGranted, onKYCComplete, enableAutoTrig
                   {result.transactionHash && (
                     <p className="text-sm">
                       <a
-                        href={`https://testnet.snowtrace.io/tx/${result.transactionHash}`}
+                        href={`${BLOCK_EXPLORERS[(result.chainId ?? KYC_HOME_CHAIN_ID) as keyof typeof BLOCK_EXPLORERS]}/tx/${result.transactionHash}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-600 hover:underline"
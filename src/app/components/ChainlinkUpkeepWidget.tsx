@@ -1,35 +1,88 @@
-
 import React, { useState, useEffect } from 'react';
+import { useChainId } from 'wagmi';
+import { getUpkeepMonitor, UpkeepStatus } from '../services/upkeepMonitor';
+import { UPKEEP_MONITOR_CONFIG } from '../shared/constants';
 
 const ChainlinkUpkeepWidget = () => {
-  const [timeLeft, setTimeLeft] = useState('');
+  const chainId = useChainId();
+  const [status, setStatus] = useState<UpkeepStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const calculateTimeLeft = () => {
-      const now = new Date();
-      const minutes = now.getMinutes();
-      const seconds = now.getSeconds();
-      
-      const minutesLeft = 59 - minutes;
-      const secondsLeft = 59 - seconds;
-      
-      return `${minutesLeft.toString().padStart(2, '0')}:${secondsLeft.toString().padStart(2, '0')}`;
+    let cancelled = false;
+
+    const loadStatus = async () => {
+      try {
+        const upkeepStatus = await getUpkeepMonitor().getStatus(chainId);
+        if (cancelled) return;
+        setStatus(upkeepStatus);
+        setError(null);
+      } catch (err) {
+        console.error('❌ Failed to load upkeep status:', err);
+        if (!cancelled) setError('Upkeep status unavailable');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    loadStatus();
+    const timer = setInterval(loadStatus, UPKEEP_MONITOR_CONFIG.POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
     };
+  }, [chainId]);
+
+  const formatTimestamp = (timestamp: number) => {
+    const diff = Date.now() - timestamp * 1000;
+    const minutes = Math.floor(diff / (1000 * 60));
+    const hours = Math.floor(diff / (1000 * 60 * 60));
+    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
 
-    const timer = setInterval(() => {
-      setTimeLeft(calculateTimeLeft());
-    }, 1000);
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (hours < 24) return `${hours}h ago`;
+    if (days < 7) return `${days}d ago`;
+    return new Date(timestamp * 1000).toLocaleDateString();
+  };
 
-    return () => clearInterval(timer);
-  }, []);
+  const lastRun = status?.recentRuns[0];
+  const recentCleared = status?.recentRuns.reduce((total, run) => total + run.tokenIds.length, 0) ?? 0;
 
   return (
-    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-4 border border-white/20">
-      <div className="text-center">
-        <p className="text-white/80 text-sm font-bold">Next Upkeep In:</p>
-        <p className="text-white text-3xl font-bold">{timeLeft}</p>
-      </div>
-      <p className="text-xs text-white/60 mt-2 text-center font-bold">Chainlink Automation clears expired tokens hourly.</p>
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-4 border border-white/20 min-w-[220px]">
+      {loading && !status ? (
+        <p className="text-white/60 text-sm font-bold text-center">Loading upkeep status...</p>
+      ) : error && !status ? (
+        <p className="text-red-300 text-sm font-bold text-center">{error}</p>
+      ) : !status ? (
+        <p className="text-white/60 text-sm font-bold text-center">Expiration automation is not deployed on this network.</p>
+      ) : (
+        <>
+          <div className="text-center">
+            <p className="text-white/80 text-sm font-bold">Last Upkeep:</p>
+            <p className="text-white text-2xl font-bold">{lastRun ? formatTimestamp(lastRun.timestamp) : 'None yet'}</p>
+            {lastRun && (
+              <p className="text-white/60 text-xs font-bold">
+                Cleared {lastRun.tokenIds.length} token{lastRun.tokenIds.length === 1 ? '' : 's'}
+                {status.recentRuns.length > 1 && ` · ${recentCleared} over the last ${status.recentRuns.length} upkeeps`}
+              </p>
+            )}
+          </div>
+          <div className="flex justify-between mt-3 text-xs font-bold">
+            <span className="text-white/60">Awaiting expiry</span>
+            <span className={status.awaitingExpiry > 0 ? 'text-yellow-300' : 'text-green-300'}>{status.awaitingExpiry}</span>
+          </div>
+          <div className="flex justify-between text-xs font-bold">
+            <span className="text-white/60">Scan cursor</span>
+            <span className="text-white/80">Token #{status.lastCheckedTokenId.toString()}</span>
+          </div>
+        </>
+      )}
+      <p className="text-xs text-white/60 mt-2 text-center font-bold">Chainlink Automation clears expired tokens on-chain.</p>
     </div>
   );
 };
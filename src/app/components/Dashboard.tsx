@@ -4,11 +4,19 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAccount, useChainId } from 'wagmi';
 import { getContractService, TimeToken } from '../services/contractService';
-import { formatEther } from 'viem';
+import { formatEther, formatUnits } from 'viem';
 import { isSupportedChain, getChainDisplayName } from '../lib/wagmi';
 import NotificationCenter from './NotificationCenter';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { getAlertAgent, AlertNotification } from '../services/alertAgent';
+import DisputeCenter from './DisputeCenter';
+import { FEATURE_FLAGS, USD_PRICING_CONFIG, TOKEN_STATUS_DISPLAY, TokenStatus } from '../shared/constants';
+import { getTokenIndexer, TokenPage } from '../services/tokenIndexer';
+import { getPurchaseLedger, PurchaseRecord } from '../services/purchaseLedger';
+import { getPriceService } from '../services/priceService';
+import { getEarningsLedger, CreatorEarnings } from '../services/earningsLedger';
+import { ParameterValidationService, ValidationResult } from '../services/parameterValidation';
+import { KYCTierPolicy } from '../services/kycTiers';
 
 interface DashboardProps {
   onCreateToken?: () => void;
@@ -28,9 +36,13 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
   const { isConnected, address } = useAccount();
   const chainId = useChainId();
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'created' | 'purchased' | 'earnings' | 'activity'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'created' | 'purchased' | 'earnings' | 'activity' | 'disputes'>('overview');
   const [createdTokens, setCreatedTokens] = useState<TimeToken[]>([]);
   const [purchasedTokens, setPurchasedTokens] = useState<TimeToken[]>([]);
+  const [createdPage, setCreatedPage] = useState(1);
+  const [purchasedPage, setPurchasedPage] = useState(1);
+  const [purchaseRecords, setPurchaseRecords] = useState<PurchaseRecord[]>([]);
+  const [earnings, setEarnings] = useState<CreatorEarnings | null>(null);
   const [stats, setStats] = useState<DashboardStats>({
     totalTokensCreated: 0,
     totalTokensPurchased: 0,
@@ -40,31 +52,30 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
     completedServices: 0
   });
   const [recentActivity, setRecentActivity] = useState<AlertNotification[]>([]);
-  const [avaxPriceUSD, setAvaxPriceUSD] = useState<number>(0);
+  const [nativeUsdPrice, setNativeUsdPrice] = useState<number | null>(null); // null while the feed has no fresh price
   const [selectedToken, setSelectedToken] = useState<TimeToken | null>(null);
   const [showTokenModal, setShowTokenModal] = useState(false);
+  const [editingToken, setEditingToken] = useState<TimeToken | null>(null);
+  const [editForm, setEditForm] = useState({ pricePerHourUSD: '', additionalDays: '0', additionalHours: '0' });
+  const [editValidation, setEditValidation] = useState<ValidationResult | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [editKYCLevel, setEditKYCLevel] = useState<number | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
 
   const contractService = getContractService();
   const alertAgent = getAlertAgent();
+  const tokenIndexer = getTokenIndexer();
+  const purchaseLedger = getPurchaseLedger();
+  const priceService = getPriceService();
+  const earningsLedger = getEarningsLedger();
 
-  // Function to fetch current AVAX price in USD
-  const fetchAvaxPrice = async (): Promise<number> => {
+  // Native currency price from the chain's Chainlink feed; null (shown as unavailable) when PriceService won't vouch for one
+  const fetchNativeUsdPrice = async (): Promise<number | null> => {
     try {
-      console.log('💰 Fetching AVAX price...');
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=avalanche-2&vs_currencies=usd');
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch AVAX price');
-      }
-
-      const data = await response.json();
-      const price = data['avalanche-2']?.usd || 0;
-      console.log('💰 Current AVAX price:', price, 'USD');
-      return price;
+      return (await priceService.getLatestPrice(chainId)).price;
     } catch (error) {
-      console.error('❌ Failed to fetch AVAX price:', error);
-      // Return a fallback price or 0 if API fails
-      return 40; // Fallback price - you can adjust this or use a cached price
+      console.error('❌ Native USD price unavailable:', error);
+      return null;
     }
   };
 
@@ -76,6 +87,14 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
     }
   }, [isConnected, address, chainId]);
 
+  // Tail new events while the dashboard is open
+  useEffect(() => {
+    if (!isConnected || !address || !isSupportedChain(chainId)) return;
+    return tokenIndexer.watch(chainId, () => {
+      applyIndexedData();
+    });
+  }, [isConnected, address, chainId]);
+
   const loadDashboardData = async () => {
     if (!address) return;
 
@@ -83,67 +102,23 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
       setLoading(true);
       console.log('📊 Loading dashboard data for:', address);
 
-      // Fetch AVAX price first
-      const currentAvaxPrice = await fetchAvaxPrice();
-      setAvaxPriceUSD(currentAvaxPrice);
-
-      // Load created tokens
-      const createdTokenIds = await contractService.getCreatorTokens(address);
-      const createdTokensPromises = createdTokenIds.map(id =>
-        contractService.getTimeToken(id.toString())
-      );
-      const createdTokensData = await Promise.all(createdTokensPromises);
-      const validCreatedTokens = createdTokensData.filter((token): token is TimeToken => token !== null);
-
-      // Load purchased tokens
-      const purchasedTokenIds = await contractService.getBuyerTokens(address);
-      const purchasedTokensPromises = purchasedTokenIds.map(id =>
-        contractService.getTimeToken(id.toString())
-      );
-      const purchasedTokensData = await Promise.all(purchasedTokensPromises);
-      // Load purchased tokens with balance information
-      const validPurchasedTokens = await contractService.getBuyerTokensWithBalances(address);
-
-      setCreatedTokens(validCreatedTokens);
-      setPurchasedTokens(validPurchasedTokens);
-
-      // Calculate stats with USD conversion
-      const dashboardStats: DashboardStats = {
-        totalTokensCreated: validCreatedTokens.length,
-        totalTokensPurchased: validPurchasedTokens.length,
-
-        // Convert totalEarnings from AVAX to USD
-        totalEarnings: validCreatedTokens.reduce((total, token) => {
-          const soldHours = Number(token.totalHours) - Number(token.availableHours);
-          const avaxAmount = soldHours * parseFloat(formatEther(token.pricePerHour));
-          const usdAmount = avaxAmount * currentAvaxPrice;
-          return total + usdAmount;
-        }, 0),
-
-        // Convert totalSpent from AVAX to USD
-        totalSpent: validPurchasedTokens.reduce((total, token) => {
-          // Simplified calculation - in production, track actual purchase amounts
-          const avaxAmount = 10 * parseFloat(formatEther(token.pricePerHour)); // Assume average 10 hours purchased
-          const usdAmount = avaxAmount * currentAvaxPrice;
-          return total + usdAmount;
-        }, 0),
-
-        activeTokens: validCreatedTokens.filter(token =>
-          token.isActive && Number(token.availableHours) > 0 && !contractService.isTokenExpired(token.validUntil)
-        ).length,
-        completedServices: validCreatedTokens.reduce((total, token) => {
-          return total + (Number(token.totalHours) - Number(token.availableHours));
-        }, 0)
-      };
-
-      setStats(dashboardStats);
+      // Fetch the native price first
+      const currentNativePrice = await fetchNativeUsdPrice();
+      setNativeUsdPrice(currentNativePrice);
+
+      // Catch the local index up with the chain, then query it
+      await tokenIndexer.sync(chainId);
+      await applyIndexedData();
+
+      // Earnings span every chain the creator has sold on
+      setEarnings(await earningsLedger.getCreatorEarnings(address));
 
       // Load recent activity from notifications
       const notifications = alertAgent.getNotifications().slice(0, 10);
       setRecentActivity(notifications);
 
-      console.log('✅ Dashboard data loaded:', dashboardStats);
-      console.log('💰 AVAX Price used for conversion:', currentAvaxPrice, 'USD');
+      console.log('✅ Dashboard data loaded');
+      console.log('💰 Native price used for conversion:', currentNativePrice ?? 'unavailable', 'USD');
 
     } catch (error) {
       console.error('❌ Failed to load dashboard data:', error);
@@ -152,16 +127,156 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
     }
   };
 
-  const handleDeactivateToken = async (tokenId: string) => {
-    if (!confirm('Are you sure you want to deactivate this token? This action cannot be undone.')) {
+  const applyIndexedData = async () => {
+    if (!address) return;
+
+    const validCreatedTokens = tokenIndexer.getTokens(chainId, { creator: address });
+    const validPurchasedTokens = tokenIndexer.getTokens(chainId, { buyer: address });
+
+    // Spending is valued at each purchase's own block, not today's price
+    const ledger = await purchaseLedger.getBuyerLedger(chainId, address);
+    setPurchaseRecords(ledger);
+
+    // Spent totals are net of dispute refunds and include escrow fees, matching net earnings
+    const spending = await purchaseLedger.getBuyerSpending(chainId, address);
+
+    // Earnings only count realized sales, each valued at the price in effect when it was paid out
+    const sales = await purchaseLedger.getCreatorLedger(chainId, address);
+
+    setCreatedTokens(validCreatedTokens);
+    setPurchasedTokens(validPurchasedTokens);
+
+    // Calculate stats with USD conversion
+    const dashboardStats: DashboardStats = {
+      totalTokensCreated: validCreatedTokens.length,
+      totalTokensPurchased: validPurchasedTokens.length,
+
+      totalEarnings: purchaseLedger.summarize(sales).totalUSD,
+
+      totalSpent: purchaseLedger.summarize(spending).totalUSD,
+
+      activeTokens: validCreatedTokens.filter(token => contractService.getTokenStatus(token) === 'Active').length,
+      completedServices: validCreatedTokens.reduce((total, token) => {
+        return total + (Number(token.totalHours) - Number(token.availableHours));
+      }, 0)
+    };
+
+    setStats(dashboardStats);
+  };
+
+  const handleChangeStatus = async (tokenId: string, status: TokenStatus) => {
+    if (status === 'Retired' && !confirm('Are you sure you want to retire this token? This action cannot be undone.')) {
       return;
     }
 
     try {
-      await contractService.deactivateToken(tokenId);
+      await contractService.setTokenStatus(tokenId, status);
       await loadDashboardData(); // Reload data
     } catch (error) {
-      console.error('❌ Failed to deactivate token:', error);
+      console.error('❌ Failed to change token status:', error);
+    }
+  };
+
+  // Current hourly rate in USD, read from the stored USD price or converted from the native price;
+  // null when a native-priced token has no fresh price to convert at
+  const getTokenPriceUSD = (token: TimeToken): number | null => {
+    if (contractService.isUsdPriced(token)) {
+      return Number(formatUnits(token.usdPricePerHour ?? BigInt(0), USD_PRICING_CONFIG.USD_DECIMALS));
+    }
+    return nativeUsdPrice === null ? null : parseFloat(formatEther(token.pricePerHour)) * nativeUsdPrice;
+  };
+
+  const handleOpenEdit = (token: TimeToken) => {
+    setEditingToken(token);
+    setEditForm({
+      pricePerHourUSD: getTokenPriceUSD(token)?.toFixed(2) ?? '',
+      additionalDays: '0',
+      additionalHours: '0'
+    });
+    setEditValidation(null);
+    setEditError(null);
+
+    // Edits are held to the same KYC tier limits as creation
+    setEditKYCLevel(null);
+    if (address) {
+      KYCTierPolicy.getAccountTier(address, chainId).then(({ level }) => setEditKYCLevel(level));
+    }
+  };
+
+  const handleCloseEdit = () => {
+    if (savingEdit) return;
+    setEditingToken(null);
+  };
+
+  // Validate the token as it will look after the edit, using the same rules as creation
+  const validateEdit = (token: TimeToken): ValidationResult => {
+    const remainingDays = Math.max(0, (Number(token.validUntil) - Date.now() / 1000) / 86400);
+    const additionalDays = parseInt(editForm.additionalDays) || 0;
+    const additionalHours = parseInt(editForm.additionalHours) || 0;
+    const priceKnown = getTokenPriceUSD(token) !== null;
+    const validation = ParameterValidationService.validateTokenCreation({
+      serviceName: token.serviceName,
+      pricePerHour: priceKnown ? parseFloat(editForm.pricePerHourUSD) : undefined,
+      totalHours: Number(token.totalHours) + additionalHours,
+      validityDays: Math.ceil(remainingDays) + additionalDays
+    }, editKYCLevel !== null ? { kycLevel: editKYCLevel } : undefined);
+
+    // Without a USD price the price can't be edited, so only the days and hours are checked
+    if (!priceKnown) {
+      validation.missingParams = validation.missingParams.filter(param => param !== 'pricePerHour');
+      validation.errors = validation.errors.filter(error => error !== 'Price per hour is required');
+      validation.isValid = validation.errors.length === 0 && validation.missingParams.length === 0;
+    }
+
+    if (additionalDays < 0 || additionalHours < 0) {
+      validation.errors.push('Days and hours can only be added');
+      validation.isValid = false;
+    }
+    return validation;
+  };
+
+  const handleSaveEdit = async () => {
+    // Saving waits for the tier so its limits are never skipped
+    if (!editingToken || editKYCLevel === null) return;
+
+    const validation = validateEdit(editingToken);
+    setEditValidation(validation);
+    if (!validation.isValid) return;
+
+    const newPrice = parseFloat(editForm.pricePerHourUSD);
+    const additionalDays = parseInt(editForm.additionalDays) || 0;
+    const additionalHours = parseInt(editForm.additionalHours) || 0;
+    const currentPrice = getTokenPriceUSD(editingToken);
+    const priceChanged = currentPrice !== null && Math.abs(newPrice - currentPrice) >= 0.01;
+
+    if (!priceChanged && additionalDays === 0 && additionalHours === 0) {
+      setEditError('Nothing to update');
+      return;
+    }
+
+    try {
+      setSavingEdit(true);
+      setEditError(null);
+
+      // Each change is its own transaction
+      if (priceChanged) {
+        await contractService.repriceToken(editingToken, newPrice);
+      }
+      if (additionalDays > 0) {
+        await contractService.extendTokenValidity(editingToken, additionalDays);
+      }
+      if (additionalHours > 0) {
+        await contractService.topUpTokenHours(editingToken, additionalHours);
+      }
+
+      setEditingToken(null);
+      await loadDashboardData();
+    } catch (error) {
+      console.error('❌ Failed to update token:', error);
+      setEditError(error instanceof Error ? error.message : 'Failed to update token');
+      await loadDashboardData();
+    } finally {
+      setSavingEdit(false);
     }
   };
 
@@ -179,11 +294,12 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
     return parseFloat(formatEther(priceWei)).toFixed(2);
   };
 
-  // New function to format price in USD
-  const formatPriceUSD = (priceWei: bigint) => {
-    const avaxAmount = parseFloat(formatEther(priceWei));
-    const usdAmount = avaxAmount * avaxPriceUSD;
-    return usdAmount.toFixed(2);
+  // ERC-20 totals keyed by symbol, e.g. "12.50 USDC"
+  const formatAssetTotals = (amounts: Record<string, bigint>, assetChainId: number) => {
+    return Object.entries(amounts).map(([symbol, amount]) => {
+      const asset = priceService.getPaymentAssets(assetChainId).find(candidate => candidate.symbol === symbol);
+      return `${parseFloat(formatUnits(amount, asset?.decimals ?? 18)).toFixed(2)} ${symbol}`;
+    });
   };
 
   const formatValidUntil = (timestamp: bigint) => {
@@ -196,10 +312,42 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
   };
 
   const getTokenStatus = (token: TimeToken) => {
-    if (!token.isActive) return { status: 'Deactivated', color: 'text-gray-400 bg-gray-500/20' };
-    if (isExpired(token.validUntil)) return { status: 'Expired', color: 'text-red-400 bg-red-500/20' };
-    if (Number(token.availableHours) === 0) return { status: 'Sold Out', color: 'text-yellow-400 bg-yellow-500/20' };
-    return { status: 'Active', color: 'text-green-400 bg-green-500/20' };
+    const { label, color } = TOKEN_STATUS_DISPLAY[contractService.getTokenStatus(token)];
+    return { status: label, color };
+  };
+
+  const handleExportPurchases = () => {
+    const csv = purchaseLedger.toCSV(purchaseRecords);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `time-token-purchases-${chainId}-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderPagination = (tokenPage: TokenPage, onPageChange: (page: number) => void) => {
+    if (tokenPage.totalPages <= 1) return null;
+
+    return (
+      <div className="flex justify-center items-center gap-4">
+        <button
+          onClick={() => onPageChange(tokenPage.page - 1)}
+          disabled={tokenPage.page <= 1}
+          className="bg-white/20 hover:bg-white/30 disabled:opacity-40 text-white px-4 py-2 rounded-xl font-medium transition-all"
+        >
+          ← Previous
+        </button>
+        <span className="text-white/80">Page {tokenPage.page} of {tokenPage.totalPages}</span>
+        <button
+          onClick={() => onPageChange(tokenPage.page + 1)}
+          disabled={tokenPage.page >= tokenPage.totalPages}
+          className="bg-white/20 hover:bg-white/30 disabled:opacity-40 text-white px-4 py-2 rounded-xl font-medium transition-all"
+        >
+          Next →
+        </button>
+      </div>
+    );
   };
 
   const formatActivityTime = (timestamp: number) => {
@@ -214,12 +362,23 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
     return new Date(timestamp).toLocaleDateString();
   };
 
+  const createdTokenPage = address ? tokenIndexer.queryTokens(chainId, { creator: address, page: createdPage }) : null;
+  const purchasedTokenPage = address ? tokenIndexer.queryTokens(chainId, { buyer: address, page: purchasedPage }) : null;
+  const purchaseSummaries = purchaseLedger.summarizeByToken(purchaseRecords);
+  const purchasedTokenItems = (purchasedTokenPage?.items ?? []).map(token => {
+    const summary = purchaseSummaries.get(token.tokenId);
+    return { ...token, purchaseTimestamp: summary ? summary.lastPurchasedAt * 1000 : undefined };
+  });
+
   const tabs = [
     { id: 'overview', label: '📊 Overview', icon: '📊' },
     { id: 'created', label: '🎨 Created Tokens', icon: '🎨' },
     { id: 'purchased', label: '🛒 Purchased', icon: '🛒' },
     { id: 'earnings', label: '💰 Earnings', icon: '💰' },
-    { id: 'activity', label: '📈 Activity', icon: '📈' }
+    { id: 'activity', label: '📈 Activity', icon: '📈' },
+    ...(FEATURE_FLAGS.ESCROW_ENABLED && FEATURE_FLAGS.DISPUTE_RESOLUTION_ENABLED
+      ? [{ id: 'disputes', label: '⚖️ Disputes', icon: '⚖️' }]
+      : [])
   ];
 
   if (loading) {
@@ -274,11 +433,9 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
             <p className="text-white/80 text-xl">
               Manage your time tokens and track your earnings
             </p>
-            {avaxPriceUSD > 0 && (
-              <p className="text-white/60 text-sm mt-1">
-                💰 AVAX Price: ${avaxPriceUSD.toFixed(2)} USD
-              </p>
-            )}
+            <p className="text-white/60 text-sm mt-1">
+              💰 {priceService.getCurrentCurrencyInfo(chainId).symbol} Price: {nativeUsdPrice !== null ? `$${nativeUsdPrice.toFixed(2)} USD` : 'USD unavailable'}
+            </p>
           </div>
           <div className="flex items-center gap-4">
             <NotificationCenter />
@@ -437,7 +594,7 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                 </div>
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {createdTokens.map((token, index) => {
+                  {createdTokenPage?.items.map((token, index) => {
                     const status = getTokenStatus(token);
                     const soldHours = Number(token.totalHours) - Number(token.availableHours);
                     const completionRate = (soldHours / Number(token.totalHours)) * 100;
@@ -492,13 +649,48 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                           </div>
                         </div>
 
-                        <div className="flex gap-2">
-                          {token.isActive && !isExpired(token.validUntil) && (
+                        {token.status !== 'Retired' && (
+                          <div className="flex gap-2 mb-2">
+                            {(token.status === 'Draft' || (token.status === 'Paused' && !isExpired(token.validUntil))) && (
+                              <button
+                                onClick={() => handleChangeStatus(token.tokenId, 'Active')}
+                                className="flex-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 py-2 px-4 rounded-xl text-sm font-medium transition-all"
+                              >
+                                {token.status === 'Draft' ? 'Publish' : 'Resume'}
+                              </button>
+                            )}
+                            {status.status === 'Active' && (
+                              <button
+                                onClick={() => handleChangeStatus(token.tokenId, 'Paused')}
+                                className="flex-1 bg-orange-500/20 hover:bg-orange-500/30 text-orange-300 py-2 px-4 rounded-xl text-sm font-medium transition-all"
+                              >
+                                Pause
+                              </button>
+                            )}
+                            {(token.status === 'Active' || token.status === 'Paused') && soldHours === 0 && (
+                              <button
+                                onClick={() => handleChangeStatus(token.tokenId, 'Draft')}
+                                className="flex-1 bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 py-2 px-4 rounded-xl text-sm font-medium transition-all"
+                              >
+                                Unlist
+                              </button>
+                            )}
                             <button
-                              onClick={() => handleDeactivateToken(token.tokenId)}
+                              onClick={() => handleChangeStatus(token.tokenId, 'Retired')}
                               className="flex-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 py-2 px-4 rounded-xl text-sm font-medium transition-all"
                             >
-                              Deactivate
+                              Retire
+                            </button>
+                          </div>
+                        )}
+
+                        <div className="flex gap-2">
+                          {token.status !== 'Retired' && (
+                            <button
+                              onClick={() => handleOpenEdit(token)}
+                              className="flex-1 bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 py-2 px-4 rounded-xl text-sm font-medium transition-all"
+                            >
+                              Edit
                             </button>
                           )}
                           <button 
@@ -519,6 +711,8 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                   })}
                 </div>
               )}
+
+              {createdTokenPage && renderPagination(createdTokenPage, setCreatedPage)}
             </div>
           )}
 
@@ -545,7 +739,7 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                 </div>
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {purchasedTokens.map((token, index) => (
+                  {purchasedTokenItems.map((token, index) => (
                     <motion.div
                       key={token.tokenId}
                       initial={{ opacity: 0, y: 20 }}
@@ -587,6 +781,18 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                             {token.purchaseTimestamp ? new Date(token.purchaseTimestamp).toLocaleDateString() : 'N/A'}
                           </div>
                         </div>
+                        <div className="col-span-2">
+                          <div className="text-white/60 text-xs">Total Paid</div>
+                          <div className="text-white font-bold">
+                            {[
+                              `${formatPrice(purchaseSummaries.get(token.tokenId)?.totalWei ?? BigInt(0))} ${priceService.getCurrentCurrencyInfo(chainId).symbol}`,
+                              ...formatAssetTotals(purchaseSummaries.get(token.tokenId)?.assetTotals ?? {}, chainId)
+                            ].join(' + ')}
+                            {purchaseSummaries.get(token.tokenId) && (
+                              <span className="text-white/60 font-normal"> · ${purchaseSummaries.get(token.tokenId)!.totalUSD.toFixed(2)} at purchase</span>
+                            )}
+                          </div>
+                        </div>
                       </div>
 
                       <button 
@@ -599,6 +805,47 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                   ))}
                 </div>
               )}
+
+              {purchasedTokenPage && renderPagination(purchasedTokenPage, setPurchasedPage)}
+
+              {/* Purchase History */}
+              {purchaseRecords.length > 0 && (
+                <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 border border-white/20">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-white">🧾 Purchase History</h3>
+                    <button
+                      onClick={handleExportPurchases}
+                      className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                    >
+                      📥 Export CSV
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-white/60 text-left">
+                          <th className="py-2 pr-4">Date</th>
+                          <th className="py-2 pr-4">Service</th>
+                          <th className="py-2 pr-4">Hours</th>
+                          <th className="py-2 pr-4">Paid</th>
+                          <th className="py-2">USD at Purchase</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {purchaseRecords.map(record => (
+                          <tr key={record.id} className="border-t border-white/10 text-white">
+                            <td className="py-2 pr-4">{new Date(record.blockTimestamp * 1000).toLocaleDateString()}</td>
+                            <td className="py-2 pr-4">{record.serviceName}</td>
+                            <td className="py-2 pr-4">{record.hoursAmount.toString()}h</td>
+                            <td className="py-2 pr-4">{parseFloat(purchaseLedger.formatAmount(record)).toFixed(2)} {record.paymentSymbol}</td>
+                            <td className="py-2">{record.usdValue === null ? 'Unavailable' : `$${record.usdValue.toFixed(2)}`}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -628,6 +875,104 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                 </div>
               </div>
 
+              {earnings && earnings.sales.length > 0 && (
+                <>
+                  {/* Realized revenue per chain, against the value of the same coins today */}
+                  <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-8 border border-white/20">
+                    <div className="flex justify-between items-center mb-6">
+                      <h3 className="text-2xl font-bold text-white">⛓️ Revenue by Chain</h3>
+                      <span className="text-white/70 text-sm">
+                        ${earnings.totalUSD.toFixed(2)} realized across all chains
+                      </span>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-white/60 text-left">
+                            <th className="py-2 pr-4">Chain</th>
+                            <th className="py-2 pr-4">Sales</th>
+                            <th className="py-2 pr-4">Received</th>
+                            <th className="py-2 pr-4">Realized (USD)</th>
+                            <th className="py-2 pr-4">Avg Cost Basis</th>
+                            <th className="py-2">Value Today</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {earnings.byChain.map(chain => (
+                            <tr key={chain.key} className="border-t border-white/10 text-white">
+                              <td className="py-2 pr-4">{chain.label}</td>
+                              <td className="py-2 pr-4">{chain.saleCount}</td>
+                              <td className="py-2 pr-4">
+                                {[
+                                  `${formatPrice(chain.nativeAmounts[chain.chainId] ?? BigInt(0))} ${chain.currencySymbol}`,
+                                  ...formatAssetTotals(chain.assetAmounts, chain.chainId)
+                                ].join(' + ')}
+                              </td>
+                              <td className="py-2 pr-4">${chain.usdValue.toFixed(2)}</td>
+                              <td className="py-2 pr-4">
+                                {chain.averageCostBasis === null ? '—' : `$${chain.averageCostBasis.toFixed(2)} / ${chain.currencySymbol}`}
+                              </td>
+                              <td className="py-2">
+                                {chain.currentValue === null ? '—' : (
+                                  <span className={chain.currentValue >= chain.usdValue ? 'text-green-400' : 'text-red-400'}>
+                                    ${chain.currentValue.toFixed(2)}
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    {(earnings.unpricedCount > 0 || earnings.failedChains.length > 0) && (
+                      <p className="text-yellow-300 text-xs mt-4">
+                        {earnings.unpricedCount > 0 && `⚠️ ${earnings.unpricedCount} sale(s) have no historical price and are excluded from USD totals. `}
+                        {earnings.failedChains.length > 0 && `⚠️ Could not load ${earnings.failedChains.map(getChainDisplayName).join(', ')}.`}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-8 border border-white/20">
+                      <h3 className="text-2xl font-bold text-white mb-6">📅 Revenue by Month</h3>
+                      <div className="space-y-3">
+                        {earnings.byMonth.map(month => (
+                          <div key={month.key} className="flex justify-between items-center p-4 bg-white/5 rounded-2xl border border-white/10">
+                            <div>
+                              <div className="text-white font-semibold">{month.label}</div>
+                              <div className="text-white/60 text-xs">{month.saleCount} sales · {month.hoursSold.toString()}h</div>
+                            </div>
+                            <div className="text-green-400 font-bold">${month.usdValue.toFixed(2)}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-8 border border-white/20">
+                      <h3 className="text-2xl font-bold text-white mb-6">🎫 Revenue by Token</h3>
+                      <div className="space-y-3">
+                        {earnings.byToken.map(token => (
+                          <div key={token.key} className="flex justify-between items-center p-4 bg-white/5 rounded-2xl border border-white/10">
+                            <div>
+                              <div className="text-white font-semibold">{token.label}</div>
+                              <div className="text-white/60 text-xs">
+                                {[
+                                  ...Object.entries(token.nativeAmounts).map(([tokenChainId, amount]) =>
+                                    `${formatPrice(amount)} ${priceService.getCurrentCurrencyInfo(Number(tokenChainId)).symbol} on ${getChainDisplayName(Number(tokenChainId))}`
+                                  ),
+                                  ...formatAssetTotals(token.assetAmounts, Number(token.key.split(':')[0]))
+                                ].join(', ')}
+                              </div>
+                            </div>
+                            <div className="text-green-400 font-bold">${token.usdValue.toFixed(2)}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </>
+              )}
+
               <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-8 border border-white/20">
                 <h3 className="text-2xl font-bold text-white mb-6">💡 Earnings Optimization</h3>
                 <div className="space-y-4">
@@ -714,6 +1059,10 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
               )}
             </div>
           )}
+
+          {activeTab === 'disputes' && address && (
+            <DisputeCenter address={address} />
+          )}
         </motion.div>
       </div>
 
@@ -760,15 +1109,8 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
                   </div>
                   <div className="flex justify-between">
                     <span className="text-white/60">Token Status:</span>
-                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      !selectedToken.isActive ? 'text-gray-400 bg-gray-500/20' :
-                      isExpired(selectedToken.validUntil) ? 'text-red-400 bg-red-500/20' :
-                      Number(selectedToken.availableHours) === 0 ? 'text-yellow-400 bg-yellow-500/20' :
-                      'text-green-400 bg-green-500/20'
-                    }`}>
-                      {!selectedToken.isActive ? 'Deactivated' :
-                       isExpired(selectedToken.validUntil) ? 'Expired' :
-                       Number(selectedToken.availableHours) === 0 ? 'Sold Out' : 'Active'}
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${getTokenStatus(selectedToken).color}`}>
+                      {getTokenStatus(selectedToken).status}
                     </span>
                   </div>
                 </div>
@@ -951,6 +1293,116 @@ export default function Dashboard({ onCreateToken, onViewMarketplace }: Dashboar
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Edit Token Modal */}
+      <AnimatePresence>
+        {editingToken && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+            onClick={handleCloseEdit}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-gradient-to-br from-purple-500/20 to-blue-600/20 backdrop-blur-lg rounded-3xl p-8 border border-white/20 max-w-lg w-full"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-start mb-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-white mb-2">✏️ Edit {editingToken.serviceName}</h2>
+                  <p className="text-white/60">
+                    {editingToken.availableHours.toString()}/{editingToken.totalHours.toString()}h available · valid until {formatValidUntil(editingToken.validUntil)}
+                  </p>
+                </div>
+                <button
+                  onClick={handleCloseEdit}
+                  className="text-white/60 hover:text-white text-2xl"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="space-y-4 mb-6">
+                <div>
+                  <label className="block text-white/80 text-sm mb-1">Price per Hour (USD)</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={editForm.pricePerHourUSD}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, pricePerHourUSD: e.target.value }))}
+                    disabled={getTokenPriceUSD(editingToken) === null}
+                    placeholder={getTokenPriceUSD(editingToken) === null ? 'USD unavailable' : undefined}
+                    className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-white/40 disabled:opacity-50"
+                  />
+                  {getTokenPriceUSD(editingToken) === null ? (
+                    <p className="text-yellow-300 text-xs mt-1">USD unavailable: the price feed has no fresh price, so the price can&apos;t be changed right now</p>
+                  ) : !contractService.isUsdPriced(editingToken) && (
+                    <p className="text-white/50 text-xs mt-1">Converted to the native currency at today&apos;s rate</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-white/80 text-sm mb-1">Extend Validity (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editForm.additionalDays}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, additionalDays: e.target.value }))}
+                    className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-white/40"
+                  />
+                </div>
+                <div>
+                  <label className="block text-white/80 text-sm mb-1">Add Hours</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editForm.additionalHours}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, additionalHours: e.target.value }))}
+                    className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-white/40"
+                  />
+                </div>
+              </div>
+
+              {editValidation && editValidation.errors.length > 0 && (
+                <div className="bg-red-500/20 border border-red-500/50 text-red-100 p-3 rounded-xl mb-4 text-sm space-y-1">
+                  {editValidation.errors.map(message => <div key={message}>❌ {message}</div>)}
+                </div>
+              )}
+              {editValidation && editValidation.warnings.length > 0 && (
+                <div className="bg-yellow-500/20 border border-yellow-500/50 text-yellow-100 p-3 rounded-xl mb-4 text-sm space-y-1">
+                  {editValidation.warnings.map(message => <div key={message}>⚠️ {message}</div>)}
+                </div>
+              )}
+              {editError && (
+                <div className="bg-red-500/20 border border-red-500/50 text-red-100 p-3 rounded-xl mb-4 text-sm">
+                  ❌ {editError}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={handleCloseEdit}
+                  disabled={savingEdit}
+                  className="flex-1 bg-white/20 hover:bg-white/30 disabled:opacity-50 text-white py-3 px-4 rounded-xl font-medium transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={savingEdit || editKYCLevel === null}
+                  className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:opacity-50 text-white py-3 px-4 rounded-xl font-medium transition-all"
+                >
+                  {savingEdit ? 'Saving...' : editKYCLevel === null ? 'Checking KYC tier...' : 'Save Changes'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
\ No newline at end of file
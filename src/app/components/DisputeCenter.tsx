@@ -0,0 +1,400 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { formatUnits, parseUnits } from 'viem';
+import { getContractService, EscrowRecord, DisputeRecord } from '../services/contractService';
+import { getPriceService } from '../services/priceService';
+import { getTokenMetadataService } from '../services/tokenMetadata';
+
+interface DisputeCenterProps {
+  address: string;
+}
+
+export default function DisputeCenter({ address }: DisputeCenterProps) {
+  const [loading, setLoading] = useState(true);
+  const [buyerEscrows, setBuyerEscrows] = useState<EscrowRecord[]>([]);
+  const [creatorEscrows, setCreatorEscrows] = useState<EscrowRecord[]>([]);
+  const [disputes, setDisputes] = useState<DisputeRecord[]>([]);
+  const [isArbiter, setIsArbiter] = useState(false);
+  const [evidenceInputs, setEvidenceInputs] = useState<Record<string, string>>({});
+  const [buyerShareInputs, setBuyerShareInputs] = useState<Record<string, string>>({});
+  const [arbiterLookupId, setArbiterLookupId] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const contractService = getContractService();
+  const priceService = getPriceService();
+  const metadataService = getTokenMetadataService();
+
+  useEffect(() => {
+    loadDisputeData();
+  }, [address]);
+
+  const loadDisputeData = async () => {
+    try {
+      setLoading(true);
+      console.log('⚖️ Loading disputes for:', address);
+
+      const [asBuyer, asCreator, buyerDisputes, creatorDisputes, arbiter] = await Promise.all([
+        contractService.getBuyerEscrows(address),
+        contractService.getCreatorEscrows(address),
+        contractService.getBuyerDisputes(address),
+        contractService.getCreatorDisputes(address),
+        contractService.isArbiter(address)
+      ]);
+
+      setBuyerEscrows(asBuyer);
+      setCreatorEscrows(asCreator);
+      setDisputes(
+        [...buyerDisputes, ...creatorDisputes].sort((a, b) => Number(b.openedAt - a.openedAt))
+      );
+      setIsArbiter(arbiter);
+
+    } catch (error) {
+      console.error('❌ Failed to load disputes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a contract action, surface its error inline and refresh afterwards
+  const runAction = async (actionKey: string, action: () => Promise<unknown>) => {
+    try {
+      setPendingAction(actionKey);
+      setError(null);
+      await action();
+      await loadDisputeData();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Transaction failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleArbiterLookup = async () => {
+    if (!arbiterLookupId) return;
+    const dispute = await contractService.getDispute(arbiterLookupId);
+    if (!dispute) {
+      setError(`Dispute #${arbiterLookupId} not found`);
+      return;
+    }
+    setError(null);
+    setDisputes(prev => [dispute, ...prev.filter(d => d.disputeId !== dispute.disputeId)]);
+  };
+
+  const handleResolve = async (dispute: DisputeRecord) => {
+    let buyerAmount: bigint;
+    try {
+      buyerAmount = parseUnits(buyerShareInputs[dispute.disputeId] || '0', getAssetDecimals(dispute.paymentAsset));
+    } catch {
+      setError('Enter the buyer refund as a decimal amount');
+      return;
+    }
+    const escrow = await contractService.getEscrow(dispute.escrowId);
+    if (escrow && buyerAmount > escrow.amount) {
+      setError(`Refund cannot exceed the escrowed ${formatAmount(escrow.amount, escrow.paymentAsset)}`);
+      return;
+    }
+    runAction(`resolve-${dispute.disputeId}`, () =>
+      contractService.resolveDispute(dispute.disputeId, buyerAmount)
+    );
+  };
+
+  const getAssetDecimals = (paymentAsset: string): number => {
+    if (priceService.isNativeAsset(paymentAsset)) return 18;
+    return priceService.getPaymentAsset(paymentAsset)?.decimals ?? 18;
+  };
+
+  // Escrowed amounts are in the escrow's payment asset, not always the native currency
+  const formatAmount = (amount: bigint, paymentAsset: string): string => {
+    return `${formatUnits(amount, getAssetDecimals(paymentAsset))} ${priceService.getAssetSymbol(paymentAsset)}`;
+  };
+
+  const formatTimestamp = (timestamp: bigint): string => {
+    return new Date(Number(timestamp) * 1000).toLocaleDateString();
+  };
+
+  const shortAddress = (value: string): string => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+  // Evidence URIs come from the chain; anything not ipfs://, ar:// or https:// is shown as text, never linked
+  const renderEvidenceLink = (uri: string, label: string) => {
+    const url = metadataService.getSafeLinkUrl(uri);
+    if (!url) {
+      return <span className="text-white/60 truncate" title={uri}>📎 {label}: {uri}</span>;
+    }
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 truncate">
+        📎 {label}
+      </a>
+    );
+  };
+
+  const getDisputeBadge = (dispute: DisputeRecord) => {
+    switch (dispute.status) {
+      case 'open':
+        return { label: 'Under Review', color: 'text-yellow-400 bg-yellow-500/20' };
+      case 'resolved':
+        return { label: 'Resolved', color: 'text-green-400 bg-green-500/20' };
+      case 'expired':
+        return dispute.settled
+          ? { label: 'Refunded', color: 'text-blue-400 bg-blue-500/20' }
+          : { label: 'Deadline Passed', color: 'text-red-400 bg-red-500/20' };
+    }
+  };
+
+  const heldBuyerEscrows = buyerEscrows.filter(escrow => escrow.status === 'held');
+  const heldCreatorEscrows = creatorEscrows.filter(escrow => escrow.status === 'held');
+  const isBusy = (key: string) => pendingAction === key;
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+        <p className="text-white/70">Loading escrows and disputes...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-white">⚖️ Escrow & Disputes</h2>
+        {isArbiter && (
+          <div className="px-3 py-1 rounded-full text-xs font-medium text-purple-300 bg-purple-500/20">
+            ARBITER
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-4 text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Buyer side: payments still held in escrow */}
+      <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 border border-white/20">
+        <h3 className="text-xl font-bold text-white mb-4">🔒 Payments You Are Holding</h3>
+        {heldBuyerEscrows.length === 0 ? (
+          <p className="text-white/60 text-sm">No escrowed purchases awaiting confirmation</p>
+        ) : (
+          <div className="space-y-4">
+            {heldBuyerEscrows.map(escrow => {
+              const canDispute = !contractService.isTokenExpired(escrow.releaseAfter);
+              return (
+                <div key={escrow.escrowId} className="bg-white/5 rounded-2xl p-4 space-y-3">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <div className="text-white font-medium">Escrow #{escrow.escrowId} · Token #{escrow.tokenId}</div>
+                      <div className="text-white/60 text-xs">
+                        {escrow.hoursAmount.toString()}h from {shortAddress(escrow.creator)} · hours and payment auto-release {formatTimestamp(escrow.releaseAfter)}
+                      </div>
+                    </div>
+                    <div className="text-white font-bold">{formatAmount(escrow.amount, escrow.paymentAsset)}</div>
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-3">
+                    <button
+                      onClick={() => runAction(`release-${escrow.escrowId}`, () => contractService.releaseEscrow(escrow.escrowId))}
+                      disabled={pendingAction !== null}
+                      className="bg-green-500/80 hover:bg-green-500 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                    >
+                      {isBusy(`release-${escrow.escrowId}`) ? 'Releasing...' : '✅ Release Payment'}
+                    </button>
+                    {canDispute && (
+                      <>
+                        <input
+                          type="text"
+                          value={evidenceInputs[escrow.escrowId] || ''}
+                          onChange={(e) => setEvidenceInputs(prev => ({ ...prev, [escrow.escrowId]: e.target.value }))}
+                          placeholder="Evidence link (ipfs://, ar:// or https://)"
+                          className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-white/40"
+                        />
+                        <button
+                          onClick={() => runAction(`dispute-${escrow.escrowId}`, () =>
+                            contractService.openDispute(escrow.escrowId, evidenceInputs[escrow.escrowId] || '')
+                          )}
+                          disabled={pendingAction !== null}
+                          className="bg-red-500/80 hover:bg-red-500 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                        >
+                          {isBusy(`dispute-${escrow.escrowId}`) ? 'Opening...' : '⚖️ Open Dispute'}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Creator side: payments waiting on buyers */}
+      <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 border border-white/20">
+        <h3 className="text-xl font-bold text-white mb-4">⏳ Payments Awaiting Release</h3>
+        {heldCreatorEscrows.length === 0 ? (
+          <p className="text-white/60 text-sm">No buyer payments held in escrow</p>
+        ) : (
+          <div className="space-y-4">
+            {heldCreatorEscrows.map(escrow => (
+              <div key={escrow.escrowId} className="bg-white/5 rounded-2xl p-4 flex justify-between items-center">
+                <div>
+                  <div className="text-white font-medium">Escrow #{escrow.escrowId} · Token #{escrow.tokenId}</div>
+                  <div className="text-white/60 text-xs">
+                    {escrow.hoursAmount.toString()}h for {shortAddress(escrow.buyer)} · claimable {formatTimestamp(escrow.releaseAfter)}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {/* Marking completion starts the buyer's dispute window, then the escrow becomes claimable */}
+                  {contractService.canMarkEscrowCompleted(escrow) && (
+                    <button
+                      onClick={() => runAction(`complete-${escrow.escrowId}`, () =>
+                        contractService.markServiceCompleted(escrow.tokenId, escrow.buyer, Number(escrow.hoursAmount))
+                      )}
+                      disabled={pendingAction !== null}
+                      className="bg-green-500/80 hover:bg-green-500 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                    >
+                      {isBusy(`complete-${escrow.escrowId}`) ? 'Marking...' : '✅ Mark Completed'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => runAction(`claim-${escrow.escrowId}`, () => contractService.claimAfterTimeout(escrow.escrowId))}
+                    disabled={pendingAction !== null || !contractService.canClaimEscrow(escrow)}
+                    className="bg-white/20 hover:bg-white/30 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                  >
+                    {isBusy(`claim-${escrow.escrowId}`) ? 'Claiming...' : `💰 Claim ${formatAmount(escrow.amount, escrow.paymentAsset)}`}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Disputes */}
+      <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 border border-white/20">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-4">
+          <h3 className="text-xl font-bold text-white">📂 Disputes</h3>
+          {isArbiter && (
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="1"
+                value={arbiterLookupId}
+                onChange={(e) => setArbiterLookupId(e.target.value)}
+                placeholder="Dispute ID"
+                className="w-32 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-white/40"
+              />
+              <button
+                onClick={handleArbiterLookup}
+                className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+              >
+                🔍 Review
+              </button>
+            </div>
+          )}
+        </div>
+
+        {disputes.length === 0 ? (
+          <p className="text-white/60 text-sm">No disputes on record</p>
+        ) : (
+          <div className="space-y-4">
+            {disputes.map((dispute, index) => {
+              const badge = getDisputeBadge(dispute);
+              const isBuyer = dispute.buyer.toLowerCase() === address.toLowerCase();
+              const isCreator = dispute.creator.toLowerCase() === address.toLowerCase();
+              return (
+                <motion.div
+                  key={dispute.disputeId}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="bg-white/5 rounded-2xl p-4 space-y-3"
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <div className="text-white font-medium">
+                        Dispute #{dispute.disputeId} · Escrow #{dispute.escrowId}
+                      </div>
+                      <div className="text-white/60 text-xs">
+                        Buyer {shortAddress(dispute.buyer)} vs creator {shortAddress(dispute.creator)} · ruling due {formatTimestamp(dispute.deadline)}
+                      </div>
+                    </div>
+                    <div className={`px-3 py-1 rounded-full text-xs font-medium ${badge.color}`}>
+                      {badge.label}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                    {renderEvidenceLink(dispute.evidenceURI, 'Buyer evidence')}
+                    {dispute.responseURI ? (
+                      renderEvidenceLink(dispute.responseURI, 'Creator response')
+                    ) : (
+                      <span className="text-white/40">No creator response yet</span>
+                    )}
+                  </div>
+
+                  {dispute.status === 'resolved' && (
+                    <div className="text-white/70 text-sm">
+                      Buyer refunded {formatAmount(dispute.buyerAmount, dispute.paymentAsset)} · creator paid {formatAmount(dispute.creatorAmount, dispute.paymentAsset)}
+                    </div>
+                  )}
+
+                  {dispute.status === 'open' && isCreator && !dispute.responseURI && (
+                    <div className="flex flex-col md:flex-row gap-3">
+                      <input
+                        type="text"
+                        value={evidenceInputs[`response-${dispute.disputeId}`] || ''}
+                        onChange={(e) => setEvidenceInputs(prev => ({ ...prev, [`response-${dispute.disputeId}`]: e.target.value }))}
+                        placeholder="Your evidence link"
+                        className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-white/40"
+                      />
+                      <button
+                        onClick={() => runAction(`respond-${dispute.disputeId}`, () =>
+                          contractService.respondToDispute(dispute.disputeId, evidenceInputs[`response-${dispute.disputeId}`] || '')
+                        )}
+                        disabled={pendingAction !== null}
+                        className="bg-white/20 hover:bg-white/30 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                      >
+                        {isBusy(`respond-${dispute.disputeId}`) ? 'Submitting...' : '📎 Respond'}
+                      </button>
+                    </div>
+                  )}
+
+                  {dispute.status === 'open' && isArbiter && (
+                    <div className="flex flex-col md:flex-row gap-3">
+                      <input
+                        type="text"
+                        value={buyerShareInputs[dispute.disputeId] || ''}
+                        onChange={(e) => setBuyerShareInputs(prev => ({ ...prev, [dispute.disputeId]: e.target.value }))}
+                        placeholder="Refund to buyer (rest goes to creator)"
+                        className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-white/40"
+                      />
+                      <button
+                        onClick={() => handleResolve(dispute)}
+                        disabled={pendingAction !== null}
+                        className="bg-purple-500/80 hover:bg-purple-500 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                      >
+                        {isBusy(`resolve-${dispute.disputeId}`) ? 'Resolving...' : '⚖️ Resolve'}
+                      </button>
+                    </div>
+                  )}
+
+                  {dispute.status === 'expired' && !dispute.settled && (isBuyer || isCreator) && (
+                    <button
+                      onClick={() => runAction(`settle-${dispute.disputeId}`, () => contractService.settleExpiredDispute(dispute.disputeId))}
+                      disabled={pendingAction !== null}
+                      className="bg-blue-500/80 hover:bg-blue-500 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                    >
+                      {isBusy(`settle-${dispute.disputeId}`) ? 'Settling...' : '↩️ Refund Buyer'}
+                    </button>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
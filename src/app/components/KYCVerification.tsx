@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { useAccount } from 'wagmi';
+import { useAccount, useChainId } from 'wagmi';
 import { getUnifiedKYCAgent, KYCResult, KYCStatus } from '../services/unifiedKycAgent';
+import { getChainDisplayName } from '../lib/wagmi';
 
 interface KYCVerificationProps {
   onVerificationComplete?: (result: KYCResult) => void;
@@ -12,6 +13,7 @@ interface KYCVerificationProps {
 
 export default function KYCVerification({ onVerificationComplete, onStatusUpdate }: KYCVerificationProps) {
   const { address, isConnected } = useAccount();
+  const chainId = useChainId();
   const [loading, setLoading] = useState(false);
   const [kycStatus, setKycStatus] = useState<KYCStatus | null>(null);
   const [verificationResult, setVerificationResult] = useState<KYCResult | null>(null);
@@ -32,7 +34,7 @@ export default function KYCVerification({ onVerificationComplete, onStatusUpdate
       setLoading(true);
       setError(null);
       
-      const status = await kycAgent.checkKYCStatus(address);
+      const status = await kycAgent.checkKYCStatus(address, chainId);
       setKycStatus(status);
       
       if (onStatusUpdate) {
@@ -52,7 +54,7 @@ export default function KYCVerification({ onVerificationComplete, onStatusUpdate
       setLoading(true);
       setError(null);
       
-      const result = await kycAgent.verifyKYC(address);
+      const result = await kycAgent.verifyKYC(address, chainId);
       setVerificationResult(result);
       
       if (result.success) {
@@ -113,6 +115,9 @@ export default function KYCVerification({ onVerificationComplete, onStatusUpdate
             <div className="text-green-700">
               <p>✅ KYC Verified</p>
               <p className="text-sm">Level: {kycStatus.kycLevel}</p>
+              {kycStatus.chainId && (
+                <p className="text-sm">Pass issued on {getChainDisplayName(kycStatus.chainId)}</p>
+              )}
             </div>
           ) : (
             <div className="text-yellow-700">
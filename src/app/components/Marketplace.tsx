@@ -3,51 +3,109 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAccount, useChainId } from 'wagmi';
-import { getContractService, TimeToken } from '../services/contractService';
-import { formatEther } from 'viem';
+import { getContractService, TimeToken, EscrowPolicy, TokenPaymentAsset } from '../services/contractService';
+import { formatEther, formatUnits } from 'viem';
 import { isSupportedChain, getChainDisplayName, getContractAddress } from '../lib/wagmi';
-import { getPriceService, FormattedPrice } from '../services/priceService';
+import { getPriceService, FormattedPrice, PriceUnavailable } from '../services/priceService';
 import NotificationCenter from './NotificationCenter';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import ChainlinkUpkeepWidget from './ChainlinkUpkeepWidget';
-import { FEATURE_FLAGS } from '../shared/constants';
+import ResaleMarket from './ResaleMarket';
+import { FEATURE_FLAGS, USD_PRICING_CONFIG, TOKEN_STATUSES, TOKEN_STATUS_DISPLAY, TokenStatus } from '../shared/constants';
+import { getTokenIndexer, TokenFilter, TokenPage, TokenSortField } from '../services/tokenIndexer';
+import { getTokenMetadataService, TimeTokenMetadata } from '../services/tokenMetadata';
+import { KYCTierPolicy, AccountKYCTier } from '../services/kycTiers';
 
 interface MarketplaceProps {
   onCreateToken?: () => void;
   onViewDashboard?: () => void;
 }
 
+type MarketplaceFilter = 'all' | 'available' | 'my_tokens';
+
+type MarketplaceView = 'primary' | 'resale';
+
+// Drafts, paused and retired tokens are only listed for their creator
+const PUBLIC_STATUSES: TokenStatus[] = ['Active', 'SoldOut', 'Expired'];
+
+const SORT_OPTIONS: { key: string; label: string; sortBy: TokenSortField; sortDirection: 'asc' | 'desc' }[] = [
+  { key: 'newest', label: 'Newest first', sortBy: 'newest', sortDirection: 'desc' },
+  { key: 'price_asc', label: 'Price: low to high', sortBy: 'price', sortDirection: 'asc' },
+  { key: 'price_desc', label: 'Price: high to low', sortBy: 'price', sortDirection: 'desc' },
+  { key: 'hours', label: 'Most hours available', sortBy: 'availableHours', sortDirection: 'desc' },
+  { key: 'expiring', label: 'Expiring soonest', sortBy: 'validUntil', sortDirection: 'asc' }
+];
+
 export default function Marketplace({ onCreateToken, onViewDashboard }: MarketplaceProps) {
   const { isConnected, address } = useAccount();
   const chainId = useChainId();
-  const [tokens, setTokens] = useState<TimeToken[]>([]);
+  const [tokenPage, setTokenPage] = useState<TokenPage | null>(null);
+  const [filterCounts, setFilterCounts] = useState<Record<MarketplaceFilter, number>>({ all: 0, available: 0, my_tokens: 0 });
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'available' | 'my_tokens'>('all');
+  const [view, setView] = useState<MarketplaceView>('primary');
+  const [filter, setFilter] = useState<MarketplaceFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<TokenStatus | 'any'>('any');
+  const [sortKey, setSortKey] = useState(SORT_OPTIONS[0].key);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState(1);
   const [selectedToken, setSelectedToken] = useState<TimeToken | null>(null);
   const [isPurchasing, setIsPurchasing] = useState(false);
   const [purchaseHours, setPurchaseHours] = useState(1);
   const [tokenPrices, setTokenPrices] = useState<Map<string, FormattedPrice>>(new Map());
+  const [tokenMetadata, setTokenMetadata] = useState<Map<string, TimeTokenMetadata>>(new Map());
   const [purchaseCost, setPurchaseCost] = useState<FormattedPrice | null>(null);
   const [notification, setNotification] = useState<{ type: 'success' | 'error' | 'info', message: string } | null>(null);
   const [modalNotification, setModalNotification] = useState<{ type: 'success' | 'error' | 'info', message: string } | null>(null);
   const [isModalClosing, setIsModalClosing] = useState(false);
   const modalClosingRef = useRef(false);
   const [useEscrowProtection, setUseEscrowProtection] = useState(true); // Default to enabled for demo
-  const [escrowTimeoutDays, setEscrowTimeoutDays] = useState(FEATURE_FLAGS.ESCROW_TIMEOUT_DAYS);
+  const [escrowTimeoutDays, setEscrowTimeoutDays] = useState<number>(FEATURE_FLAGS.ESCROW_TIMEOUT_DAYS);
+  const [escrowPolicy, setEscrowPolicy] = useState<EscrowPolicy | null>(null);
+  const [slippageBps, setSlippageBps] = useState<number>(USD_PRICING_CONFIG.DEFAULT_SLIPPAGE_BPS);
+  const [tokenPaymentAssets, setTokenPaymentAssets] = useState<TokenPaymentAsset[]>([]);
+  const [paymentAsset, setPaymentAsset] = useState<string | null>(null); // null pays in native currency
+  const [kycTier, setKycTier] = useState<AccountKYCTier | null>(null);
+  const [nativeUsdPrice, setNativeUsdPrice] = useState<number | null>(null); // Ranks native- and USD-priced tokens together
 
   const contractService = getContractService();
   const priceService = getPriceService();
+  const tokenIndexer = getTokenIndexer();
+  const metadataService = getTokenMetadataService();
 
   useEffect(() => {
     loadMarketplaceData();
   }, [isConnected, address, chainId]);
 
+  // Price sorting compares USD quotes, so keep the native currency's price at hand
+  useEffect(() => {
+    if (!isSupportedChain(chainId)) return;
+    priceService.getLatestPrice(chainId)
+      .then(priceData => setNativeUsdPrice(priceData.price))
+      .catch(error => {
+        console.error('❌ Failed to load native price for sorting:', error);
+        setNativeUsdPrice(null);
+      });
+  }, [chainId]);
+
+  // Re-query the local index whenever the view changes
+  useEffect(() => {
+    if (isConnected && isSupportedChain(chainId)) {
+      refreshTokenPage();
+    }
+  }, [filter, statusFilter, sortKey, searchTerm, page, nativeUsdPrice]);
+
+  // Tail new events while the marketplace is open
+  useEffect(() => {
+    if (!isConnected || !isSupportedChain(chainId)) return;
+    return tokenIndexer.watch(chainId, refreshTokenPage);
+  }, [isConnected, address, chainId, filter, statusFilter, sortKey, searchTerm, page, nativeUsdPrice]);
+
   // Update purchase cost when hours or selected token changes
   useEffect(() => {
     const updatePurchaseCost = async () => {
       if (selectedToken && purchaseHours > 0) {
         try {
-          const cost = await calculatePurchaseCost(selectedToken.pricePerHour, purchaseHours);
+          const cost = await calculatePurchaseCost(selectedToken, purchaseHours);
           setPurchaseCost(cost);
         } catch (error) {
           console.error('Failed to update purchase cost:', error);
@@ -59,7 +117,63 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
     };
 
     updatePurchaseCost();
-  }, [selectedToken, purchaseHours, chainId]);
+  }, [selectedToken, purchaseHours, chainId, paymentAsset, tokenPaymentAssets]);
+
+  // Load the ERC-20s the selected token accepts; buyers start on the native currency
+  useEffect(() => {
+    const loadPaymentAssets = async () => {
+      setPaymentAsset(null);
+      if (!selectedToken || !FEATURE_FLAGS.STABLECOIN_PAYMENTS_ENABLED) {
+        setTokenPaymentAssets([]);
+        return;
+      }
+
+      setTokenPaymentAssets(await contractService.getTokenPaymentAssets(selectedToken.tokenId));
+    };
+
+    loadPaymentAssets();
+  }, [selectedToken, chainId]);
+
+  // The buyer's KYC tier decides whether escrow is optional and how pricey hours can be
+  useEffect(() => {
+    setKycTier(null);
+    if (!address) return;
+    KYCTierPolicy.getAccountTier(address, chainId).then(setKycTier);
+  }, [address, chainId]);
+
+  // Load the creator's escrow requirements when a token is selected
+  useEffect(() => {
+    const loadEscrowPolicy = async () => {
+      if (!selectedToken || !FEATURE_FLAGS.ESCROW_ENABLED) {
+        setEscrowPolicy(null);
+        return;
+      }
+
+      const policy = await contractService.getEscrowPolicy(selectedToken.tokenId);
+      setEscrowPolicy(policy);
+      if (policy.required) {
+        setUseEscrowProtection(true);
+        setEscrowTimeoutDays(policy.timeoutDays);
+      }
+    };
+
+    loadEscrowPolicy();
+  }, [selectedToken, chainId]);
+
+  const selectedPaymentAsset = tokenPaymentAssets.find(candidate => candidate.asset.address === paymentAsset) ?? null;
+  const escrowRequired = escrowPolicy?.required ?? false;
+  const tierRequiresEscrow = kycTier?.tier.escrowRequired ?? false;
+  const purchaseUsesEscrow = FEATURE_FLAGS.ESCROW_ENABLED && (useEscrowProtection || escrowRequired || tierRequiresEscrow);
+  const tierMaxPricePerHourUSD = kycTier?.tier.maxPricePerHourUSD ?? null;
+  // USD per hour held against the tier cap: a USD-priced token's own price, else the USD value of the quote
+  const hourlyPriceUSD = selectedToken && contractService.isUsdPriced(selectedToken)
+    ? Number(formatUnits(selectedToken.usdPricePerHour ?? BigInt(0), USD_PRICING_CONFIG.USD_DECIMALS))
+    : purchaseCost && purchaseCost.usdAmount > 0 && purchaseHours > 0 ? purchaseCost.usdAmount / purchaseHours : null;
+  const exceedsTierPrice = tierMaxPricePerHourUSD !== null && hourlyPriceUSD !== null && hourlyPriceUSD > tierMaxPricePerHourUSD;
+  // Purchases wait for the tier, and for the quote a capped tier is checked against, so the limits can't be skipped
+  const tierPending = !kycTier || (tierMaxPricePerHourUSD !== null && hourlyPriceUSD === null && purchaseCost === null);
+  // A quote with no USD value (stale feed, non-pegged ERC-20) can't be checked against a capped tier
+  const tierPriceUnknown = tierMaxPricePerHourUSD !== null && hourlyPriceUSD === null && purchaseCost !== null;
 
   const loadMarketplaceData = async () => {
     if (!isConnected || !isSupportedChain(chainId)) {
@@ -71,26 +185,9 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
       setLoading(true);
       console.log('📊 Loading marketplace data...');
 
-      // Get current token ID to know how many tokens exist
-      const currentTokenId = await contractService.getCurrentTokenId();
-      console.log('Current token ID:', currentTokenId.toString());
-
-      // Load all tokens (simplified - in production, use pagination)
-      const tokenPromises: Promise<TimeToken | null>[] = [];
-      for (let i = 1; i <= Number(currentTokenId); i++) {
-        tokenPromises.push(contractService.getTimeToken(i.toString()));
-      }
-
-      const allTokens = await Promise.all(tokenPromises);
-      const validTokens = allTokens.filter((token): token is TimeToken =>
-        token !== null && token.isActive
-      );
-
-      setTokens(validTokens);
-      console.log('✅ Loaded', validTokens.length, 'active tokens');
-
-      // Load price data for all tokens
-      await loadTokenPrices(validTokens);
+      // Catch the local index up with the chain, then query it
+      await tokenIndexer.sync(chainId);
+      refreshTokenPage();
 
     } catch (error) {
       console.error('❌ Failed to load marketplace data:', error);
@@ -99,13 +196,85 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
     }
   };
 
+  const getFilterQuery = (filterKey: MarketplaceFilter): TokenFilter => {
+    switch (filterKey) {
+      case 'available':
+        // Only show tokens that can be purchased (not owned by current user)
+        return { purchasableOnly: true, excludeCreator: address };
+      case 'my_tokens':
+        return { creator: address };
+      default:
+        // By default, show all listed tokens but highlight purchasable ones
+        return { statuses: PUBLIC_STATUSES };
+    }
+  };
+
+  // Statuses a tab can contain, for the status dropdown
+  const getStatusOptions = (filterKey: MarketplaceFilter): TokenStatus[] => {
+    switch (filterKey) {
+      case 'available':
+        return ['Active'];
+      case 'my_tokens':
+        return [...TOKEN_STATUSES];
+      default:
+        return PUBLIC_STATUSES;
+    }
+  };
+
+  const refreshTokenPage = () => {
+    const sortOption = SORT_OPTIONS.find(option => option.key === sortKey) ?? SORT_OPTIONS[0];
+    const result = tokenIndexer.queryTokens(chainId, {
+      ...getFilterQuery(filter),
+      ...(statusFilter !== 'any' && { statuses: [statusFilter] }),
+      search: searchTerm,
+      sortBy: sortOption.sortBy,
+      sortDirection: sortOption.sortDirection,
+      nativeUsdPrice,
+      page
+    });
+
+    setTokenPage(result);
+    setFilterCounts({
+      all: tokenIndexer.countTokens(chainId, getFilterQuery('all')),
+      available: tokenIndexer.countTokens(chainId, getFilterQuery('available')),
+      my_tokens: tokenIndexer.countTokens(chainId, getFilterQuery('my_tokens'))
+    });
+    console.log('✅ Showing', result.items.length, 'of', result.total, 'tokens');
+
+    // Load price data and metadata for the visible page
+    loadTokenPrices(result.items);
+    loadTokenMetadata(result.items);
+  };
+
+  const loadTokenMetadata = async (tokensToLoad: TimeToken[]) => {
+    const withMetadata = tokensToLoad.filter(token => token.metadataURI);
+    if (withMetadata.length === 0) return;
+
+    const loaded = await Promise.all(withMetadata.map(async token =>
+      [token.tokenId, await metadataService.fetchMetadata(token.metadataURI)] as const
+    ));
+
+    setTokenMetadata(prev => {
+      const metadataMap = new Map(prev);
+      loaded.forEach(([tokenId, metadata]) => {
+        if (metadata) metadataMap.set(tokenId, metadata);
+      });
+      return metadataMap;
+    });
+  };
+
   const loadTokenPrices = async (tokensToLoad: TimeToken[]) => {
     try {
       console.log('💰 Loading price data for tokens...');
-      const priceMap = new Map<string, FormattedPrice>();
+      const priceMap = new Map<string, FormattedPrice>(tokenPrices);
 
       // Load prices for all tokens in parallel
       const pricePromises = tokensToLoad.map(async (token) => {
+        if (contractService.isUsdPriced(token)) {
+          priceMap.set(token.tokenId, await formatUsdPricedToken(token));
+          return;
+        }
+
         try {
           const formattedPrice = await contractService.formatPrice(token.pricePerHour, chainId);
           priceMap.set(token.tokenId, formattedPrice);
@@ -131,6 +300,31 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
     }
   };
 
+  // USD-priced tokens lead with their fixed dollar price; the native amount is today's quote
+  const formatUsdPricedToken = async (token: TimeToken): Promise<FormattedPrice> => {
+    const currency = priceService.getCurrentCurrencyInfo(chainId).symbol;
+    const usdAmount = Number(formatUnits(token.usdPricePerHour ?? BigInt(0), USD_PRICING_CONFIG.USD_DECIMALS));
+
+    try {
+      const quote = await contractService.quotePurchase(token.tokenId, 1);
+      const cryptoAmount = Number(formatEther(quote));
+      return {
+        crypto: `$${usdAmount.toFixed(2)} USD`,
+        usd: `≈ ${cryptoAmount.toFixed(4)} ${currency} at today's price`,
+        cryptoAmount,
+        usdAmount
+      };
+    } catch (error) {
+      console.error(`Failed to quote USD-priced token ${token.tokenId}:`, error);
+      return {
+        crypto: `$${usdAmount.toFixed(2)} USD`,
+        usd: 'Price unavailable',
+        cryptoAmount: 0,
+        usdAmount
+      };
+    }
+  };
+
   const handlePurchaseToken = async (token: TimeToken) => {
     if (!isConnected || !address) {
       console.error('❌ Wallet not connected');
@@ -164,12 +358,36 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
         throw new Error('Token has expired');
       }
 
-      const totalCost = contractService.calculatePurchaseCost(token.pricePerHour, purchaseHours);
+      if (contractService.getTokenStatus(token) !== 'Active') {
+        throw new Error(`Token is ${TOKEN_STATUS_DISPLAY[contractService.getTokenStatus(token)].label.toLowerCase()}`);
+      }
+
+      if (tierPending) {
+        throw new Error('Still checking your KYC tier limits, try again in a moment');
+      }
+
+      if (tierPriceUnknown && kycTier) {
+        throw new Error(`USD price unavailable, so this token can't be checked against the ${kycTier.tier.name} limit of $${tierMaxPricePerHourUSD}/hour. Try again once the price feed recovers, or verify to a higher KYC level.`);
+      }
+
+      if (exceedsTierPrice && kycTier) {
+        throw new Error(`KYC tier limit: ${kycTier.tier.name} accounts can buy hours priced up to $${tierMaxPricePerHourUSD}/hour. Verify to a higher KYC level to unlock this token.`);
+      }
+
+      // ERC-20 prices are fixed per hour. USD-priced tokens paid natively are re-quoted
+      // now and sent with the buyer's slippage headroom.
+      const usdPriced = !selectedPaymentAsset && contractService.isUsdPriced(token);
+      const totalCost = selectedPaymentAsset
+        ? contractService.calculatePurchaseCost(selectedPaymentAsset.pricePerHour, purchaseHours)
+        : usdPriced
+          ? await contractService.quotePurchase(token.tokenId, purchaseHours)
+          : contractService.calculatePurchaseCost(token.pricePerHour, purchaseHours);
+      const maxTotalCost = usdPriced ? contractService.applySlippage(totalCost, slippageBps) : undefined;
       console.log('💰 Total cost calculated:', {
-        pricePerHour: formatEther(token.pricePerHour),
+        paymentAsset: selectedPaymentAsset?.asset.symbol ?? priceService.getCurrentCurrencyInfo(chainId).symbol,
         hours: purchaseHours,
-        totalCost: formatEther(totalCost),
-        totalCostWei: totalCost.toString()
+        totalCost: totalCost.toString(),
+        maxTotalCost: maxTotalCost?.toString()
       });
 
       // Check user balance (simplified check)
@@ -180,17 +398,36 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
         console.warn('Could not estimate gas:', balanceError);
       }
 
-      console.log('📝 Calling contract purchase function...');
-      const txHash = await contractService.purchaseTimeToken({
-        tokenId: token.tokenId,
-        hoursAmount: purchaseHours,
-        totalPrice: totalCost
-      });
+      console.log('📝 Calling contract purchase function...', { escrow: purchaseUsesEscrow });
+      const escrowPurchase = purchaseUsesEscrow
+        ? await contractService.purchaseWithEscrow({
+          tokenId: token.tokenId,
+          hoursAmount: purchaseHours,
+          totalPrice: totalCost,
+          maxTotalPrice: maxTotalCost,
+          paymentAsset: selectedPaymentAsset?.asset.address,
+          timeoutDays: escrowTimeoutDays
+        })
+        : null;
+      const purchase = escrowPurchase
+        ? escrowPurchase.purchase
+        : await contractService.purchaseTimeToken({
+          tokenId: token.tokenId,
+          hoursAmount: purchaseHours,
+          totalPrice: totalCost,
+          maxTotalPrice: maxTotalCost,
+          paymentAsset: selectedPaymentAsset?.asset.address
+        });
 
-      console.log('✅ Purchase transaction successful:', txHash);
+      console.log('✅ Purchase transaction successful:', purchase.transactionHash);
 
       // Show success notification
-      setNotification({ type: 'success', message: `Successfully purchased ${purchaseHours}h of service!` });
+      setNotification({
+        type: 'success',
+        message: escrowPurchase
+          ? `Successfully purchased ${purchase.hoursAmount}h of service! Payment and hours are held in escrow #${escrowPurchase.escrowId} until release.`
+          : `Successfully purchased ${purchase.hoursAmount}h of service!`
+      });
 
       // Auto-hide notification after 5 seconds
       setTimeout(() => setNotification(null), 5000);
@@ -211,16 +448,24 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
       // Show user-friendly error message and add notification
       let errorMessage = 'Purchase failed. Please try again.';
 
-      if (error instanceof Error) {
+      if (error instanceof PriceUnavailable) {
+        errorMessage = `Price feed unavailable: ${error.message}. Please try again shortly.`;
+      } else if (error instanceof Error) {
         if (error.message.includes('user rejected') || error.message.includes('User denied transaction')) {
           errorMessage = 'Transaction was cancelled by user.';
           shouldCloseModal = true; // Close modal on user cancellation
         } else if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
           errorMessage = 'Insufficient balance for this transaction.';
           shouldCloseModal = true; // Close modal on insufficient funds
+        } else if (error.message.includes('KYC level insufficient') || error.message.includes('KYC tier limit')) {
+          errorMessage = error.message;
+        } else if (error.message.includes('PriceAboveMax')) {
+          errorMessage = 'The price moved beyond your slippage tolerance. Check the new quote and try again.';
+        } else if (error.message.includes('payment asset')) {
+          errorMessage = error.message;
         } else if (error.message.includes('Invalid hours')) {
           errorMessage = error.message;
-        } else if (error.message.includes('expired')) {
+        } else if (error.message.includes('expired') || error.message.includes('TokenExpired')) {
           errorMessage = 'This token has expired.';
         }
       }
@@ -260,21 +505,15 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
     }
   };
 
-  const filteredTokens = tokens.filter(token => {
-    switch (filter) {
-      case 'available':
-        // Only show tokens that can be purchased (not owned by current user)
-        return Number(token.availableHours) > 0 &&
-          !contractService.isTokenExpired(token.validUntil) &&
-          token.creator.toLowerCase() !== address?.toLowerCase();
-      case 'my_tokens':
-        return token.creator.toLowerCase() === address?.toLowerCase();
-      default:
-        // By default, show all tokens but highlight purchasable ones
-        return true;
-    }
-  });
+  const visibleTokens = tokenPage?.items ?? [];
 
+  const handleFilterChange = (filterKey: MarketplaceFilter) => {
+    setFilter(filterKey);
+    if (statusFilter !== 'any' && !getStatusOptions(filterKey).includes(statusFilter)) {
+      setStatusFilter('any');
+    }
+    setPage(1);
+  };
 
   const formatValidUntil = (timestamp: bigint) => {
     const date = new Date(Number(timestamp) * 1000);
@@ -285,16 +524,59 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
     return contractService.isTokenExpired(timestamp);
   };
 
-  const calculatePurchaseCost = async (pricePerHour: bigint, hours: number) => {
+  const calculatePurchaseCost = async (token: TimeToken, hours: number): Promise<FormattedPrice> => {
+    const currency = priceService.getCurrentCurrencyInfo(chainId).symbol;
+
+    if (selectedPaymentAsset) {
+      const cost = contractService.calculatePurchaseCost(selectedPaymentAsset.pricePerHour, hours);
+      return priceService.formatAssetPrice(cost, selectedPaymentAsset.asset.address, chainId);
+    }
+
+    if (contractService.isUsdPriced(token)) {
+      const usdAmount = Number(formatUnits((token.usdPricePerHour ?? BigInt(0)) * BigInt(hours), USD_PRICING_CONFIG.USD_DECIMALS));
+      try {
+        const quote = await contractService.quotePurchase(token.tokenId, hours);
+        const cryptoAmount = Number(formatEther(quote));
+        return {
+          crypto: `${cryptoAmount.toFixed(4)} ${currency}`,
+          usd: `$${usdAmount.toFixed(2)} USD at today's feed price`,
+          cryptoAmount,
+          usdAmount
+        };
+      } catch (error) {
+        // Without an on-chain quote there is no safe amount to send
+        return {
+          crypto: `Quote unavailable`,
+          usd: error instanceof PriceUnavailable ? error.message : 'Cost calculation failed',
+          cryptoAmount: 0,
+          usdAmount
+        };
+      }
+    }
+
+    const cost = contractService.calculatePurchaseCost(token.pricePerHour, hours);
+    const cryptoAmount = Number(formatEther(cost));
+
     try {
-      const cost = contractService.calculatePurchaseCost(pricePerHour, hours);
-      const formattedCost = await contractService.formatPrice(cost, chainId);
-      return formattedCost;
+      const usdAmount = await priceService.convertCryptoToUSD(cost, chainId);
+      return {
+        crypto: `${cryptoAmount.toFixed(4)} ${currency}`,
+        usd: `≈ $${usdAmount.toFixed(2)} USD`,
+        cryptoAmount,
+        usdAmount
+      };
     } catch (error) {
+      // The token is priced in native currency, so the purchase can go ahead without a USD estimate
+      if (error instanceof PriceUnavailable) {
+        return {
+          crypto: `${cryptoAmount.toFixed(4)} ${currency}`,
+          usd: `USD estimate unavailable: ${error.message}`,
+          cryptoAmount,
+          usdAmount: 0
+        };
+      }
+
       console.error('Failed to calculate purchase cost:', error);
-      const cost = contractService.calculatePurchaseCost(pricePerHour, hours);
-      const currency = priceService.getCurrentCurrencyInfo(chainId).symbol;
-      const cryptoAmount = Number(formatEther(cost));
       return {
         crypto: `${cryptoAmount.toFixed(4)} ${currency}`,
         usd: 'Cost calculation failed',
@@ -399,164 +681,263 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
           </div>
         </div>
 
-        {/* Filters */}
-        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-4 mb-8 border border-white/20">
-          <div className="flex gap-4">
+        {/* Primary / Resale view */}
+        {FEATURE_FLAGS.RESALE_ENABLED && (
+          <div className="flex gap-2 mb-4">
             {[
-              { key: 'all', label: '🌐 All Tokens', count: tokens.length },
-              { key: 'available', label: '🛒 Available to Buy', count: tokens.filter(t => Number(t.availableHours) > 0 && !isExpired(t.validUntil) && t.creator.toLowerCase() !== address?.toLowerCase()).length },
-              { key: 'my_tokens', label: '👤 My Tokens', count: tokens.filter(t => t.creator.toLowerCase() === address?.toLowerCase()).length }
-            ].map(filterOption => (
+              { key: 'primary', label: '🏷️ Primary Listings' },
+              { key: 'resale', label: '🔁 Resale' }
+            ].map(viewOption => (
               <button
-                key={filterOption.key}
-                onClick={() => setFilter(filterOption.key as any)}
-                className={`px-4 py-2 rounded-xl font-medium transition-all ${filter === filterOption.key
+                key={viewOption.key}
+                onClick={() => setView(viewOption.key as MarketplaceView)}
+                className={`px-4 py-2 rounded-xl font-medium transition-all ${view === viewOption.key
                   ? 'bg-white text-purple-600'
-                  : 'text-white hover:bg-white/10'
+                  : 'bg-white/10 text-white hover:bg-white/20'
                   }`}
               >
-                {filterOption.label} ({filterOption.count})
+                {viewOption.label}
               </button>
             ))}
           </div>
-        </div>
+        )}
 
-        {/* Tokens Grid */}
-        {filteredTokens.length === 0 ? (
-          <div className="text-center py-16">
-            <div className="text-6xl mb-4">📭</div>
-            <h3 className="text-2xl font-bold text-white mb-2">No Tokens Found</h3>
-            <p className="text-white/70 mb-6">
-              {filter === 'my_tokens'
-                ? 'You haven\'t created any tokens yet.'
-                : 'No active tokens match your current filter.'
-              }
-            </p>
-            {filter === 'my_tokens' && onCreateToken && (
-              <button
-                onClick={onCreateToken}
-                className="bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white px-8 py-4 rounded-xl font-medium transition-all"
-              >
-                🚀 Create Your First Token
-              </button>
-            )}
-          </div>
+        {view === 'resale' && address ? (
+          <ResaleMarket address={address} />
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredTokens.map((token, index) => {
-              const isOwnToken = token.creator.toLowerCase() === address?.toLowerCase();
-              const canPurchase = !isOwnToken && !isExpired(token.validUntil) && Number(token.availableHours) > 0;
-              const priceData = tokenPrices.get(token.tokenId);
-
-              return (
-                <motion.div
-                  key={token.tokenId}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.1 }}
-                  className={`bg-white/10 backdrop-blur-lg rounded-3xl p-6 border transition-all relative ${isExpired(token.validUntil) ? 'border-red-500/30' :
-                    canPurchase ? 'border-green-500/50 hover:border-green-400 hover:bg-white/15 cursor-pointer' :
-                      'border-white/20'
+          <>
+          {/* Filters */}
+          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-4 mb-8 border border-white/20 flex flex-col lg:flex-row gap-4 lg:items-center">
+            <div className="flex gap-4">
+              {[
+                { key: 'all', label: '🌐 All Tokens', count: filterCounts.all },
+                { key: 'available', label: '🛒 Available to Buy', count: filterCounts.available },
+                { key: 'my_tokens', label: '👤 My Tokens', count: filterCounts.my_tokens }
+              ].map(filterOption => (
+                <button
+                  key={filterOption.key}
+                  onClick={() => handleFilterChange(filterOption.key as MarketplaceFilter)}
+                  className={`px-4 py-2 rounded-xl font-medium transition-all ${filter === filterOption.key
+                    ? 'bg-white text-purple-600'
+                    : 'text-white hover:bg-white/10'
                     }`}
-                  onClick={() => {
-                    console.log('🔍 Card clicked:', { canPurchase, isModalClosing, modalClosingRefCurrent: modalClosingRef.current, tokenName: token.serviceName });
-                    if (canPurchase && !isModalClosing && !modalClosingRef.current) {
-                      console.log('✅ Opening modal for token:', token.serviceName);
-                      setSelectedToken(token);
-                    } else {
-                      console.log('❌ Modal opening blocked');
-                    }
-                  }}
                 >
-                  {/* Purchase Badge for purchasable tokens */}
-                  {canPurchase && (
-                    <div className="absolute -top-2 -right-2 bg-gradient-to-r from-green-500 to-blue-500 text-white px-3 py-1 rounded-full text-xs font-bold animate-pulse">
-                      💰 AVAILABLE
-                    </div>
-                  )}
+                  {filterOption.label} ({filterOption.count})
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3 lg:ml-auto">
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+                placeholder="Search services..."
+                className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:border-white/40"
+              />
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as TokenStatus | 'any');
+                  setPage(1);
+                }}
+                className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-white/40"
+              >
+                <option value="any" className="text-gray-900">Any status</option>
+                {getStatusOptions(filter).map(status => (
+                  <option key={status} value={status} className="text-gray-900">
+                    {TOKEN_STATUS_DISPLAY[status].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={sortKey}
+                onChange={(e) => {
+                  setSortKey(e.target.value);
+                  setPage(1);
+                }}
+                className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-white/40"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.key} value={option.key} className="text-gray-900">
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
 
-                  <div className="flex justify-between items-start mb-4">
-                    <div>
-                      <h3 className="text-white font-bold text-lg mb-1">{token.serviceName}</h3>
-                      <p className="text-white/60 text-sm">
-                        by {isOwnToken ? 'You' : `${token.creator.slice(0, 6)}...${token.creator.slice(-4)}`}
-                      </p>
-                    </div>
-                    <div className={`px-3 py-1 rounded-full text-xs font-medium ${isExpired(token.validUntil)
-                      ? 'bg-red-500/20 text-red-400'
-                      : Number(token.availableHours) > 0
-                        ? 'bg-green-500/20 text-green-400'
-                        : 'bg-yellow-500/20 text-yellow-400'
-                      }`}>
-                      {isExpired(token.validUntil)
-                        ? 'Expired'
-                        : Number(token.availableHours) > 0
-                          ? 'Available'
-                          : 'Sold Out'
-                      }
-                    </div>
-                  </div>
+          {/* Tokens Grid */}
+          {visibleTokens.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="text-6xl mb-4">📭</div>
+              <h3 className="text-2xl font-bold text-white mb-2">No Tokens Found</h3>
+              <p className="text-white/70 mb-6">
+                {filter === 'my_tokens'
+                  ? 'You haven\'t created any tokens yet.'
+                  : 'No active tokens match your current filter.'
+                }
+              </p>
+              {filter === 'my_tokens' && onCreateToken && (
+                <button
+                  onClick={onCreateToken}
+                  className="bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white px-8 py-4 rounded-xl font-medium transition-all"
+                >
+                  🚀 Create Your First Token
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {visibleTokens.map((token, index) => {
+                const isOwnToken = token.creator.toLowerCase() === address?.toLowerCase();
+                const status = contractService.getTokenStatus(token);
+                const canPurchase = !isOwnToken && status === 'Active';
+                const priceData = tokenPrices.get(token.tokenId);
+                const metadata = tokenMetadata.get(token.tokenId);
 
-                  <div className="grid grid-cols-2 gap-4 mb-4">
-                    <div>
-                      <div className="text-white/60 text-xs">Price per Hour</div>
-                      <div className="text-white font-bold text-lg">
-                        {priceData ? priceData.crypto : 'Loading...'}
+                return (
+                  <motion.div
+                    key={token.tokenId}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.1 }}
+                    className={`bg-white/10 backdrop-blur-lg rounded-3xl p-6 border transition-all relative ${status === 'Expired' ? 'border-red-500/30' :
+                      canPurchase ? 'border-green-500/50 hover:border-green-400 hover:bg-white/15 cursor-pointer' :
+                        'border-white/20'
+                      }`}
+                    onClick={() => {
+                      console.log('🔍 Card clicked:', { canPurchase, isModalClosing, modalClosingRefCurrent: modalClosingRef.current, tokenName: token.serviceName });
+                      if (canPurchase && !isModalClosing && !modalClosingRef.current) {
+                        console.log('✅ Opening modal for token:', token.serviceName);
+                        setSelectedToken(token);
+                      } else {
+                        console.log('❌ Modal opening blocked');
+                      }
+                    }}
+                  >
+                    {/* Purchase Badge for purchasable tokens */}
+                    {canPurchase && (
+                      <div className="absolute -top-2 -right-2 bg-gradient-to-r from-green-500 to-blue-500 text-white px-3 py-1 rounded-full text-xs font-bold animate-pulse">
+                        💰 AVAILABLE
                       </div>
-                      {priceData && priceData.usd !== 'Price unavailable' && (
-                        <div className="text-white/50 text-xs">{priceData.usd}</div>
-                      )}
-                    </div>
-                    <div>
-                      <div className="text-white/60 text-xs">Available Hours</div>
-                      <div className="text-white font-bold text-lg">{token.availableHours.toString()}h</div>
-                    </div>
-                    <div>
-                      <div className="text-white/60 text-xs">Total Hours</div>
-                      <div className="text-white font-bold">{token.totalHours.toString()}h</div>
-                    </div>
-                    <div>
-                      <div className="text-white/60 text-xs">Valid Until</div>
-                      <div className="text-white font-bold">{formatValidUntil(token.validUntil)}</div>
-                    </div>
-                  </div>
+                    )}
 
-                  {/* Action Area */}
-                  <div className="flex justify-between items-center">
-                    <div className="text-white/60 text-sm">
-                      Token #{token.tokenId}
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-white font-bold text-lg mb-1">{metadata?.name ?? token.serviceName}</h3>
+                        <p className="text-white/60 text-sm">
+                          by {isOwnToken ? 'You' : `${token.creator.slice(0, 6)}...${token.creator.slice(-4)}`}
+                          {metadata?.properties.category && ` · ${metadata.properties.category}`}
+                        </p>
+                      </div>
+                      <div className={`px-3 py-1 rounded-full text-xs font-medium ${TOKEN_STATUS_DISPLAY[status].color}`}>
+                        {status === 'Active' ? 'Available' : TOKEN_STATUS_DISPLAY[status].label}
+                      </div>
                     </div>
 
-                    {/* Purchase Button for purchasable tokens */}
-                    {canPurchase && (
-                      <button
-                        className="bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white px-4 py-2 rounded-lg font-bold text-sm transition-all transform hover:scale-105 shadow-lg"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          console.log('🔍 BUY NOW clicked:', { isModalClosing, modalClosingRefCurrent: modalClosingRef.current, tokenName: token.serviceName });
-                          if (!isModalClosing && !modalClosingRef.current) {
-                            console.log('✅ Opening modal via BUY NOW for token:', token.serviceName);
-                            setSelectedToken(token);
-                          } else {
-                            console.log('❌ BUY NOW modal opening blocked');
-                          }
-                        }}
-                      >
-                        🛒 BUY NOW
-                      </button>
+                    {metadata && (
+                      <div className="mb-4">
+                        <p className="text-white/70 text-sm line-clamp-2">{metadata.description}</p>
+                        {metadata.properties.tags && metadata.properties.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {metadata.properties.tags.slice(0, 4).map(tag => (
+                              <span key={tag} className="bg-white/10 text-white/70 px-2 py-0.5 rounded-full text-xs">
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     )}
 
-                    {/* Your Token indicator */}
-                    {isOwnToken && (
-                      <div className="bg-purple-500/20 text-purple-300 px-3 py-1 rounded-lg text-sm font-medium">
-                        👤 Your Token
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div>
+                        <div className="text-white/60 text-xs">Price per Hour</div>
+                        <div className="text-white font-bold text-lg">
+                          {priceData ? priceData.crypto : 'Loading...'}
+                        </div>
+                        {priceData && priceData.usd !== 'Price unavailable' && (
+                          <div className="text-white/50 text-xs">{priceData.usd}</div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                </motion.div>
-              );
-            })}
-          </div>
+                      <div>
+                        <div className="text-white/60 text-xs">Available Hours</div>
+                        <div className="text-white font-bold text-lg">{token.availableHours.toString()}h</div>
+                      </div>
+                      <div>
+                        <div className="text-white/60 text-xs">Total Hours</div>
+                        <div className="text-white font-bold">{token.totalHours.toString()}h</div>
+                      </div>
+                      <div>
+                        <div className="text-white/60 text-xs">Valid Until</div>
+                        <div className="text-white font-bold">{formatValidUntil(token.validUntil)}</div>
+                      </div>
+                    </div>
+
+                    {/* Action Area */}
+                    <div className="flex justify-between items-center">
+                      <div className="text-white/60 text-sm">
+                        Token #{token.tokenId}
+                      </div>
+
+                      {/* Purchase Button for purchasable tokens */}
+                      {canPurchase && (
+                        <button
+                          className="bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white px-4 py-2 rounded-lg font-bold text-sm transition-all transform hover:scale-105 shadow-lg"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            console.log('🔍 BUY NOW clicked:', { isModalClosing, modalClosingRefCurrent: modalClosingRef.current, tokenName: token.serviceName });
+                            if (!isModalClosing && !modalClosingRef.current) {
+                              console.log('✅ Opening modal via BUY NOW for token:', token.serviceName);
+                              setSelectedToken(token);
+                            } else {
+                              console.log('❌ BUY NOW modal opening blocked');
+                            }
+                          }}
+                        >
+                          🛒 BUY NOW
+                        </button>
+                      )}
+
+                      {/* Your Token indicator */}
+                      {isOwnToken && (
+                        <div className="bg-purple-500/20 text-purple-300 px-3 py-1 rounded-lg text-sm font-medium">
+                          👤 Your Token
+                        </div>
+                      )}
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {tokenPage && tokenPage.totalPages > 1 && (
+            <div className="flex justify-center items-center gap-4 mt-8">
+              <button
+                onClick={() => setPage(tokenPage.page - 1)}
+                disabled={tokenPage.page <= 1}
+                className="bg-white/20 hover:bg-white/30 disabled:opacity-40 text-white px-4 py-2 rounded-xl font-medium transition-all"
+              >
+                ← Previous
+              </button>
+              <span className="text-white/80">
+                Page {tokenPage.page} of {tokenPage.totalPages} · {tokenPage.total} tokens
+              </span>
+              <button
+                onClick={() => setPage(tokenPage.page + 1)}
+                disabled={tokenPage.page >= tokenPage.totalPages}
+                className="bg-white/20 hover:bg-white/30 disabled:opacity-40 text-white px-4 py-2 rounded-xl font-medium transition-all"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+          </>
         )}
 
         {/* Purchase Modal */}
@@ -613,7 +994,30 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                   )}
                 </AnimatePresence>
 
-                <h2 className="text-xl font-bold text-white mb-3">{selectedToken.serviceName}</h2>
+                <h2 className="text-xl font-bold text-white mb-3">
+                  {tokenMetadata.get(selectedToken.tokenId)?.name ?? selectedToken.serviceName}
+                </h2>
+
+                {tokenMetadata.get(selectedToken.tokenId) && (
+                  <div className="bg-white/5 rounded-2xl p-4 mb-4 text-sm">
+                    <p className="text-white/80">{tokenMetadata.get(selectedToken.tokenId)?.description}</p>
+                    {tokenMetadata.get(selectedToken.tokenId)?.properties.category && (
+                      <div className="text-white/60 mt-2">
+                        Category: <span className="text-white">{tokenMetadata.get(selectedToken.tokenId)?.properties.category}</span>
+                      </div>
+                    )}
+                    {selectedToken.metadataURI && (
+                      <a
+                        href={metadataService.getGatewayUrl(selectedToken.metadataURI)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-block text-blue-300 hover:text-blue-200 underline text-xs mt-2"
+                      >
+                        View token metadata
+                      </a>
+                    )}
+                  </div>
+                )}
 
                 <div className="space-y-3 mb-4">
                   <div className="grid grid-cols-2 gap-4 text-sm">
@@ -645,8 +1049,7 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                   </div>
 
                   {selectedToken.creator.toLowerCase() !== address?.toLowerCase() &&
-                    !isExpired(selectedToken.validUntil) &&
-                    Number(selectedToken.availableHours) > 0 && (
+                    contractService.getTokenStatus(selectedToken) === 'Active' && (
                       <div className="bg-white/5 rounded-2xl p-4">
                         <label className="block text-white/80 font-medium mb-2">Hours to Purchase</label>
                         <input
@@ -670,37 +1073,103 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                             <div>Calculating...</div>
                           )}
                         </div>
+
+                        {exceedsTierPrice && kycTier && (
+                          <div className="mt-2 text-yellow-300 text-xs">
+                            {kycTier.tier.icon} {kycTier.tier.name} accounts can buy hours priced up to ${tierMaxPricePerHourUSD}/hour
+                          </div>
+                        )}
+                        {tierPriceUnknown && kycTier && (
+                          <div className="mt-2 text-yellow-300 text-xs">
+                            {kycTier.tier.icon} USD price unavailable, so this token can&apos;t be checked against the {kycTier.tier.name} limit of ${tierMaxPricePerHourUSD}/hour. Try again once the price feed recovers.
+                          </div>
+                        )}
+
+                        {/* Currency choice when the creator accepts ERC-20s */}
+                        {tokenPaymentAssets.length > 0 && (
+                          <div className="mt-3 flex items-center justify-between text-sm">
+                            <span className="text-white/60">Pay with:</span>
+                            <div className="flex gap-2">
+                              {[
+                                { key: null, label: priceService.getCurrentCurrencyInfo(chainId).symbol },
+                                ...tokenPaymentAssets.map(({ asset }) => ({ key: asset.address, label: `${asset.icon} ${asset.symbol}` }))
+                              ].map(option => (
+                                <button
+                                  key={option.key ?? 'native'}
+                                  type="button"
+                                  onClick={() => setPaymentAsset(option.key)}
+                                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${paymentAsset === option.key
+                                    ? 'bg-blue-500 text-white'
+                                    : 'bg-white/10 text-white/70 hover:bg-white/20'
+                                    }`}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        {selectedPaymentAsset && (
+                          <div className="mt-2 text-white/50 text-xs">
+                            Your wallet will ask you to approve {selectedPaymentAsset.asset.symbol} spending first if the current allowance is too low.
+                          </div>
+                        )}
+
+                        {/* Slippage tolerance for tokens priced in USD */}
+                        {contractService.isUsdPriced(selectedToken) && !selectedPaymentAsset && (
+                          <div className="mt-3 flex items-center justify-between text-sm">
+                            <span className="text-white/60">Max price movement:</span>
+                            <div className="flex gap-2">
+                              {USD_PRICING_CONFIG.SLIPPAGE_OPTIONS_BPS.map(option => (
+                                <button
+                                  key={option}
+                                  type="button"
+                                  onClick={() => setSlippageBps(option)}
+                                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${slippageBps === option
+                                    ? 'bg-blue-500 text-white'
+                                    : 'bg-white/10 text-white/70 hover:bg-white/20'
+                                    }`}
+                                >
+                                  {option / 100}%
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     )}
 
                   {/* Escrow Protection Options */}
                   {FEATURE_FLAGS.ESCROW_ENABLED && selectedToken.creator.toLowerCase() !== address?.toLowerCase() &&
-                    !isExpired(selectedToken.validUntil) && Number(selectedToken.availableHours) > 0 && (
+                    contractService.getTokenStatus(selectedToken) === 'Active' && (
                     <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-3">
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center gap-2">
                           <span className="text-xl">🔒</span>
                           <h4 className="text-white font-semibold">Escrow Protection</h4>
                           <span className="bg-blue-500/20 text-blue-300 px-2 py-1 rounded-full text-xs font-bold">
-                            RECOMMENDED
+                            {escrowRequired
+                              ? 'REQUIRED BY CREATOR'
+                              : tierRequiresEscrow ? `REQUIRED FOR ${kycTier?.tier.name.toUpperCase()} TIER` : 'RECOMMENDED'}
                           </span>
                         </div>
                         <button
                           type="button"
                           onClick={() => setUseEscrowProtection(!useEscrowProtection)}
-                          className={`relative inline-flex items-center w-12 h-6 rounded-full transition-colors ${
-                            useEscrowProtection ? 'bg-blue-500' : 'bg-white/20'
+                          disabled={escrowRequired || tierRequiresEscrow}
+                          className={`relative inline-flex items-center w-12 h-6 rounded-full transition-colors disabled:opacity-60 ${
+                            purchaseUsesEscrow ? 'bg-blue-500' : 'bg-white/20'
                           }`}
                         >
                           <span
                             className={`inline-block w-4 h-4 bg-white rounded-full transition-transform ${
-                              useEscrowProtection ? 'translate-x-7' : 'translate-x-1'
+                              purchaseUsesEscrow ? 'translate-x-7' : 'translate-x-1'
                             }`}
                           />
                         </button>
                       </div>
                       
-                      {useEscrowProtection ? (
+                      {purchaseUsesEscrow ? (
                         <div className="space-y-2">
                           <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-2">
                             <div className="flex items-center gap-2 mb-1">
@@ -708,8 +1177,8 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                               <span className="text-white font-medium text-sm">Payment Protection Enabled</span>
                             </div>
                             <div className="space-y-1 text-xs text-white/70">
-                              <div>• Payment held safely in smart contract</div>
-                              <div>• Released after service completion</div>
+                              <div>• Payment and hours held safely in smart contract</div>
+                              <div>• Released when you confirm, or {FEATURE_FLAGS.ESCROW_COMPLETION_DISPUTE_DAYS} days after the creator marks completion</div>
                               <div>• Auto-release after {escrowTimeoutDays} days</div>
                             </div>
                           </div>
@@ -723,7 +1192,8 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                                 onChange={(e) => setEscrowTimeoutDays(parseInt(e.target.value) || 7)}
                                 min="3"
                                 max="30"
-                                className="w-16 bg-white/10 border border-white/20 rounded px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-400"
+                                disabled={escrowRequired}
+                                className="w-16 bg-white/10 border border-white/20 rounded px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-400 disabled:opacity-60"
                               />
                               <span className="text-white/60">days</span>
                             </div>
@@ -790,11 +1260,10 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                     Close
                   </button>
                   {selectedToken.creator.toLowerCase() !== address?.toLowerCase() &&
-                    !isExpired(selectedToken.validUntil) &&
-                    Number(selectedToken.availableHours) > 0 && (
+                    contractService.getTokenStatus(selectedToken) === 'Active' && (
                       <button
                         onClick={() => handlePurchaseToken(selectedToken)}
-                        disabled={isPurchasing || !isConnected}
+                        disabled={isPurchasing || !isConnected || tierPending || tierPriceUnknown}
                         className="flex-1 bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 text-white py-4 px-8 rounded-xl font-bold text-lg transition-all transform hover:scale-105 shadow-lg"
                       >
                         {isPurchasing ? (
@@ -802,11 +1271,15 @@ export default function Marketplace({ onCreateToken, onViewDashboard }: Marketpl
                             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
                             Processing...
                           </div>
+                        ) : tierPending ? (
+                          <div className="flex items-center justify-center gap-2">🪪 Checking KYC tier limits...</div>
+                        ) : tierPriceUnknown ? (
+                          <div className="flex items-center justify-center gap-2">🪪 USD price unavailable for tier check</div>
                         ) : (
                           <div className="flex items-center justify-center gap-2">
-                            {useEscrowProtection && FEATURE_FLAGS.ESCROW_ENABLED ? '🔒' : '🛒'} 
-                            {useEscrowProtection && FEATURE_FLAGS.ESCROW_ENABLED ? 'Secure Purchase' : 'Purchase'} {purchaseHours}h
-                            {useEscrowProtection && FEATURE_FLAGS.ESCROW_ENABLED && purchaseCost
+                            {purchaseUsesEscrow ? '🔒' : '🛒'} 
+                            {purchaseUsesEscrow ? 'Secure Purchase' : 'Purchase'} {purchaseHours}h
+                            {purchaseUsesEscrow && purchaseCost
                               ? ` for ${(purchaseCost.cryptoAmount * (1 + FEATURE_FLAGS.ESCROW_FEE_PERCENTAGE / 100)).toFixed(4)} ${purchaseCost.crypto.split(' ')[1]}`
                               : ` for ${purchaseCost?.crypto || 'Calculating...'}`
                             }
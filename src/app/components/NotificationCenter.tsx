@@ -2,7 +2,10 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useAccount, useChainId } from 'wagmi';
 import { AlertNotification, getAlertAgent } from '../services/alertAgent';
+import { getExpiryReminderScheduler } from '../services/expiryReminders';
+import { getChainEventWatcher } from '../services/chainEventWatcher';
 
 interface NotificationCenterProps {
   className?: string;
@@ -14,6 +17,8 @@ export default function NotificationCenter({ className = '' }: NotificationCente
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
   const dropdownRef = useRef<HTMLDivElement>(null);
   const alertAgent = getAlertAgent();
+  const { address } = useAccount();
+  const chainId = useChainId();
 
   useEffect(() => {
     // Only run on client side
@@ -30,6 +35,17 @@ export default function NotificationCenter({ className = '' }: NotificationCente
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    // Expiry reminders and on-chain event alerts for the connected wallet's created and purchased tokens
+    if (!address) return;
+    const stopReminders = getExpiryReminderScheduler().watch(chainId, address);
+    const stopEvents = getChainEventWatcher().watch(chainId, address);
+    return () => {
+      stopReminders();
+      stopEvents();
+    };
+  }, [address, chainId]);
+
   useEffect(() => {
     // Close dropdown when clicking outside
     const handleClickOutside = (event: MouseEvent) => {
@@ -2,8 +2,11 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { useAccount, useChainId } from 'wagmi';
 import { TokenBundle, AgenticAnalysis } from '../services/tokenizeAgent';
 import { ParameterValidationService, CreateTokenParams, ValidationResult } from '../services/parameterValidation';
+import { KYCTierPolicy, AccountKYCTier } from '../services/kycTiers';
+import { getTokenIndexer } from '../services/tokenIndexer';
 
 interface ParameterReviewProps {
   bundle: TokenBundle;
@@ -20,22 +23,42 @@ export default function ParameterReview({
   onConfirm, 
   onBack 
 }: ParameterReviewProps) {
+  const { address } = useAccount();
+  const chainId = useChainId();
   const [validationResults, setValidationResults] = useState<ValidationResult[]>([]);
   const [isValidating, setIsValidating] = useState(true);
+  const [kycTier, setKycTier] = useState<AccountKYCTier | null>(null);
 
   useEffect(() => {
-    // Validate all tokens in the bundle
-    const validateTokens = () => {
-      const results = bundle.tokens.map(token => {
+    // Validate all tokens in the bundle against the creator's KYC tier limits
+    const validateTokens = async () => {
+      const accountTier = address ? await KYCTierPolicy.getAccountTier(address, chainId) : null;
+      let activeTokens = 0;
+      if (address) {
+        try {
+          const indexer = getTokenIndexer();
+          await indexer.sync(chainId);
+          activeTokens = indexer.countTokens(chainId, { creator: address, statuses: ['Active'] });
+        } catch (error) {
+          console.error('❌ Failed to count active tokens:', error);
+        }
+      }
+
+      const results = bundle.tokens.map((token, index) => {
         const params: CreateTokenParams = ParameterValidationService.tokenSuggestionToParams(token);
-        return ParameterValidationService.validateTokenCreation(params);
+        // Earlier tokens in the bundle take up active slots too
+        return ParameterValidationService.validateTokenCreation(
+          params,
+          accountTier ? { kycLevel: accountTier.level, activeTokens: activeTokens + index } : undefined
+        );
       });
+      setKycTier(accountTier);
       setValidationResults(results);
       setIsValidating(false);
     };
 
     validateTokens();
-  }, [bundle]);
+  }, [bundle, address, chainId]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -97,6 +120,11 @@ export default function ParameterReview({
             <span className="text-lg">{getStrategyIcon(bundle.strategy)}</span>
             <span className="font-semibold">{bundle.bundleName}</span>
           </div>
+          {kycTier && (
+            <p className="text-gray-500 text-sm mt-3">
+              {kycTier.tier.icon} Creating as a {kycTier.tier.name} account (KYC level {kycTier.level})
+            </p>
+          )}
         </motion.div>
 
         {/* Bundle Summary */}
@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useChainId } from 'wagmi';
+import { parseEther } from 'viem';
+import { getContractService, ResaleListing, TimeToken } from '../services/contractService';
+import { getPriceService, FormattedPrice } from '../services/priceService';
+import { getTokenIndexer } from '../services/tokenIndexer';
+import { getResaleContract } from '../shared/constants';
+
+interface ResaleMarketProps {
+  address: string;
+}
+
+export default function ResaleMarket({ address }: ResaleMarketProps) {
+  const chainId = useChainId();
+  const [loading, setLoading] = useState(true);
+  const [listings, setListings] = useState<ResaleListing[]>([]);
+  const [listingPrices, setListingPrices] = useState<Map<string, FormattedPrice>>(new Map());
+  const [tokens, setTokens] = useState<Map<string, TimeToken>>(new Map());
+  const [heldTokens, setHeldTokens] = useState<TimeToken[]>([]);
+  const [royaltyBps, setRoyaltyBps] = useState(0);
+  const [fillHours, setFillHours] = useState<Record<string, number>>({});
+  const [listTokenId, setListTokenId] = useState('');
+  const [listHours, setListHours] = useState(1);
+  const [listPrice, setListPrice] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const contractService = getContractService();
+  const priceService = getPriceService();
+  const tokenIndexer = getTokenIndexer();
+  const resaleAvailable = getResaleContract(chainId) !== null;
+
+  useEffect(() => {
+    loadResaleData();
+  }, [address, chainId]);
+
+  const loadResaleData = async () => {
+    if (!resaleAvailable) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      console.log('🔁 Loading resale listings...');
+
+      await tokenIndexer.sync(chainId);
+      const [activeListings, royalty, owned] = await Promise.all([
+        contractService.getResaleListings(),
+        contractService.getResaleRoyaltyBps(),
+        contractService.getBuyerTokensWithBalances(address)
+      ]);
+
+      const tokenMap = new Map(tokenIndexer.getTokens(chainId).map(token => [token.tokenId, token]));
+      const prices = new Map<string, FormattedPrice>();
+      await Promise.all(activeListings.map(async listing => {
+        prices.set(listing.listingId, await priceService.formatPrice(listing.pricePerHour, chainId));
+      }));
+
+      setListings(activeListings);
+      setListingPrices(prices);
+      setTokens(tokenMap);
+      setRoyaltyBps(royalty);
+      setHeldTokens(owned.filter(token =>
+        (token.purchasedHours ?? BigInt(0)) > BigInt(0) && !contractService.isTokenExpired(token.validUntil)
+      ));
+
+    } catch (error) {
+      console.error('❌ Failed to load resale data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a contract action, surface its error inline and refresh afterwards
+  const runAction = async (actionKey: string, action: () => Promise<unknown>) => {
+    try {
+      setPendingAction(actionKey);
+      setError(null);
+      await action();
+      await loadResaleData();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Transaction failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleList = () => {
+    let pricePerHour: bigint;
+    try {
+      pricePerHour = parseEther(listPrice || '0');
+    } catch {
+      setError('Enter the price per hour as a decimal amount');
+      return;
+    }
+    if (!listTokenId) {
+      setError('Choose which token to list');
+      return;
+    }
+
+    runAction('list', async () => {
+      await contractService.listForResale(listTokenId, listHours, pricePerHour);
+      setListPrice('');
+      setListHours(1);
+    });
+  };
+
+  const currency = priceService.getCurrentCurrencyInfo(chainId).symbol;
+  const shortAddress = (value: string): string => `${value.slice(0, 6)}...${value.slice(-4)}`;
+  const isBusy = (actionKey: string) => pendingAction === actionKey;
+
+  if (!resaleAvailable) {
+    return (
+      <div className="text-center py-16">
+        <div className="text-6xl mb-4">🔁</div>
+        <h3 className="text-2xl font-bold text-white mb-2">Resale Not Available</h3>
+        <p className="text-white/70">There is no resale market deployed on this network yet.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+        <p className="text-white/70">Loading resale listings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 text-red-100 p-4 rounded-2xl">
+          ❌ {error}
+        </div>
+      )}
+
+      {/* List purchased hours */}
+      <div className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 border border-white/20">
+        <h3 className="text-xl font-bold text-white mb-1">🏷️ Resell Your Hours</h3>
+        <p className="text-white/60 text-sm mb-4">
+          Listed hours are held by the resale market until sold or cancelled. {royaltyBps / 100}% of each sale goes to the token&apos;s creator.
+        </p>
+        {heldTokens.length === 0 ? (
+          <p className="text-white/70 text-sm">You don&apos;t hold any unexpired hours to resell.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              value={listTokenId}
+              onChange={(e) => setListTokenId(e.target.value)}
+              className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-white/40"
+            >
+              <option value="" className="text-gray-900">Choose a token</option>
+              {heldTokens.map(token => (
+                <option key={token.tokenId} value={token.tokenId} className="text-gray-900">
+                  {token.serviceName} ({token.purchasedHours?.toString()}h held)
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="1"
+              value={listHours}
+              onChange={(e) => setListHours(parseInt(e.target.value) || 1)}
+              placeholder="Hours"
+              className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:border-white/40"
+            />
+            <input
+              type="text"
+              value={listPrice}
+              onChange={(e) => setListPrice(e.target.value)}
+              placeholder={`Price per hour (${currency})`}
+              className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:border-white/40"
+            />
+            <button
+              onClick={handleList}
+              disabled={pendingAction !== null}
+              className="bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 disabled:opacity-50 text-white px-4 py-2 rounded-xl font-medium transition-all"
+            >
+              {isBusy('list') ? 'Listing...' : '🏷️ List Hours'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Listings */}
+      {listings.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">📭</div>
+          <h3 className="text-2xl font-bold text-white mb-2">No Resale Listings</h3>
+          <p className="text-white/70">Nobody is reselling hours on this network right now.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {listings.map((listing, index) => {
+            const token = tokens.get(listing.tokenId);
+            const isOwnListing = listing.seller.toLowerCase() === address.toLowerCase();
+            const priceData = listingPrices.get(listing.listingId);
+            const hours = fillHours[listing.listingId] ?? 1;
+
+            return (
+              <motion.div
+                key={listing.listingId}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className="bg-white/10 backdrop-blur-lg rounded-3xl p-6 border border-white/20"
+              >
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h3 className="text-white font-bold text-lg mb-1">{token?.serviceName ?? `Token #${listing.tokenId}`}</h3>
+                    <p className="text-white/60 text-sm">
+                      resold by {isOwnListing ? 'You' : shortAddress(listing.seller)}
+                    </p>
+                  </div>
+                  <div className="px-3 py-1 rounded-full text-xs font-medium bg-blue-500/20 text-blue-300">
+                    🔁 Resale
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <div className="text-white/60 text-xs">Price per Hour</div>
+                    <div className="text-white font-bold text-lg">{priceData ? priceData.crypto : 'Loading...'}</div>
+                    {priceData && priceData.usd !== 'Price unavailable' && (
+                      <div className="text-white/50 text-xs">{priceData.usd}</div>
+                    )}
+                  </div>
+                  <div>
+                    <div className="text-white/60 text-xs">Hours Listed</div>
+                    <div className="text-white font-bold text-lg">{listing.hoursAmount.toString()}h</div>
+                  </div>
+                  {token && (
+                    <div className="col-span-2">
+                      <div className="text-white/60 text-xs">Valid Until</div>
+                      <div className="text-white font-bold">{new Date(Number(token.validUntil) * 1000).toLocaleDateString()}</div>
+                    </div>
+                  )}
+                </div>
+
+                {isOwnListing ? (
+                  <button
+                    onClick={() => runAction(`cancel-${listing.listingId}`, () => contractService.cancelResaleListing(listing.listingId))}
+                    disabled={pendingAction !== null}
+                    className="w-full bg-white/20 hover:bg-white/30 disabled:opacity-50 text-white py-3 px-4 rounded-xl font-medium transition-all"
+                  >
+                    {isBusy(`cancel-${listing.listingId}`) ? 'Cancelling...' : '↩️ Cancel Listing'}
+                  </button>
+                ) : (
+                  <div className="flex gap-3">
+                    <input
+                      type="number"
+                      min="1"
+                      max={Number(listing.hoursAmount)}
+                      value={hours}
+                      onChange={(e) => setFillHours(prev => ({ ...prev, [listing.listingId]: parseInt(e.target.value) || 1 }))}
+                      className="w-20 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white focus:outline-none focus:border-white/40"
+                    />
+                    <button
+                      onClick={() => runAction(`fill-${listing.listingId}`, () => contractService.fillResaleListing(listing, hours))}
+                      disabled={pendingAction !== null}
+                      className="flex-1 bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 disabled:opacity-50 text-white py-2 px-4 rounded-xl font-bold transition-all"
+                    >
+                      {isBusy(`fill-${listing.listingId}`)
+                        ? 'Buying...'
+                        : `🛒 Buy ${hours}h for ${priceData ? (priceData.cryptoAmount * hours).toFixed(4) : '...'} ${currency}`}
+                    </button>
+                  </div>
+                )}
+
+                <div className="text-white/40 text-xs mt-3">Listing #{listing.listingId} · Token #{listing.tokenId}</div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
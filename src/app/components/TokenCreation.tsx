@@ -4,12 +4,14 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAccount, useChainId } from 'wagmi';
 import { TokenSuggestion } from '../services/tokenizeAgent';
-import { getContractService, TokenCreationParams } from '../services/contractService';
+import { getContractService, TokenCreationParams, KYCLevelInsufficient } from '../services/contractService';
 import { isSupportedChain, getChainDisplayName } from '../lib/wagmi';
 import { getAlertAgent } from '../services/alertAgent';
 import { validateTokenCreation } from '../utils/validation';
 import { useErrorHandler } from './ErrorBoundary';
 import { FEATURE_FLAGS } from '../shared/constants';
+import { getTokenMetadataService } from '../services/tokenMetadata';
+import { PriceUnavailable, getPriceService } from '../services/priceService';
 
 interface TokenCreationProps {
   suggestion: TokenSuggestion;
@@ -30,10 +32,13 @@ export default function TokenCreation({ suggestion, onSuccess, onCancel }: Token
   });
   const [gasEstimate, setGasEstimate] = useState<string>('');
   const [escrowEnabled, setEscrowEnabled] = useState(true); // Default to enabled for demo
-  const [escrowTimeoutDays, setEscrowTimeoutDays] = useState(FEATURE_FLAGS.ESCROW_TIMEOUT_DAYS);
+  const [escrowTimeoutDays, setEscrowTimeoutDays] = useState<number>(FEATURE_FLAGS.ESCROW_TIMEOUT_DAYS);
+  const [usdPricing, setUsdPricing] = useState(false);
+  const [acceptedAssets, setAcceptedAssets] = useState<string[]>([]);
   
   const contractService = getContractService();
   const alertAgent = getAlertAgent();
+  const stablecoins = getPriceService().getPaymentAssets(chainId).filter(asset => asset.usdPegged);
   const { captureError } = useErrorHandler();
 
   useEffect(() => {
@@ -137,7 +142,11 @@ export default function TokenCreation({ suggestion, onSuccess, onCancel }: Token
         serviceName: customizations.serviceName,
         pricePerHour: customizations.pricePerHour,
         totalHours: customizations.totalHours,
-        validityDays: customizations.validityDays
+        validityDays: customizations.validityDays,
+        escrowTimeoutDays: FEATURE_FLAGS.ESCROW_ENABLED && escrowEnabled ? escrowTimeoutDays : undefined,
+        pricingMode: FEATURE_FLAGS.USD_PRICING_ENABLED && usdPricing ? 'usd' : 'native',
+        acceptedAssets: FEATURE_FLAGS.STABLECOIN_PAYMENTS_ENABLED ? acceptedAssets : [],
+        metadata: getTokenMetadataService().fromSuggestion(suggestion, customizations)
       };
 
       console.log('🚀 Creating token with params:', params);
@@ -176,6 +185,11 @@ export default function TokenCreation({ suggestion, onSuccess, onCancel }: Token
       let errorMessage = 'Token creation failed. Please try again.';
       let errorTitle = '❌ Token Creation Failed';
       
+      if (error instanceof PriceUnavailable || error instanceof KYCLevelInsufficient) {
+        // ContractService has already raised the alert; just return to customization
+        return;
+      }
+
       if (error instanceof Error) {
         if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
           errorMessage = 'Insufficient balance for token creation and gas fees.';
@@ -293,6 +307,42 @@ export default function TokenCreation({ suggestion, onSuccess, onCancel }: Token
                         step="1"
                         className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:border-white/50"
                       />
+                      {FEATURE_FLAGS.USD_PRICING_ENABLED && (
+                        <label className="flex items-start gap-2 mt-3 text-sm text-white/80 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={usdPricing}
+                            onChange={(e) => setUsdPricing(e.target.checked)}
+                            className="mt-1"
+                          />
+                          <span>
+                            💵 Keep price fixed in USD
+                            <span className="block text-white/50 text-xs">
+                              {usdPricing
+                                ? 'Buyers pay the native amount worth this many dollars at the moment they purchase.'
+                                : 'The price is converted to native currency once now and then moves with the market.'}
+                            </span>
+                          </span>
+                        </label>
+                      )}
+                      {FEATURE_FLAGS.STABLECOIN_PAYMENTS_ENABLED && stablecoins.map(asset => (
+                        <label key={asset.address} className="flex items-start gap-2 mt-3 text-sm text-white/80 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={acceptedAssets.includes(asset.address)}
+                            onChange={(e) => setAcceptedAssets(prev => e.target.checked
+                              ? [...prev, asset.address]
+                              : prev.filter(candidate => candidate !== asset.address))}
+                            className="mt-1"
+                          />
+                          <span>
+                            {asset.icon} Also accept {asset.symbol} at {customizations.pricePerHour.toFixed(2)} {asset.symbol}/hour
+                            <span className="block text-white/50 text-xs">
+                              Needs one more confirmation after the token is created.
+                            </span>
+                          </span>
+                        </label>
+                      ))}
                     </div>
 
                     {/* Total Hours */}
@@ -367,10 +417,10 @@ export default function TokenCreation({ suggestion, onSuccess, onCancel }: Token
                             <div className="bg-white/5 rounded-lg p-3">
                               <h4 className="text-white/80 font-medium text-sm mb-2">🛡️ How Escrow Works:</h4>
                               <div className="space-y-1 text-xs text-white/60">
-                                <div>1. Buyer payment held in smart contract</div>
-                                <div>2. Seller delivers the promised service</div>
-                                <div>3. Buyer confirms completion or auto-release</div>
-                                <div>4. Payment transferred to seller</div>
+                                <div>1. Buyer payment and hours held in smart contract</div>
+                                <div>2. Seller delivers the service and marks it completed</div>
+                                <div>3. Buyer confirms, or {FEATURE_FLAGS.ESCROW_COMPLETION_DISPUTE_DAYS} days pass without a dispute</div>
+                                <div>4. Payment transferred to seller, hours to buyer</div>
                               </div>
                             </div>
                             <div className="flex items-center gap-2 text-xs text-white/50">
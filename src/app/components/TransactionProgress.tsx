@@ -1,13 +1,14 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAccount, useWriteContract, useChainId, useWaitForTransactionReceipt } from 'wagmi';
-import { TokenBundle } from '../services/tokenizeAgent';
-import { CreateTokenParams, ParameterValidationService } from '../services/parameterValidation';
-import { TIME_TOKEN_CONTRACT_ADDRESSES } from '../shared/constants';
-import { TIME_TOKEN_ABI } from '../abi/TimeToken.abi';
-import { parseEther } from 'viem';
+import { useChainId } from 'wagmi';
+import { formatEther } from 'viem';
+import { TokenBundle, TokenSuggestion } from '../services/tokenizeAgent';
+import { ParameterValidationService } from '../services/parameterValidation';
+import { getContractService, TokenCreationParams } from '../services/contractService';
+import { getTokenMetadataService } from '../services/tokenMetadata';
+import { getPriceService } from '../services/priceService';
 
 interface TransactionProgressProps {
   bundle: TokenBundle;
@@ -15,10 +16,15 @@ interface TransactionProgressProps {
   onError: () => void;
 }
 
+// 'bundle' mints every token with a single signature, 'sequential' signs one transaction per token
+type CreationMode = 'bundle' | 'sequential';
+
 interface TokenCreationStep {
   id: string;
   serviceName: string;
   status: 'pending' | 'preparing' | 'signing' | 'confirming' | 'completed' | 'failed';
+  nativePricePerHour?: bigint; // Price Feed conversion of the USD rate, quoted before signing
+  quoteError?: string;
   txHash?: string;
   tokenId?: string;
   error?: string;
@@ -29,143 +35,67 @@ export default function TransactionProgress({
   onComplete, 
   onError 
 }: TransactionProgressProps) {
-  const { address } = useAccount();
   const chainId = useChainId();
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [steps, setSteps] = useState<TokenCreationStep[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [completedTokenIds, setCompletedTokenIds] = useState<string[]>([]);
-  const [isCancelled, setIsCancelled] = useState(false);
-  const [transactionTimeout, setTransactionTimeout] = useState<NodeJS.Timeout | null>(null);
-
-  // Contract write hook
-  const { writeContract: createToken, data: txHash, isPending: isWriting } = useWriteContract();
+  const [mode, setMode] = useState<CreationMode | null>(null);
+  const cancelledRef = useRef(false);
 
-  // Transaction wait hook
-  const { isLoading: isConfirming, isSuccess, isError, error: txError } = useWaitForTransactionReceipt({
-    hash: txHash,
-  });
+  const contractService = getContractService();
+  const priceService = getPriceService();
+  const tokenMetadata = getTokenMetadataService();
+  const currencySymbol = priceService.getCurrentCurrencyInfo(chainId).symbol;
 
   // Initialize steps from bundle tokens
   useEffect(() => {
     console.log('🔍 TransactionProgress: Initializing steps from bundle tokens');
     console.log('Bundle:', bundle);
-    console.log('Tokens in bundle:', bundle.tokens);
     
-    const initialSteps: TokenCreationStep[] = bundle.tokens.map((token, index) => {
-      console.log(`Token ${index}:`, token.serviceName);
-      return {
-        id: `step-${index}`,
-        serviceName: token.serviceName,
-        status: index === 0 ? 'pending' : 'pending'
-      };
-    });
+    const initialSteps: TokenCreationStep[] = bundle.tokens.map((token, index) => ({
+      id: `step-${index}`,
+      serviceName: token.serviceName,
+      status: 'pending'
+    }));
     
     console.log('Generated steps:', initialSteps);
     setSteps(initialSteps);
+    quoteNativePrices();
   }, [bundle.tokens]);
 
-  // Start processing when component mounts
+  // Start processing once a creation mode has been chosen
   useEffect(() => {
-    if (steps.length > 0 && !isProcessing && !isCancelled) {
+    if (mode && steps.length > 0 && !isProcessing && !cancelledRef.current) {
       setIsProcessing(true);
-      processNextToken();
-    }
-  }, [steps]);
-
-  // Process next token when currentStepIndex changes
-  useEffect(() => {
-    if (currentStepIndex > 0 && currentStepIndex < bundle.tokens.length && !isCancelled) {
-      console.log(`🔄 currentStepIndex changed to ${currentStepIndex}, processing next token...`);
-      processNextToken();
-    }
-  }, [currentStepIndex]);
-
-  // Handle transaction state changes
-  useEffect(() => {
-    if (txHash && currentStepIndex < steps.length) {
-      updateStepStatus(currentStepIndex, 'confirming', { txHash: txHash });
-      
-      // Set a 2-minute timeout for the transaction
-      const timeout = setTimeout(() => {
-        if (!isSuccess && !isError && !isCancelled) {
-          console.warn('⏰ Transaction timeout after 2 minutes');
-          updateStepStatus(currentStepIndex, 'failed', { 
-            error: 'Transaction timed out. The blockchain network may be congested.' 
-          });
-          setTimeout(() => {
-            onError();
-          }, 2000);
-        }
-      }, 120000); // 2 minutes
-      
-      setTransactionTimeout(timeout);
-    }
-  }, [txHash]);
-
-  useEffect(() => {
-    if (isSuccess && currentStepIndex < steps.length && !isCancelled) {
-      console.log(`✅ Transaction ${currentStepIndex + 1} successful!`);
-      console.log(`Current step: ${currentStepIndex + 1}/${bundle.tokens.length}`);
-      
-      // Clear the timeout since transaction succeeded
-      if (transactionTimeout) {
-        clearTimeout(transactionTimeout);
-        setTransactionTimeout(null);
+      if (mode === 'bundle') {
+        processBundle();
+      } else {
+        processTokens();
       }
-      
-      // Generate a mock token ID (in real implementation, this would come from contract events)
-      const tokenId = `token-${Date.now()}-${currentStepIndex}`;
-      updateStepStatus(currentStepIndex, 'completed', { tokenId });
-      setCompletedTokenIds(prev => [...prev, tokenId]);
-      
-      // Move to next token or complete
-      setTimeout(() => {
-        if (!isCancelled && currentStepIndex + 1 < bundle.tokens.length) {
-          const nextIndex = currentStepIndex + 1;
-          console.log(`🔄 Moving to next token: ${currentStepIndex + 1} → ${nextIndex + 1}`);
-          setCurrentStepIndex(nextIndex);
-          // Don't call processNextToken() here - let the useEffect handle it
-        } else if (!isCancelled) {
-          console.log(`🎉 All ${bundle.tokens.length} tokens completed!`);
-          // All tokens completed
-          setTimeout(() => {
-            if (!isCancelled) {
-              onComplete([...completedTokenIds, tokenId]);
-            }
-          }, 1000);
-        }
-      }, 1000);
     }
-  }, [isSuccess]);
-
-  useEffect(() => {
-    if (isError && currentStepIndex < steps.length) {
-      // Clear the timeout since transaction failed
-      if (transactionTimeout) {
-        clearTimeout(transactionTimeout);
-        setTransactionTimeout(null);
+  }, [steps, mode]);
+
+  // Show what each USD rate converts to before anything is signed
+  const quoteNativePrices = async () => {
+    await Promise.all(bundle.tokens.map(async (token, index) => {
+      try {
+        const params = ParameterValidationService.tokenSuggestionToParams(token);
+        const nativePricePerHour = await contractService.quoteTokenCreation(params, chainId);
+        setSteps(prev => prev.map((step, i) => i === index ? { ...step, nativePricePerHour } : step));
+      } catch (error) {
+        console.warn('⚠️ Could not quote native price for', token.serviceName, error);
+        setSteps(prev => prev.map((step, i) =>
+          i === index ? { ...step, quoteError: error instanceof Error ? error.message : 'Price unavailable' } : step
+        ));
       }
-      
-      const errorMessage = txError ? txError.message : 'Transaction failed. Please try again.';
-      console.error('❌ Transaction failed:', txError);
-      updateStepStatus(currentStepIndex, 'failed', { 
-        error: errorMessage
-      });
-      setTimeout(() => {
-        onError();
-      }, 2000);
-    }
-  }, [isError, txError]);
+    }));
+  };
 
-  // Cleanup timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (transactionTimeout) {
-        clearTimeout(transactionTimeout);
-      }
-    };
-  }, [transactionTimeout]);
+  // Contract parameters plus the ERC-1155 metadata document the suggestion describes
+  const toCreationParams = (token: TokenSuggestion): TokenCreationParams => {
+    const params = ParameterValidationService.tokenSuggestionToParams(token);
+    return { ...params, metadata: tokenMetadata.fromSuggestion(token, params) };
+  };
 
   const updateStepStatus = (
     stepIndex: number, 
@@ -181,7 +111,7 @@ export default function TransactionProgress({
 
   const handleCancel = () => {
     console.log('❌ Transaction process cancelled');
-    setIsCancelled(true);
+    cancelledRef.current = true;
     setIsProcessing(false);
     
     // Update current step to cancelled if not completed
@@ -194,55 +124,86 @@ export default function TransactionProgress({
     onError();
   };
 
-  const processNextToken = async () => {
-    if (currentStepIndex >= bundle.tokens.length || isCancelled) return;
+  // Create the tokens one transaction at a time through the same pipeline as manual creation
+  const processTokens = async () => {
+    const tokenIds: string[] = [];
+
+    for (let index = 0; index < bundle.tokens.length; index++) {
+      if (cancelledRef.current) return;
+
+      const token = bundle.tokens[index];
+      console.log(`🚀 Processing token ${index + 1}/${bundle.tokens.length}:`, token.serviceName);
+      setCurrentStepIndex(index);
+      updateStepStatus(index, 'signing');
+
+      try {
+        const result = await contractService.createTimeToken(toCreationParams(token), hash => {
+          updateStepStatus(index, 'confirming', { txHash: hash });
+        });
+
+        updateStepStatus(index, 'completed', { tokenId: result.tokenId });
+        tokenIds.push(result.tokenId);
+      } catch (error) {
+        console.error('Token creation failed:', error);
+        updateStepStatus(index, 'failed', { 
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+        setTimeout(() => {
+          onError();
+        }, 2000);
+        return;
+      }
+    }
 
-    const token = bundle.tokens[currentStepIndex];
-    console.log(`🚀 Processing token ${currentStepIndex}:`, token);
-    console.log('Service Name:', token.serviceName);
-    console.log('Full token object:', JSON.stringify(token, null, 2));
-    
-    updateStepStatus(currentStepIndex, 'preparing');
+    if (cancelledRef.current) return;
 
-    try {
-      // Convert token suggestion to contract parameters
-      const params: CreateTokenParams = ParameterValidationService.tokenSuggestionToParams(token);
-      console.log('Converted params:', params);
-      
-      // Validate parameters one more time
-      const validation = ParameterValidationService.validateTokenCreation(params);
-      if (!validation.isValid) {
-        throw new Error(`Invalid parameters: ${validation.errors.join(', ')}`);
-      }
+    console.log(`🎉 All ${bundle.tokens.length} tokens completed!`);
+    setCurrentStepIndex(bundle.tokens.length);
+    setTimeout(() => {
+      onComplete(tokenIds);
+    }, 1000);
+  };
+
+  const processBundle = async () => {
+    console.log(`📦 Creating all ${bundle.tokens.length} tokens in one transaction`);
+    setSteps(prev => prev.map(step => ({ ...step, status: 'signing' })));
 
-      updateStepStatus(currentStepIndex, 'signing');
-
-      console.log(`📤 Calling createToken for token ${currentStepIndex + 1}: "${params.serviceName}"`);
-      // Call smart contract
-      createToken({
-        address: TIME_TOKEN_CONTRACT_ADDRESSES[chainId as keyof typeof TIME_TOKEN_CONTRACT_ADDRESSES] as `0x${string}`,
-        abi: TIME_TOKEN_ABI,
-        functionName: 'createTimeToken',
-        args: [
-          address!,
-          params.serviceName,
-          parseEther(params.pricePerHour.toString()),
-          BigInt(Math.round(params.totalHours)),
-          BigInt(Math.round(params.validityDays))
-        ]
+    try {
+      const params = bundle.tokens.map(token => toCreationParams(token));
+      const result = await contractService.createBundle(params, hash => {
+        setSteps(prev => prev.map(step => ({ ...step, status: 'confirming', txHash: hash })));
       });
 
+      setSteps(prev => prev.map((step, index) => ({
+        ...step,
+        status: 'completed',
+        tokenId: result.tokenIds[index]
+      })));
+      setCurrentStepIndex(bundle.tokens.length);
+
+      console.log(`🎉 All ${bundle.tokens.length} tokens completed!`);
+      setTimeout(() => {
+        onComplete(result.tokenIds);
+      }, 1000);
+
     } catch (error) {
-      console.error('Token creation failed:', error);
-      updateStepStatus(currentStepIndex, 'failed', { 
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      });
+      console.error('Bundle creation failed:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      setSteps(prev => prev.map(step => ({ ...step, status: 'failed', error: message })));
       setTimeout(() => {
         onError();
       }, 2000);
     }
   };
 
+  const formatNativePrice = (step?: TokenCreationStep) => {
+    if (!step) return '';
+    if (step.nativePricePerHour !== undefined) {
+      return `≈ ${parseFloat(formatEther(step.nativePricePerHour)).toFixed(4)} ${currencySymbol}/hr`;
+    }
+    return step.quoteError ? 'Native price unavailable' : `Quoting ${currencySymbol} price...`;
+  };
+
   const getStepIcon = (status: TokenCreationStep['status']) => {
     switch (status) {
       case 'pending': return '⏳';
@@ -271,7 +232,9 @@ export default function TransactionProgress({
     switch (step.status) {
       case 'pending': return 'Waiting to start...';
       case 'preparing': return 'Preparing transaction parameters...';
-      case 'signing': return 'Please sign the transaction in your wallet';
+      case 'signing': return mode === 'bundle'
+        ? 'Sign once in your wallet to create every token in this bundle'
+        : 'Please sign the transaction in your wallet';
       case 'confirming': return 'Waiting for blockchain confirmation...';
       case 'completed': return `Token created successfully! ID: ${step.tokenId}`;
       case 'failed': return step.error || 'Transaction failed';
@@ -321,8 +284,63 @@ export default function TransactionProgress({
           </div>
         </motion.div>
 
+        {/* Creation Mode Choice */}
+        {!mode && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-gray-50 border border-gray-200 rounded-lg p-6 mb-8"
+          >
+            <h3 className="text-black font-bold text-lg mb-4">How do you want to sign?</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <button
+                onClick={() => setMode('bundle')}
+                className="text-left bg-white border-2 border-black rounded-lg p-4 hover:bg-gray-100 transition-all"
+              >
+                <div className="text-black font-semibold mb-1">📦 One signature for the whole bundle</div>
+                <div className="text-gray-600 text-sm">
+                  All {bundle.tokens.length} tokens are created in a single transaction. If any of them fails, none are created.
+                </div>
+              </button>
+              <button
+                onClick={() => setMode('sequential')}
+                className="text-left bg-white border border-gray-200 rounded-lg p-4 hover:bg-gray-100 transition-all"
+              >
+                <div className="text-black font-semibold mb-1">✍️ One transaction per token</div>
+                <div className="text-gray-600 text-sm">
+                  Sign {bundle.tokens.length} separate transactions. Tokens created before a failure are kept.
+                </div>
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Bundle Transaction Highlight */}
+        {mode === 'bundle' && currentStep && currentStep.status !== 'completed' && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-gray-50 border border-gray-200 rounded-lg p-6 mb-8"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-black font-bold text-lg">Creating Bundle</h3>
+              <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStepColor(currentStep.status)}`}>
+                {getStepIcon(currentStep.status)} {currentStep.status.toUpperCase()}
+              </span>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center gap-3">
+                <div className={`w-3 h-3 rounded-full ${
+                  currentStep.status === 'signing' ? 'animate-pulse bg-blue-500' : 'bg-gray-300'
+                }`} />
+                <span className="text-gray-700 text-sm">{getStepMessage(currentStep)}</span>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
         {/* Current Step Highlight */}
-        {currentStep && currentStep.status !== 'completed' && (
+        {mode === 'sequential' && currentStep && currentStep.status !== 'completed' && (
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -334,7 +352,7 @@ export default function TransactionProgress({
                 {getStepIcon(currentStep.status)} {currentStep.status.toUpperCase()}
               </span>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
               <div>
                 <div className="text-gray-500 text-sm">Service</div>
                 <div className="text-black font-semibold">{currentStep.serviceName}</div>
@@ -345,6 +363,10 @@ export default function TransactionProgress({
                   {formatCurrency(bundle.tokens[currentStepIndex]?.estimatedRevenue || 0)}
                 </div>
               </div>
+              <div>
+                <div className="text-gray-500 text-sm">Minted Rate</div>
+                <div className="text-black font-semibold">{formatNativePrice(currentStep)}</div>
+              </div>
             </div>
             <div className="bg-white border border-gray-200 rounded-lg p-4">
               <div className="flex items-center gap-3">
@@ -374,7 +396,7 @@ export default function TransactionProgress({
           <h3 className="text-black font-bold text-lg mb-4">Token Creation Progress</h3>
           {steps.map((step, index) => {
             const token = bundle.tokens[index];
-            const isActive = index === currentStepIndex;
+            const isActive = mode === 'sequential' && index === currentStepIndex;
             
             return (
               <motion.div
@@ -407,6 +429,9 @@ export default function TransactionProgress({
                     <div className="text-gray-500 text-sm">
                       {formatCurrency(token?.suggestedPricePerHour || 0)}/hr × {token?.suggestedTotalHours || 0}h
                     </div>
+                    <div className={`text-xs ${step.quoteError ? 'text-red-500' : 'text-gray-500'}`}>
+                      {formatNativePrice(step)}
+                    </div>
                   </div>
                 </div>
                 
@@ -457,9 +482,20 @@ export default function TransactionProgress({
         >
           <h4 className="text-blue-800 font-semibold mb-2">💡 What's Happening?</h4>
           <div className="text-blue-700 text-sm space-y-1">
-            <div>• Each token requires a separate blockchain transaction</div>
-            <div>• Your wallet will prompt you to sign each transaction</div>
-            <div>• Transactions are processed sequentially for better reliability</div>
+            {mode === 'bundle' ? (
+              <>
+                <div>• All tokens are created together in one blockchain transaction</div>
+                <div>• Your wallet will prompt you to sign only once</div>
+                <div>• If any token is invalid, the whole bundle is rejected and nothing is created</div>
+              </>
+            ) : (
+              <>
+                <div>• Each token requires a separate blockchain transaction</div>
+                <div>• Your wallet will prompt you to sign each transaction</div>
+                <div>• Transactions are processed sequentially for better reliability</div>
+              </>
+            )}
+            <div>• USD rates are converted to {currencySymbol} with Chainlink Price Feeds when each token is minted</div>
             <div>• Once completed, your tokens will be available in the marketplace</div>
             <div>• Keep this tab open until all transactions are complete</div>
           </div>
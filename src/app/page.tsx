@@ -21,7 +21,8 @@ import { TokenSuggestion } from './services/tokenizeAgent';
 import { useTimeTokenizerStorage } from './hooks/useLocalStorage';
 import { UserAnswers, getKYCStatus, saveKYCStatus, clearKYCStatus, localStorage_utils } from './utils/localStorage';
 import { isSupportedChain, getChainDisplayName } from './lib/wagmi';
-import { KYCResult } from './services/unifiedKycAgent';
+import { KYCResult, getUnifiedKYCAgent } from './services/unifiedKycAgent';
+import { KYC_RECHECK_INTERVAL } from './shared/constants';
 
 type AppState = 'landing' | 'kyc_verification' | 'questionnaire' | 'processing' | 'portfolio' | 'tokenization' | 'token_creation' | 'marketplace' | 'dashboard';
 
@@ -140,6 +141,34 @@ export default function Home() {
     }
   }, [isInitialized, isConnected, storage]);
 
+  // The cached KYC flag is only a hint; the on-chain pass can expire, be revoked or belong to another wallet.
+  // A pass on any KYC chain counts, so switching networks only re-runs the check.
+  const { updateAppState } = storage.appState;
+  // The pass is re-read on an interval too, so a revocation or expiry mid-session ends access.
+  useEffect(() => {
+    if (!isInitialized || !isConnected || !address || !kycVerified) return;
+
+    let cancelled = false;
+    const recheck = () => getUnifiedKYCAgent().checkKYCStatus(address, chainId).then(status => {
+      // An unknown status (e.g. RPC failure) keeps the session going
+      if (cancelled || status.hasAccess || !status.passStatus) return;
+
+      console.log(`🔐 KYC pass ${status.passStatus === 'none' ? 'not found' : status.passStatus} - re-verification required`);
+      setKycVerified(false);
+      setKycResult(null);
+      clearKYCStatus();
+      updateAppState('kyc_verification');
+    });
+
+    recheck();
+    const interval = setInterval(recheck, KYC_RECHECK_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isInitialized, isConnected, address, chainId, kycVerified, updateAppState]);
+
   // Handle chain validation
   useEffect(() => {
     if (isConnected && chainId) {
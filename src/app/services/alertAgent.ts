@@ -12,7 +12,7 @@ export interface AlertNotification {
   actionLabel?: string;
   metadata?: {
     tokenId?: string;
-    amount?: number;
+    amount?: number | string; // Formatted amounts read like "$12.50" or "0.2500 AVAX"
     buyer?: string;
     seller?: string;
     contractAddress?: string;
@@ -149,7 +149,7 @@ export class AlertAgent {
   }
 
   // Check if we're in quiet hours
-  private isQuietHours(): boolean {
+  isQuietHours(): boolean {
     const now = new Date();
     const currentTime = now.getHours().toString().padStart(2, '0') + ':' + now.getMinutes().toString().padStart(2, '0');
     
@@ -321,11 +321,11 @@ export class AlertAgent {
     };
   }
 
-  static createTokenPurchasedAlert(tokenId: string, serviceName: string, buyer: string, hours: number, amount: number): Omit<AlertNotification, 'id' | 'timestamp' | 'read'> {
+  static createTokenPurchasedAlert(tokenId: string, serviceName: string, buyer: string, hours: number, amount: string): Omit<AlertNotification, 'id' | 'timestamp' | 'read'> {
     return {
       type: 'token_purchased',
       title: '💰 Token Purchased!',
-      message: `${buyer.slice(0, 6)}... bought ${hours}h of "${serviceName}" for $${amount}`,
+      message: `${buyer.slice(0, 6)}... bought ${hours}h of "${serviceName}" for ${amount}`,
       priority: 'high',
       actionUrl: `/tokens/${tokenId}`,
       actionLabel: 'View Details',
@@ -345,11 +345,11 @@ export class AlertAgent {
     };
   }
 
-  static createPaymentReceivedAlert(amount: number, serviceName: string): Omit<AlertNotification, 'id' | 'timestamp' | 'read'> {
+  static createPaymentReceivedAlert(amount: string, serviceName: string): Omit<AlertNotification, 'id' | 'timestamp' | 'read'> {
     return {
       type: 'payment_received',
       title: '💳 Payment Received',
-      message: `Received $${amount} payment for "${serviceName}"`,
+      message: `Received ${amount} payment for "${serviceName}"`,
       priority: 'high',
       actionUrl: '/dashboard/earnings',
       actionLabel: 'View Earnings',
@@ -357,17 +357,18 @@ export class AlertAgent {
     };
   }
 
-  static createTokenExpiryAlert(tokenId: string, serviceName: string, daysLeft: number): Omit<AlertNotification, 'id' | 'timestamp' | 'read'> {
+  static createTokenExpiryAlert(tokenId: string, serviceName: string, daysLeft: number, purchased = false): Omit<AlertNotification, 'id' | 'timestamp' | 'read'> {
+    const subject = purchased ? `Your hours of "${serviceName}"` : `"${serviceName}" token`;
     return {
       type: 'token_expired',
       title: daysLeft > 0 ? '⏰ Token Expiring Soon' : '🔴 Token Expired',
       message: daysLeft > 0 
-        ? `"${serviceName}" token expires in ${daysLeft} days`
-        : `"${serviceName}" token has expired`,
-      priority: daysLeft > 0 ? 'medium' : 'high',
+        ? `${subject} ${purchased ? 'expire' : 'expires'} in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`
+        : `${subject} ${purchased ? 'have' : 'has'} expired`,
+      priority: daysLeft > 1 ? 'medium' : 'high',
       actionUrl: `/tokens/${tokenId}`,
-      actionLabel: 'Manage Token',
-      metadata: { tokenId }
+      actionLabel: purchased ? 'View Token' : 'Manage Token',
+      metadata: { tokenId, serviceName }
     };
   }
 
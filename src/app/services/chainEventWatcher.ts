@@ -0,0 +1,251 @@
+'use client';
+
+import { getPublicClient } from '@wagmi/core';
+import { formatUnits } from 'viem';
+import { config, getContractAddress } from '../lib/wagmi';
+import { TIME_TOKEN_ABI } from '../abi/TimeToken.abi';
+import { INDEXER_CONFIG } from '../shared/constants';
+import { getAlertAgent, AlertAgent, AlertNotification } from './alertAgent';
+import { getPriceService } from './priceService';
+import { getTokenIndexer } from './tokenIndexer';
+
+// Turns TimeTokenPurchased and ServiceCompleted events on the connected wallet's
+// tokens into alerts, including ones sent from other wallets or tabs. A per-wallet
+// block cursor lets it catch up on whatever happened while the app was closed.
+
+type PublicClient = NonNullable<ReturnType<typeof getPublicClient>>;
+type ContractLog = Awaited<ReturnType<PublicClient['getContractEvents']>>[number];
+type Alert = Omit<AlertNotification, 'id' | 'timestamp' | 'read'>;
+
+interface WalletTokens {
+  created: Set<string>;
+  held: Set<string>;
+  names: Map<string, string>; // Service name by token id
+}
+
+const STORAGE_PREFIX = 'timeTokenizer_eventCursor';
+
+export class ChainEventWatcher {
+  private watchers: Map<string, { count: number; unwatch: () => void }> = new Map();
+  private syncs: Map<string, Promise<void>> = new Map();
+
+  // Follow a wallet's events on a chain; returns an unsubscribe function
+  watch(chainId: number, account: string): () => void {
+    const key = this.getStorageKey(chainId, account);
+    const existing = this.watchers.get(key);
+
+    if (existing) {
+      existing.count++;
+    } else {
+      const catchUp = () => {
+        this.catchUp(chainId, account).catch(error => console.error('❌ Event watcher catch-up failed:', error));
+      };
+      catchUp();
+
+      // New logs only trigger a catch-up, so the cursor stays the single source of truth
+      const client = this.getClient(chainId);
+      const unwatch = client.watchContractEvent({
+        address: getContractAddress(chainId) as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        pollingInterval: INDEXER_CONFIG.POLL_INTERVAL,
+        onLogs: catchUp,
+        onError: (error: Error) => console.error('❌ Event watcher subscription failed:', error)
+      });
+      this.watchers.set(key, { count: 1, unwatch });
+    }
+
+    return () => {
+      const watcher = this.watchers.get(key);
+      if (!watcher) return;
+      watcher.count--;
+      if (watcher.count === 0) {
+        watcher.unwatch();
+        this.watchers.delete(key);
+      }
+    };
+  }
+
+  // Alert on everything between the persisted cursor and the latest block
+  catchUp(chainId: number, account: string): Promise<void> {
+    const key = this.getStorageKey(chainId, account);
+    const inFlight = this.syncs.get(key);
+    if (inFlight) return inFlight;
+
+    const run = this.runCatchUp(chainId, account).finally(() => {
+      this.syncs.delete(key);
+    });
+    this.syncs.set(key, run);
+    return run;
+  }
+
+  private async runCatchUp(chainId: number, account: string): Promise<void> {
+    const client = this.getClient(chainId);
+    const address = getContractAddress(chainId) as `0x${string}`;
+    const latestBlock = await client.getBlockNumber();
+    const cursor = this.loadCursor(chainId, account);
+
+    // A wallet seen for the first time starts from now rather than replaying its history
+    if (cursor === null) {
+      this.saveCursor(chainId, account, latestBlock);
+      return;
+    }
+
+    // Ownership comes from the token index, which covers tokens created in the same blocks
+    const indexer = getTokenIndexer();
+    await indexer.sync(chainId);
+    const createdTokens = indexer.getTokens(chainId, { creator: account });
+    const heldTokens = indexer.getTokens(chainId, { buyer: account });
+    const tokens: WalletTokens = {
+      created: new Set(createdTokens.map(token => token.tokenId)),
+      held: new Set(heldTokens.map(token => token.tokenId)),
+      names: new Map([...createdTokens, ...heldTokens].map(token => [token.tokenId, token.serviceName]))
+    };
+
+    let fromBlock = cursor + BigInt(1);
+    let range = INDEXER_CONFIG.MAX_BLOCK_RANGE;
+    let sent = 0;
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = fromBlock + range - BigInt(1) < latestBlock ? fromBlock + range - BigInt(1) : latestBlock;
+
+      let logs;
+      try {
+        logs = await client.getContractEvents({ address, abi: TIME_TOKEN_ABI, fromBlock, toBlock });
+      } catch (error) {
+        // Same eth_getLogs limits as the token indexer
+        if (range <= INDEXER_CONFIG.MIN_BLOCK_RANGE) throw error;
+        range = range / BigInt(2);
+        continue;
+      }
+
+      const alerts = await this.toAlerts(client, address, chainId, account, logs, tokens);
+      const alertAgent = getAlertAgent();
+      alerts.forEach(alert => alertAgent.addNotification(alert));
+      sent += alerts.length;
+
+      this.saveCursor(chainId, account, toBlock);
+      fromBlock = toBlock + BigInt(1);
+      if (range < INDEXER_CONFIG.MAX_BLOCK_RANGE) {
+        range = range * BigInt(2);
+      }
+    }
+
+    if (sent > 0) {
+      console.log(`🔔 ${sent} on-chain event alert${sent === 1 ? '' : 's'} for ${account} on chain ${chainId}`);
+    }
+  }
+
+  // Alerts for the other party of each purchase or completion; the wallet's own actions already alert locally
+  private async toAlerts(
+    client: PublicClient,
+    address: `0x${string}`,
+    chainId: number,
+    account: string,
+    logs: ContractLog[],
+    { created, held, names }: WalletTokens
+  ): Promise<Alert[]> {
+    const wallet = account.toLowerCase();
+    const priceService = getPriceService();
+    const alerts: Alert[] = [];
+
+    const serviceName = (tokenId: string) => names.get(tokenId) ?? `Token #${tokenId}`;
+    const inTransaction = (log: ContractLog, eventName: string) =>
+      logs.filter(other => other.transactionHash === log.transactionHash && other.eventName === eventName);
+    const withMeta = (alert: Alert, log: ContractLog): Alert => ({
+      ...alert,
+      metadata: { ...alert.metadata, chainId, contractAddress: address, transactionHash: log.transactionHash ?? undefined }
+    });
+    // Valued at the feed price in effect at the event's block; asset units when there is none
+    const formatAmount = async (amount: bigint, asset: string, log: ContractLog) => {
+      const assetConfig = priceService.isNativeAsset(asset) ? null : priceService.getPaymentAsset(asset, chainId);
+      const units = Number(formatUnits(amount, assetConfig?.decimals ?? 18));
+      if (assetConfig?.usdPegged) return `$${units.toFixed(2)}`;
+
+      const priceData = assetConfig || log.blockNumber === null ? null : await priceService.getPriceAtBlock(log.blockNumber, chainId);
+      return priceData
+        ? `$${(units * priceData.price).toFixed(2)}`
+        : `${units.toFixed(4)} ${priceService.getAssetSymbol(asset, chainId)}`;
+    };
+
+    for (const log of logs) {
+      if (log.eventName === 'TimeTokenPurchased') {
+        const args = log.args as { tokenId: bigint; buyer: string; hoursAmount: bigint; totalPrice: bigint; paymentAsset: string };
+        const tokenId = args.tokenId.toString();
+        if (!created.has(tokenId) || args.buyer.toLowerCase() === wallet) continue;
+
+        const name = serviceName(tokenId);
+        const amount = await formatAmount(args.totalPrice, args.paymentAsset, log);
+        alerts.push(withMeta(AlertAgent.createTokenPurchasedAlert(tokenId, name, args.buyer, Number(args.hoursAmount), amount), log));
+
+        // Escrowed payments reach the creator when the escrow is released, not at purchase
+        if (inTransaction(log, 'EscrowCreated').length === 0) {
+          alerts.push(withMeta(AlertAgent.createPaymentReceivedAlert(amount, name), log));
+        }
+      } else if (log.eventName === 'ServiceCompleted') {
+        const args = log.args as { tokenId: bigint; buyer: string; hoursCompleted: bigint };
+        const tokenId = args.tokenId.toString();
+        const released = inTransaction(log, 'EscrowReleased')[0];
+        const alert = AlertAgent.createServiceCompletedAlert(tokenId, serviceName(tokenId), Number(args.hoursCompleted));
+
+        if (released && created.has(tokenId) && args.buyer.toLowerCase() !== wallet) {
+          // The buyer released their escrow, which also pays the creator
+          const escrowArgs = released.args as { escrowId: bigint; amount: bigint };
+          const escrow = await client.readContract({ address, abi: TIME_TOKEN_ABI, functionName: 'getEscrow', args: [escrowArgs.escrowId] });
+          alerts.push(withMeta(alert, log));
+          alerts.push(withMeta(AlertAgent.createPaymentReceivedAlert(await formatAmount(escrowArgs.amount, escrow.paymentAsset, log), serviceName(tokenId)), log));
+        } else if (!released && held.has(tokenId) && args.buyer.toLowerCase() === wallet && !created.has(tokenId)) {
+          // The creator marked the buyer's hours as delivered
+          alerts.push(withMeta(alert, log));
+        }
+      }
+    }
+
+    return alerts;
+  }
+
+  private getClient(chainId: number): PublicClient {
+    const client = getPublicClient(config, { chainId: chainId as (typeof config)['chains'][number]['id'] });
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+    return client;
+  }
+
+  private getStorageKey(chainId: number, account: string): string {
+    return `${STORAGE_PREFIX}_${chainId}_${account.toLowerCase()}`;
+  }
+
+  private loadCursor(chainId: number, account: string): bigint | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const stored = localStorage.getItem(this.getStorageKey(chainId, account));
+      return stored ? BigInt(stored) : null;
+    } catch (error) {
+      console.error('Failed to load event cursor:', error);
+      return null;
+    }
+  }
+
+  private saveCursor(chainId: number, account: string, block: bigint): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.getStorageKey(chainId, account), block.toString());
+    } catch (error) {
+      console.error('Failed to save event cursor:', error);
+    }
+  }
+}
+
+// Global chain event watcher instance
+let chainEventWatcherInstance: ChainEventWatcher | null = null;
+
+export const getChainEventWatcher = (): ChainEventWatcher => {
+  if (!chainEventWatcherInstance) {
+    chainEventWatcherInstance = new ChainEventWatcher();
+  }
+  return chainEventWatcherInstance;
+};
+
+export default ChainEventWatcher;
@@ -1,27 +1,58 @@
 'use client';
 
 import { writeContract, readContract, waitForTransactionReceipt, getAccount, getChainId } from '@wagmi/core';
-import { parseEther, formatEther, parseUnits, formatUnits } from 'viem';
-import { TIME_TOKEN_CONTRACT_ADDRESSES } from '../shared/constants';
+import { parseEther, formatEther, parseUnits, formatUnits, erc20Abi, zeroAddress } from 'viem';
+import { TIME_TOKEN_CONTRACT_ADDRESSES, FEATURE_FLAGS, USD_PRICING_CONFIG, PaymentAssetConfig, getResaleContract, TOKEN_STATUSES, TokenStatus } from '../shared/constants';
 import { TIME_TOKEN_ABI } from '../abi/TimeToken.abi';
+import { TIME_TOKEN_RESALE_ABI } from '../abi/TimeTokenResale.abi';
 import { getContractAddress } from '../lib/wagmi';
 import { config } from '../lib/wagmi';
 import { getAlertAgent } from './alertAgent';
 import { handleError } from '../utils/errorHandling';
-import { validateTokenCreation, validateWallet } from '../utils/validation';
-import { getPriceService } from './priceService';
+import { validateTokenCreation, validateWallet, validationService } from '../utils/validation';
+import { getPriceService, PriceUnavailable, PriceUnavailableReason } from './priceService';
+import { getTokenIndexer } from './tokenIndexer';
+import { KYCTierPolicy } from './kycTiers';
+import { ParameterValidationService } from './parameterValidation';
+import { getPurchaseLedger } from './purchaseLedger';
+import { getTokenMetadataService, TimeTokenMetadata } from './tokenMetadata';
+import {
+  TimeTokenCreatedEvent,
+  TimeTokenPurchasedEvent,
+  ServiceCompletedEvent,
+  getTimeTokenCreatedEvent,
+  getTimeTokenCreatedEvents,
+  getTimeTokenPurchasedEvent,
+  getServiceCompletedEvent,
+  ResaleFilledEvent,
+  getEscrowCreatedEvent,
+  getEscrowReleasedEvent,
+  getDisputeOpenedEvent,
+  getResaleListedEvent,
+  getResaleFilledEvent,
+  TimeTokenRepricedEvent,
+  TimeTokenExtendedEvent,
+  TimeTokenToppedUpEvent,
+  getTimeTokenRepricedEvent,
+  getTimeTokenExtendedEvent,
+  getTimeTokenToppedUpEvent,
+  TokenStatusChangedEvent,
+  getTokenStatusChangedEvent
+} from './timeTokenEvents';
 
 export interface TimeToken {
   tokenId: string;
   creator: string;
   serviceName: string;
-  pricePerHour: bigint;
+  pricePerHour: bigint; // 0 for USD-priced tokens
+  usdPricePerHour?: bigint; // Set for USD-priced tokens, in USD_PRICING_CONFIG.USD_DECIMALS
   totalHours: bigint;
   availableHours: bigint;
   validUntil: bigint;
-  isActive: boolean;
+  status: TokenStatus; // As stored on-chain; getTokenStatus() also accounts for expiry
   purchasedHours?: bigint; // For purchased tokens, track how many hours the user bought
   purchaseTimestamp?: number; // Track when the user purchased this token
+  metadataURI?: string; // ERC-1155 metadata JSON, for tokens minted with one
 }
 
 export interface TokenCreationParams {
@@ -29,17 +60,137 @@ export interface TokenCreationParams {
   pricePerHour: number; // in USD (will be converted to wei)
   totalHours: number;
   validityDays: number;
+  escrowTimeoutDays?: number; // When set, buyers can only purchase through escrow
+  pricingMode?: 'native' | 'usd'; // 'usd' stores the USD price on-chain instead of converting it once
+  acceptedAssets?: string[]; // USD-pegged ERC-20s to also accept at pricePerHour, set right after creation
+  metadata?: TimeTokenMetadata; // Published before minting; minimal metadata is built from the params otherwise
 }
 
 export interface TokenPurchaseParams {
   tokenId: string;
   hoursAmount: number;
   totalPrice: bigint;
+  maxTotalPrice?: bigint; // USD-priced tokens: the most the buyer accepts if the price moves; excess is refunded
+  paymentAsset?: string; // ERC-20 to pay in; omitted for the native currency. Amounts are in the asset's units.
+}
+
+export interface EscrowPurchaseParams extends TokenPurchaseParams {
+  timeoutDays: number; // Ignored on-chain if the creator set an escrow policy
+}
+
+export type EscrowStatus = 'none' | 'held' | 'released' | 'disputed' | 'resolved';
+
+export interface EscrowRecord {
+  escrowId: string;
+  tokenId: string;
+  buyer: string;
+  creator: string;
+  hoursAmount: bigint;
+  amount: bigint; // Service price owed to the creator
+  fee: bigint; // Platform fee paid by the buyer
+  paymentAsset: string; // Zero address for the native currency
+  createdAt: bigint;
+  releaseAfter: bigint;
+  status: EscrowStatus;
+}
+
+export interface TokenCreationResult {
+  hash: string;
+  tokenId: string;
+  event: TimeTokenCreatedEvent;
+}
+
+export interface BundleCreationResult {
+  hash: string;
+  tokenIds: string[]; // In bundle order
+  events: TimeTokenCreatedEvent[];
+}
+
+export interface EscrowPurchaseResult {
+  purchase: TimeTokenPurchasedEvent;
+  escrowId: string;
+}
+
+export interface TokenPaymentAsset {
+  asset: PaymentAssetConfig;
+  pricePerHour: bigint; // In the asset's smallest unit
+}
+
+export interface EscrowPolicy {
+  required: boolean;
+  timeoutDays: number;
+}
+
+// 'expired' covers open disputes past their deadline whether or not the refund was settled
+export type DisputeStatus = 'open' | 'resolved' | 'expired';
+
+export interface DisputeRecord {
+  disputeId: string;
+  escrowId: string;
+  buyer: string;
+  creator: string;
+  evidenceURI: string;
+  responseURI: string;
+  openedAt: bigint;
+  deadline: bigint;
+  buyerAmount: bigint;
+  creatorAmount: bigint;
+  paymentAsset: string; // From the disputed escrow; zero address for the native currency
+  resolvedBy: string;
+  status: DisputeStatus;
+  settled: boolean; // Funds have left escrow
+}
+
+const ESCROW_STATUSES: EscrowStatus[] = ['none', 'held', 'released', 'disputed', 'resolved'];
+
+// Mirrors TokenizeAI.DisputeStatus
+const ON_CHAIN_DISPUTE_STATUS = { NONE: 0, OPEN: 1, RESOLVED: 2, EXPIRED: 3 } as const;
+
+const EVIDENCE_URI_PATTERN = /^(ipfs|ar|https):\/\/\S+$/;
+
+// The GetWalletKYC views TokenizeAI consults before creating and buying
+const KYC_REGISTRY_ABI = [
+  { inputs: [{ name: 'wallet', type: 'address' }], name: 'hasKYCAccess', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'wallet', type: 'address' }], name: 'getKYCLevel', outputs: [{ name: '', type: 'uint8' }], stateMutability: 'view', type: 'function' }
+] as const;
+
+// KYC levels TokenizeAI requires; a level of 0 or no registry means no check
+export interface KYCPolicy {
+  registry: string | null;
+  minCreatorLevel: number;
+  minBuyerLevel: number;
+}
+
+export type KYCAction = 'create' | 'buy';
+
+// Raised before the wallet prompt when the on-chain KYC policy would reject the transaction
+export class KYCLevelInsufficient extends Error {
+  constructor(
+    public readonly action: KYCAction,
+    public readonly requiredLevel: number,
+    public readonly currentLevel: number
+  ) {
+    super(
+      `KYC level insufficient: ${action === 'create' ? 'creating tokens' : 'buying hours'} requires level ${requiredLevel}, ` +
+      (currentLevel > 0 ? `but this account is level ${currentLevel}` : 'but this account has no KYC NFT')
+    );
+    this.name = 'KYCLevelInsufficient';
+  }
+}
+
+export interface ResaleListing {
+  listingId: string;
+  tokenId: string;
+  seller: string;
+  hoursAmount: bigint; // Hours still for sale
+  pricePerHour: bigint; // In wei
+  createdAt: bigint;
+  active: boolean;
 }
 
 export interface ContractTransaction {
   hash: string;
-  type: 'create' | 'purchase' | 'complete' | 'deactivate';
+  type: 'create' | 'purchase' | 'complete' | 'deactivate' | 'escrow_purchase' | 'escrow_release' | 'escrow_claim' | 'dispute';
   status: 'pending' | 'confirmed' | 'failed';
   timestamp: number;
   tokenId?: string;
@@ -49,132 +200,330 @@ export interface ContractTransaction {
 export class ContractService {
   private alertAgent = getAlertAgent();
   private priceService = getPriceService();
+  private tokenMetadata = getTokenMetadataService();
 
   // Create a new time token
-  async createTimeToken(params: TokenCreationParams): Promise<{ hash: string; tokenId?: string }> {
+  async createTimeToken(
+    params: TokenCreationParams,
+    onSubmitted?: (hash: string) => void
+  ): Promise<TokenCreationResult> {
     try {
       console.log('🚀 Creating time token:', params);
 
+      const { creator, chainId, contractAddress } = this.prepareCreation([params]);
+      await this.assertKYCLevel('create', creator, chainId);
+      await this.assertTierLimits([params], creator, chainId);
+      const metadataURI = await this.publishMetadata(params);
+
+      // USD-priced tokens keep the dollar amount on-chain and are converted at each purchase
+      const hash = params.pricingMode === 'usd'
+        ? await writeContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'createUsdPricedTimeToken',
+          args: [
+            creator,
+            params.serviceName,
+            parseUnits(params.pricePerHour.toFixed(2), USD_PRICING_CONFIG.USD_DECIMALS),
+            BigInt(Math.round(params.totalHours)),
+            BigInt(Math.round(params.validityDays)),
+            BigInt(Math.round(params.escrowTimeoutDays ?? 0)),
+            metadataURI
+          ]
+        })
+        : await this.writeNativePricedToken(params, metadataURI, creator, contractAddress, chainId);
+
+      const [created] = await this.confirmCreation(hash, [params], contractAddress, onSubmitted);
+
+      // Each accepted asset is a separate creator transaction; a failure leaves the token native-only
+      for (const assetAddress of params.acceptedAssets ?? []) {
+        try {
+          await this.setTokenPaymentAsset(created.tokenId, assetAddress, params.pricePerHour);
+        } catch (assetError) {
+          console.warn('⚠️ Token created but payment asset was not set:', assetAddress, assetError);
+        }
+      }
+
+      return { hash, tokenId: created.tokenId, event: created };
+
+    } catch (error) {
+      console.error('❌ Failed to create time token:', error);
+
+      // Handle error using error handling system
+      const errorDetails = handleError(error, {
+        component: 'ContractService',
+        action: 'createTimeToken',
+        chainId: getChainId(config),
+        contractAddress: getContractAddress(getChainId(config))
+      }, { showNotification: !(error instanceof PriceUnavailable || error instanceof KYCLevelInsufficient) }); // Already notified above
+
+      throw error;
+    }
+  }
+
+  // Mint every token of a bundle in one transaction; either all of them are created or none
+  async createBundle(
+    tokens: TokenCreationParams[],
+    onSubmitted?: (hash: string) => void
+  ): Promise<BundleCreationResult> {
+    try {
+      console.log(`🚀 Creating bundle of ${tokens.length} time tokens`);
+
+      if (tokens.length === 0) {
+        throw new Error('Bundle has no tokens');
+      }
+
+      // The batch entry point only mints plain native-priced tokens
+      const unsupported = tokens.find(params =>
+        params.pricingMode === 'usd' || params.escrowTimeoutDays || params.acceptedAssets?.length
+      );
+      if (unsupported) {
+        throw new Error(`"${unsupported.serviceName}" uses USD pricing, escrow or extra payment assets and must be created on its own`);
+      }
+
+      const { creator, chainId, contractAddress } = this.prepareCreation(tokens);
+      await this.assertKYCLevel('create', creator, chainId);
+      await this.assertTierLimits(tokens, creator, chainId);
+
+      // Price every token before prompting so one bad conversion doesn't waste a signature
+      const prices: bigint[] = [];
+      for (const params of tokens) {
+        prices.push(await this.convertCreationPrice(params, chainId));
+      }
+      const metadataURIs = await Promise.all(tokens.map(params => this.publishMetadata(params)));
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'createTimeTokensBatch',
+        args: [
+          creator,
+          tokens.map(params => params.serviceName),
+          prices,
+          tokens.map(params => BigInt(Math.round(params.totalHours))),
+          tokens.map(params => BigInt(Math.round(params.validityDays))),
+          metadataURIs
+        ]
+      });
+
+      const events = await this.confirmCreation(hash, tokens, contractAddress, onSubmitted);
+
+      return { hash, tokenIds: events.map(event => event.tokenId), events };
+
+    } catch (error) {
+      console.error('❌ Failed to create token bundle:', error);
+
+      handleError(error, {
+        component: 'ContractService',
+        action: 'createBundle',
+        chainId: getChainId(config),
+        contractAddress: getContractAddress(getChainId(config))
+      }, { showNotification: !(error instanceof PriceUnavailable || error instanceof KYCLevelInsufficient) }); // Already notified above
+
+      throw error;
+    }
+  }
+
+  // Native amount per hour a token would be minted at right now, for showing before signing
+  async quoteTokenCreation(params: TokenCreationParams, chainId?: number): Promise<bigint> {
+    return this.priceService.convertUSDToCrypto(params.pricePerHour, chainId ?? getChainId(config));
+  }
 
-      // Validate input parameters
+  // Validate the parameters and the connected wallet shared by every creation path
+  private prepareCreation(tokens: TokenCreationParams[]): {
+    creator: `0x${string}`;
+    chainId: number;
+    contractAddress: string;
+  } {
+    // Validate input parameters
+    for (const params of tokens) {
       const validation = validateTokenCreation(params);
       if (!validation.isValid) {
-        throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+        const label = tokens.length > 1 ? ` for "${params.serviceName}"` : '';
+        throw new Error(`Validation failed${label}: ${validation.errors.join(', ')}`);
       }
+    }
 
-      const account = getAccount(config);
-      const chainId = getChainId(config);
+    const account = getAccount(config);
+    const chainId = getChainId(config);
 
-      if (!account.address) {
-        throw new Error('Wallet not connected');
-      }
+    if (!account.address) {
+      throw new Error('Wallet not connected');
+    }
+
+    // Validate wallet
+    const walletValidation = validateWallet({ address: account.address, chainId });
+    if (!walletValidation.isValid) {
+      throw new Error(`Wallet validation failed: ${walletValidation.errors.join(', ')}`);
+    }
 
-      // Validate wallet
-      const walletValidation = validateWallet({ address: account.address, chainId });
-      if (!walletValidation.isValid) {
-        throw new Error(`Wallet validation failed: ${walletValidation.errors.join(', ')}`);
+    const contractAddress = getContractAddress(chainId);
+    console.log('📍 Using contract:', contractAddress, 'on chain:', chainId);
+
+    return { creator: account.address, chainId, contractAddress };
+  }
+
+  // Notify, wait for the receipt and read one TimeTokenCreated log per token, in order
+  private async confirmCreation(
+    hash: `0x${string}`,
+    tokens: TokenCreationParams[],
+    contractAddress: string,
+    onSubmitted?: (hash: string) => void
+  ): Promise<TimeTokenCreatedEvent[]> {
+    console.log('📝 Transaction submitted:', hash);
+    onSubmitted?.(hash);
+
+    const names = tokens.map(params => `"${params.serviceName}"`).join(', ');
+    const tokenLabel = tokens.length > 1 ? `${tokens.length} tokens` : `${names} token`;
+
+    // Add pending notification
+    this.alertAgent.addNotification({
+      type: 'system',
+      title: '⏳ Token Creation Pending',
+      message: `Creating ${tokenLabel}...`,
+      priority: 'medium',
+      metadata: {
+        transactionHash: hash,
+        serviceName: tokens.length === 1 ? tokens[0].serviceName : undefined
       }
+    });
 
-      const contractAddress = getContractAddress(chainId);
-      console.log('📍 Using contract:', contractAddress, 'on chain:', chainId);
+    // Wait for transaction confirmation
+    try {
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Transaction confirmed:', receipt);
+
+      // Read token IDs from our own TimeTokenCreated logs; the counter may have moved on
+      const created = tokens.length === 1
+        ? [getTimeTokenCreatedEvent(receipt, contractAddress)]
+        : getTimeTokenCreatedEvents(receipt, contractAddress);
+      if (created.length !== tokens.length) {
+        throw new Error(`Expected ${tokens.length} TimeTokenCreated events, found ${created.length}`);
+      }
 
-      // Convert USD price to native crypto (AVAX/ETH) using Chainlink Price Feeds
-      console.log('💱 Converting USD to native currency:', {
-        usdAmount: params.pricePerHour,
-        chainId,
-        currency: this.priceService.getCurrentCurrencyInfo(chainId).symbol
+      // Add success notification
+      this.alertAgent.addNotification({
+        type: 'token_created',
+        title: tokens.length > 1 ? '🎉 Bundle Created Successfully' : '🎉 Token Created Successfully',
+        message: tokens.length > 1
+          ? `${tokens.length} tokens are now live: ${names}`
+          : `Your ${names} token is now live at $${tokens[0].pricePerHour}/hour`,
+        priority: 'high',
+        actionUrl: `/tokens/${created[0].tokenId}`,
+        actionLabel: 'View Token',
+        metadata: {
+          tokenId: created[0].tokenId,
+          amount: tokens.length === 1 ? tokens[0].pricePerHour : undefined,
+          transactionHash: hash
+        }
       });
 
-      const pricePerHourWei = await this.priceService.convertUSDToCrypto(params.pricePerHour, chainId);
+      return created;
+    } catch (waitError) {
+      console.error('❌ Transaction failed:', waitError);
 
-      console.log('✅ Price conversion complete:', {
-        originalUSD: `$${params.pricePerHour}`,
-        convertedAmount: formatEther(pricePerHourWei),
-        currency: this.priceService.getCurrentCurrencyInfo(chainId).symbol
+      // Add failure notification
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '❌ Token Creation Failed',
+        message: `Failed to create ${tokenLabel}`,
+        priority: 'high'
       });
 
-      // Call the smart contract
-      const hash = await writeContract(config, {
+      throw waitError;
+    }
+  }
+
+  // Convert the USD price once at mint time and create a natively priced token
+  private async writeNativePricedToken(
+    params: TokenCreationParams,
+    metadataURI: string,
+    creator: `0x${string}`,
+    contractAddress: string,
+    chainId: number
+  ): Promise<`0x${string}`> {
+    const pricePerHourWei = await this.convertCreationPrice(params, chainId);
+
+    return params.escrowTimeoutDays
+      ? await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'createTimeTokenWithEscrow',
+        args: [
+          creator,
+          params.serviceName,
+          pricePerHourWei,
+          BigInt(Math.round(params.totalHours)),
+          BigInt(Math.round(params.validityDays)),
+          BigInt(Math.round(params.escrowTimeoutDays)),
+          metadataURI
+        ]
+      })
+      : await writeContract(config, {
         address: contractAddress as `0x${string}`,
         abi: TIME_TOKEN_ABI,
         functionName: 'createTimeToken',
         args: [
-          account.address,
+          creator,
           params.serviceName,
           pricePerHourWei,
           BigInt(Math.round(params.totalHours)),
-          BigInt(Math.round(params.validityDays))
+          BigInt(Math.round(params.validityDays)),
+          metadataURI
         ]
       });
+  }
 
-      console.log('📝 Transaction submitted:', hash);
-
-      // Add pending notification
-      this.alertAgent.addNotification({
-        type: 'system',
-        title: '⏳ Token Creation Pending',
-        message: `Creating "${params.serviceName}" token...`,
-        priority: 'medium',
-        metadata: {
-          transactionHash: hash,
-          serviceName: params.serviceName
-        }
-      });
-
-      // Wait for transaction confirmation
-      try {
-        const receipt = await waitForTransactionReceipt(config, { hash });
-        console.log('✅ Transaction confirmed:', receipt);
+  // Pinned metadata URI to mint with; if pinning fails the token is minted without metadata
+  // rather than with a CID that only this browser can resolve
+  private async publishMetadata(params: TokenCreationParams): Promise<string> {
+    try {
+      return await this.tokenMetadata.publish(params.metadata ?? this.tokenMetadata.fromCreationParams(params));
+    } catch (error) {
+      console.error('❌ Failed to publish token metadata, minting without it:', error);
+      return '';
+    }
+  }
 
-        // Get the token ID from events (simplified - in real implementation, parse logs)
-        const currentTokenId = await this.getCurrentTokenId();
+  // Price a creation in wei once, alerting when the feed can't be trusted
+  private async convertCreationPrice(params: TokenCreationParams, chainId: number): Promise<bigint> {
+    // Convert USD price to native crypto (AVAX/ETH) using Chainlink Price Feeds
+    console.log('💱 Converting USD to native currency:', {
+      usdAmount: params.pricePerHour,
+      chainId,
+      currency: this.priceService.getCurrentCurrencyInfo(chainId).symbol
+    });
 
-        // Add success notification
+    let pricePerHourWei: bigint;
+    try {
+      pricePerHourWei = await this.priceService.convertUSDToCrypto(params.pricePerHour, chainId);
+    } catch (priceError) {
+      // Never mint against a guessed price; the creator retries once the feed is healthy
+      if (priceError instanceof PriceUnavailable) {
         this.alertAgent.addNotification({
-          type: 'token_created',
-          title: '🎉 Token Created Successfully',
-          message: `Your "${params.serviceName}" token is now live at $${params.pricePerHour}/hour`,
+          type: 'system',
+          title: '⚠️ Price Feed Unavailable',
+          message: `"${params.serviceName}" was not created: ${priceError.message}. Please try again shortly.`,
           priority: 'high',
-          actionUrl: `/tokens/${currentTokenId}`,
-          actionLabel: 'View Token',
           metadata: {
-            tokenId: currentTokenId.toString(),
-            amount: params.pricePerHour
+            serviceName: params.serviceName
           }
         });
-
-        return { hash, tokenId: currentTokenId.toString() };
-      } catch (waitError) {
-        console.error('❌ Transaction failed:', waitError);
-
-        // Add failure notification
-        this.alertAgent.addNotification({
-          type: 'system',
-          title: '❌ Token Creation Failed',
-          message: `Failed to create "${params.serviceName}" token`,
-          priority: 'high'
-        });
-
-        throw waitError;
       }
+      throw priceError;
+    }
 
-    } catch (error) {
-      console.error('❌ Failed to create time token:', error);
-
-      // Handle error using error handling system
-      const errorDetails = handleError(error, {
-        component: 'ContractService',
-        action: 'createTimeToken',
-        chainId: getChainId(config),
-        contractAddress: getContractAddress(getChainId(config))
-      });
+    console.log('✅ Price conversion complete:', {
+      originalUSD: `$${params.pricePerHour}`,
+      convertedAmount: formatEther(pricePerHourWei),
+      currency: this.priceService.getCurrentCurrencyInfo(chainId).symbol
+    });
 
-      throw error;
-    }
+    return pricePerHourWei;
   }
 
   // Purchase time tokens
-  async purchaseTimeToken(params: TokenPurchaseParams): Promise<string> {
+  async purchaseTimeToken(params: TokenPurchaseParams): Promise<TimeTokenPurchasedEvent> {
     try {
       console.log('💰 Purchasing time token:', params);
 
@@ -186,6 +535,8 @@ export class ContractService {
         throw new Error('Wallet not connected');
       }
 
+      await this.assertKYCLevel('buy', account.address, chainId);
+
       const contractAddress = getContractAddress(chainId);
       console.log('📍 Contract details:', {
         address: contractAddress,
@@ -208,23 +559,43 @@ export class ContractService {
         throw new Error('Invalid total price');
       }
 
+      const maxTotalPrice = params.maxTotalPrice ?? params.totalPrice;
+      const paysInAsset = !this.priceService.isNativeAsset(params.paymentAsset);
+
       console.log('🔧 Transaction parameters:', {
         tokenId: params.tokenId,
         hoursAmount: params.hoursAmount,
-        totalPriceETH: formatEther(params.totalPrice),
-        totalPriceWei: params.totalPrice.toString()
+        paymentAsset: paysInAsset ? params.paymentAsset : 'native',
+        totalPrice: params.totalPrice.toString()
       });
 
-      const hash = await writeContract(config, {
-        address: contractAddress as `0x${string}`,
-        abi: TIME_TOKEN_ABI,
-        functionName: 'purchaseTimeToken',
-        args: [
-          BigInt(params.tokenId),
-          BigInt(params.hoursAmount)
-        ],
-        value: params.totalPrice
-      });
+      let hash: `0x${string}`;
+      if (paysInAsset) {
+        const asset = await this.ensureAllowance(params.paymentAsset as string, maxTotalPrice, chainId);
+        hash = await writeContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'purchaseWithAsset',
+          args: [
+            BigInt(params.tokenId),
+            BigInt(params.hoursAmount),
+            asset.address,
+            maxTotalPrice
+          ]
+        });
+      } else {
+        hash = await writeContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'purchaseTimeToken',
+          args: [
+            BigInt(params.tokenId),
+            BigInt(params.hoursAmount),
+            maxTotalPrice
+          ],
+          value: maxTotalPrice
+        });
+      }
 
       console.log('📝 Purchase transaction submitted:', hash);
 
@@ -244,75 +615,34 @@ export class ContractService {
       const receipt = await waitForTransactionReceipt(config, { hash });
       console.log('✅ Purchase confirmed:', receipt);
 
+      const purchase = getTimeTokenPurchasedEvent(receipt, contractAddress);
+
       // Add success notification
       this.alertAgent.addNotification({
         type: 'token_purchased',
         title: '💰 Purchase Successful',
-        message: `Successfully purchased ${params.hoursAmount}h of service`,
+        message: `Successfully purchased ${purchase.hoursAmount}h of service`,
         priority: 'high',
         actionUrl: `/dashboard/purchases`,
         actionLabel: 'View Purchase',
         metadata: {
-          tokenId: params.tokenId,
-          amount: Number(formatEther(params.totalPrice))
+          tokenId: purchase.tokenId,
+          amount: this.toDisplayAmount(purchase.totalPrice, purchase.paymentAsset, chainId)
         }
       });
 
-      return hash;
+      return purchase;
 
     } catch (error) {
-      // Don't log user cancellations as errors
-      if (!(error instanceof Error && (error.message.includes('user rejected') || error.message.includes('User denied transaction')))) {
-        console.error('❌ Failed to purchase time token:', error);
-      }
-
-      // Enhanced error logging
-      if (error instanceof Error) {
-        console.error('Error details:', {
-          name: error.name,
-          message: error.message,
-          stack: error.stack
-        });
-      }
-
-      // Enhanced error handling for better user experience
-      let userFriendlyMessage = 'Purchase failed';
-      let notificationTitle = '❌ Purchase Failed';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('User denied transaction') || error.message.includes('user rejected')) {
-          userFriendlyMessage = 'Transaction was cancelled by user';
-          notificationTitle = '⚠️ Transaction Cancelled';
-        } else if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
-          userFriendlyMessage = 'Insufficient balance for this transaction';
-          notificationTitle = '💰 Insufficient Funds';
-        } else if (error.message.includes('gas')) {
-          userFriendlyMessage = 'Transaction failed due to gas estimation issues';
-        } else {
-          userFriendlyMessage = error.message;
-        }
-      }
-
-      this.alertAgent.addNotification({
-        type: 'system',
-        title: notificationTitle,
-        message: userFriendlyMessage,
-        priority: 'high'
-      });
-
-      // Modify the original error message for UI handling instead of creating a new error
-      if (error instanceof Error) {
-        error.message = userFriendlyMessage;
-      }
-      
+      this.handlePurchaseError(error);
       throw error;
     }
   }
 
-  // Mark service as completed
-  async markServiceCompleted(tokenId: string, buyer: string, hoursAmount: number): Promise<string> {
+  // Purchase time tokens with payment held in escrow until release or timeout
+  async purchaseWithEscrow(params: EscrowPurchaseParams): Promise<EscrowPurchaseResult> {
     try {
-      console.log('✅ Marking service completed:', { tokenId, buyer, hoursAmount });
+      console.log('🔒 Purchasing time token with escrow:', params);
 
       const account = getAccount(config);
       const chainId = getChainId(config);
@@ -321,48 +651,168 @@ export class ContractService {
         throw new Error('Wallet not connected');
       }
 
+      if (!FEATURE_FLAGS.ESCROW_ENABLED) {
+        throw new Error('Escrow purchases are disabled');
+      }
+
+      await this.assertKYCLevel('buy', account.address, chainId);
+
       const contractAddress = getContractAddress(chainId);
 
-      const hash = await writeContract(config, {
-        address: contractAddress as `0x${string}`,
-        abi: TIME_TOKEN_ABI,
-        functionName: 'markServiceCompleted',
-        args: [
-          BigInt(tokenId),
-          buyer as `0x${string}`,
-          BigInt(hoursAmount)
-        ]
+      if (!params.tokenId || params.tokenId === '0') {
+        throw new Error('Invalid token ID');
+      }
+
+      if (params.hoursAmount <= 0) {
+        throw new Error('Hours amount must be greater than 0');
+      }
+
+      if (!params.totalPrice || params.totalPrice <= BigInt(0)) {
+        throw new Error('Invalid total price');
+      }
+
+      // The contract is the source of truth for the platform fee; cover it on the worst-case price
+      const maxTotalPrice = params.maxTotalPrice ?? params.totalPrice;
+      const escrowFee = await this.getEscrowFee(maxTotalPrice);
+      const paysInAsset = !this.priceService.isNativeAsset(params.paymentAsset);
+
+      console.log('🔧 Escrow transaction parameters:', {
+        tokenId: params.tokenId,
+        hoursAmount: params.hoursAmount,
+        timeoutDays: params.timeoutDays,
+        paymentAsset: paysInAsset ? params.paymentAsset : 'native',
+        servicePrice: params.totalPrice.toString(),
+        escrowFee: escrowFee.toString()
       });
 
-      console.log('📝 Service completion transaction submitted:', hash);
+      let hash: `0x${string}`;
+      if (paysInAsset) {
+        const asset = await this.ensureAllowance(params.paymentAsset as string, maxTotalPrice + escrowFee, chainId);
+        hash = await writeContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'purchaseWithAssetEscrow',
+          args: [
+            BigInt(params.tokenId),
+            BigInt(params.hoursAmount),
+            BigInt(Math.round(params.timeoutDays)),
+            asset.address,
+            maxTotalPrice
+          ]
+        });
+      } else {
+        hash = await writeContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'purchaseWithEscrow',
+          args: [
+            BigInt(params.tokenId),
+            BigInt(params.hoursAmount),
+            BigInt(Math.round(params.timeoutDays)),
+            maxTotalPrice
+          ],
+          value: maxTotalPrice + escrowFee
+        });
+      }
 
-      const receipt = await waitForTransactionReceipt(config, { hash });
-      console.log('✅ Service completion confirmed:', receipt);
+      console.log('📝 Escrow purchase transaction submitted:', hash);
 
-      // Add notification
       this.alertAgent.addNotification({
-        type: 'service_completed',
-        title: '✅ Service Completed',
-        message: `${hoursAmount}h of service has been marked as completed`,
+        type: 'system',
+        title: '⏳ Secure Purchase Pending',
+        message: `Purchasing ${params.hoursAmount}h of service with escrow protection...`,
         priority: 'medium',
-        actionUrl: `/dashboard/services`,
-        actionLabel: 'View Services',
-        metadata: { tokenId }
+        metadata: {
+          tokenId: params.tokenId,
+          chainId
+        }
       });
 
-      return hash;
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Escrow purchase confirmed:', receipt);
+
+      const purchase = getTimeTokenPurchasedEvent(receipt, contractAddress);
+      const escrow = getEscrowCreatedEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'token_purchased',
+        title: '🔒 Secure Purchase Successful',
+        message: `Payment for ${purchase.hoursAmount}h is held in escrow #${escrow.escrowId} until you release it or it times out`,
+        priority: 'high',
+        actionUrl: `/dashboard/purchases`,
+        actionLabel: 'View Purchase',
+        metadata: {
+          tokenId: purchase.tokenId,
+          amount: this.toDisplayAmount(escrow.amount + escrow.fee, purchase.paymentAsset, chainId)
+        }
+      });
+
+      return { purchase, escrowId: escrow.escrowId };
 
     } catch (error) {
-      console.error('❌ Failed to mark service completed:', error);
+      this.handlePurchaseError(error);
       throw error;
     }
   }
 
-  // Deactivate token
-  async deactivateToken(tokenId: string): Promise<string> {
-    try {
-      console.log('🔒 Deactivating token:', tokenId);
+  // Approve the contract to pull an ERC-20 payment if the current allowance doesn't cover it
+  private async ensureAllowance(assetAddress: string, amount: bigint, chainId: number): Promise<PaymentAssetConfig> {
+    const account = getAccount(config);
+    const asset = this.priceService.getPaymentAsset(assetAddress, chainId);
+    if (!account.address || !asset) {
+      throw new Error('Unsupported payment asset');
+    }
+
+    const contractAddress = getContractAddress(chainId) as `0x${string}`;
+
+    const balance = await readContract(config, {
+      address: asset.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [account.address]
+    });
+    if (balance < amount) {
+      throw new Error(`Insufficient ${asset.symbol} balance`);
+    }
+
+    const allowance = await readContract(config, {
+      address: asset.address,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [account.address, contractAddress]
+    });
+    if (allowance >= amount) {
+      return asset;
+    }
+
+    console.log(`🔑 Approving ${formatUnits(amount, asset.decimals)} ${asset.symbol} for purchase`);
+
+    this.alertAgent.addNotification({
+      type: 'system',
+      title: `🔑 Approve ${asset.symbol}`,
+      message: `Confirm the ${asset.symbol} spending approval in your wallet, then the purchase`,
+      priority: 'medium',
+      metadata: { chainId }
+    });
+
+    // Exact approvals only; the buyer is asked again for the next purchase
+    const hash = await writeContract(config, {
+      address: asset.address,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [contractAddress, amount]
+    });
+    const receipt = await waitForTransactionReceipt(config, { hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`${asset.symbol} approval failed`);
+    }
+
+    return asset;
+  }
 
+  // Accept an ERC-20 for a token at a fixed price per hour, or stop accepting it with 0 (creator only)
+  async setTokenPaymentAsset(tokenId: string, assetAddress: string, pricePerHour: number): Promise<string> {
+    try {
       const account = getAccount(config);
       const chainId = getChainId(config);
 
@@ -370,31 +820,810 @@ export class ContractService {
         throw new Error('Wallet not connected');
       }
 
-      const contractAddress = getContractAddress(chainId);
+      const asset = this.priceService.getPaymentAsset(assetAddress, chainId);
+      if (!asset) {
+        throw new Error('Unsupported payment asset');
+      }
+
+      if (pricePerHour < 0) {
+        throw new Error('Price must not be negative');
+      }
+
+      const contractAddress = getContractAddress(chainId);
 
       const hash = await writeContract(config, {
         address: contractAddress as `0x${string}`,
         abi: TIME_TOKEN_ABI,
-        functionName: 'deactivateToken',
-        args: [BigInt(tokenId)]
+        functionName: 'setTokenPaymentAsset',
+        args: [
+          BigInt(tokenId),
+          asset.address,
+          parseUnits(pricePerHour.toFixed(asset.decimals), asset.decimals)
+        ]
+      });
+
+      await waitForTransactionReceipt(config, { hash });
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: pricePerHour > 0 ? `${asset.icon} ${asset.symbol} Accepted` : `${asset.icon} ${asset.symbol} Removed`,
+        message: pricePerHour > 0
+          ? `Token #${tokenId} can now be bought for ${pricePerHour.toFixed(2)} ${asset.symbol} per hour`
+          : `Token #${tokenId} no longer accepts ${asset.symbol}`,
+        priority: 'medium',
+        metadata: { tokenId, chainId }
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to set payment asset:', error);
+      throw error;
+    }
+  }
+
+  // Release escrowed payment to the creator (buyer only)
+  async releaseEscrow(escrowId: string): Promise<string> {
+    try {
+      console.log('🔓 Releasing escrow:', escrowId);
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'releaseEscrow',
+        args: [BigInt(escrowId)]
+      });
+
+      console.log('📝 Escrow release transaction submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Escrow released:', receipt);
+
+      const released = getEscrowReleasedEvent(receipt, contractAddress);
+      const completed = getServiceCompletedEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'service_completed',
+        title: '✅ Payment Released',
+        message: `Escrow #${released.escrowId} has been released to the service provider`,
+        priority: 'medium',
+        actionUrl: `/dashboard/purchases`,
+        actionLabel: 'View Purchases',
+        metadata: {
+          tokenId: completed.tokenId,
+          amount: Number(formatEther(released.amount))
+        }
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to release escrow:', error);
+      throw error;
+    }
+  }
+
+  // Claim escrowed payment after the timeout has passed (creator only)
+  async claimAfterTimeout(escrowId: string): Promise<string> {
+    try {
+      console.log('⏰ Claiming escrow after timeout:', escrowId);
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const escrow = await this.getEscrow(escrowId);
+      if (escrow && !this.isTokenExpired(escrow.releaseAfter)) {
+        throw new Error(`Escrow #${escrowId} can be claimed after ${this.formatValidUntil(escrow.releaseAfter)}`);
+      }
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'claimAfterTimeout',
+        args: [BigInt(escrowId)]
+      });
+
+      console.log('📝 Escrow claim transaction submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Escrow claimed:', receipt);
+
+      const released = getEscrowReleasedEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'payment_received',
+        title: '💳 Escrow Payment Claimed',
+        message: `Payment from escrow #${escrowId} has been transferred to your wallet`,
+        priority: 'high',
+        actionUrl: '/dashboard/earnings',
+        actionLabel: 'View Earnings',
+        metadata: {
+          tokenId: escrow?.tokenId,
+          amount: Number(formatEther(released.amount))
+        }
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to claim escrow:', error);
+      throw error;
+    }
+  }
+
+  // Open a dispute on an escrowed purchase (buyer only)
+  async openDispute(escrowId: string, evidenceURI: string): Promise<string> {
+    try {
+      console.log('⚖️ Opening dispute:', { escrowId, evidenceURI });
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      if (!FEATURE_FLAGS.DISPUTE_RESOLUTION_ENABLED) {
+        throw new Error('Dispute resolution is disabled');
+      }
+
+      this.assertEvidenceURI(evidenceURI);
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'openDispute',
+        args: [BigInt(escrowId), evidenceURI.trim()]
+      });
+
+      console.log('📝 Dispute transaction submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Dispute opened:', receipt);
+
+      const dispute = getDisputeOpenedEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '⚖️ Dispute Opened',
+        message: `Dispute #${dispute.disputeId} freezes payment for escrow #${dispute.escrowId} until an arbiter reviews it`,
+        priority: 'high',
+        actionUrl: '/dashboard/disputes',
+        actionLabel: 'View Dispute'
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to open dispute:', error);
+      throw error;
+    }
+  }
+
+  // Submit counter-evidence for an open dispute (creator only)
+  async respondToDispute(disputeId: string, responseURI: string): Promise<string> {
+    try {
+      console.log('📎 Responding to dispute:', { disputeId, responseURI });
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      this.assertEvidenceURI(responseURI);
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'respondToDispute',
+        args: [BigInt(disputeId), responseURI.trim()]
+      });
+
+      console.log('📝 Dispute response submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Dispute response confirmed:', receipt);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '📎 Dispute Response Submitted',
+        message: `Your evidence for dispute #${disputeId} has been recorded`,
+        priority: 'medium'
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to respond to dispute:', error);
+      throw error;
+    }
+  }
+
+  // Split the escrowed payment between buyer and creator (arbiter only)
+  async resolveDispute(disputeId: string, buyerAmount: bigint): Promise<string> {
+    try {
+      console.log('⚖️ Resolving dispute:', { disputeId, buyerAmount: formatEther(buyerAmount) });
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      if (!(await this.isArbiter(account.address))) {
+        throw new Error('Only arbiters can resolve disputes');
+      }
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'resolveDispute',
+        args: [BigInt(disputeId), buyerAmount]
+      });
+
+      console.log('📝 Dispute resolution submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Dispute resolved:', receipt);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '⚖️ Dispute Resolved',
+        message: `Dispute #${disputeId} has been resolved and funds distributed`,
+        priority: 'medium'
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to resolve dispute:', error);
+      throw error;
+    }
+  }
+
+  // Refund the buyer for a dispute that passed its deadline unresolved
+  async settleExpiredDispute(disputeId: string): Promise<string> {
+    try {
+      console.log('⏰ Settling expired dispute:', disputeId);
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'settleExpiredDispute',
+        args: [BigInt(disputeId)]
+      });
+
+      console.log('📝 Dispute settlement submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Expired dispute settled:', receipt);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '↩️ Dispute Refunded',
+        message: `Dispute #${disputeId} expired without a ruling and the buyer has been refunded`,
+        priority: 'medium'
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to settle expired dispute:', error);
+      throw error;
+    }
+  }
+
+  private assertEvidenceURI(uri: string): void {
+    const result = validationService.validateString(uri, 'Evidence URI', {
+      maxLength: 512,
+      pattern: EVIDENCE_URI_PATTERN,
+      patternMessage: 'Evidence must be an ipfs://, ar:// or https:// link'
+    });
+    if (!result.isValid) {
+      throw new Error(result.errors.join(', '));
+    }
+  }
+
+  // Turn purchase failures into user-friendly notifications and messages
+  private handlePurchaseError(error: unknown): void {
+    if (error instanceof KYCLevelInsufficient) return; // Already notified before the wallet prompt
+
+    // Don't log user cancellations as errors
+    if (!(error instanceof Error && (error.message.includes('user rejected') || error.message.includes('User denied transaction')))) {
+      console.error('❌ Failed to purchase time token:', error);
+    }
+
+    // Enhanced error logging
+    if (error instanceof Error) {
+      console.error('Error details:', {
+        name: error.name,
+        message: error.message,
+        stack: error.stack
+      });
+    }
+
+    // Enhanced error handling for better user experience
+    let userFriendlyMessage = 'Purchase failed';
+    let notificationTitle = '❌ Purchase Failed';
+    
+    if (error instanceof Error) {
+      if (error.message.includes('User denied transaction') || error.message.includes('user rejected')) {
+        userFriendlyMessage = 'Transaction was cancelled by user';
+        notificationTitle = '⚠️ Transaction Cancelled';
+      } else if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
+        userFriendlyMessage = 'Insufficient balance for this transaction';
+        notificationTitle = '💰 Insufficient Funds';
+      } else if (error.message.includes('AssetNotAccepted')) {
+        userFriendlyMessage = 'The creator no longer accepts this payment asset for this token';
+        notificationTitle = '🪙 Payment Asset Not Accepted';
+      } else if (error.message.includes('PriceAboveMax')) {
+        userFriendlyMessage = 'The price moved beyond your slippage tolerance. Review the new quote and try again';
+        notificationTitle = '📈 Price Moved';
+      } else if (error.message.includes('KYCLevelInsufficient') || error.message.includes('KYC level insufficient')) {
+        userFriendlyMessage = 'KYC level insufficient: your verification level is below what this marketplace requires for purchases';
+        notificationTitle = '🪪 KYC Level Insufficient';
+      } else if (error.message.includes('gas')) {
+        userFriendlyMessage = 'Transaction failed due to gas estimation issues';
+      } else {
+        userFriendlyMessage = error.message;
+      }
+    }
+
+    this.alertAgent.addNotification({
+      type: 'system',
+      title: notificationTitle,
+      message: userFriendlyMessage,
+      priority: 'high'
+    });
+
+    // Modify the original error message for UI handling instead of creating a new error
+    if (error instanceof Error) {
+      error.message = userFriendlyMessage;
+    }
+  }
+
+  // Mark service as completed
+  async markServiceCompleted(tokenId: string, buyer: string, hoursAmount: number): Promise<ServiceCompletedEvent> {
+    try {
+      console.log('✅ Marking service completed:', { tokenId, buyer, hoursAmount });
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'markServiceCompleted',
+        args: [
+          BigInt(tokenId),
+          buyer as `0x${string}`,
+          BigInt(hoursAmount)
+        ]
+      });
+
+      console.log('📝 Service completion transaction submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      console.log('✅ Service completion confirmed:', receipt);
+
+      const completed = getServiceCompletedEvent(receipt, contractAddress);
+
+      // Add notification
+      this.alertAgent.addNotification({
+        type: 'service_completed',
+        title: '✅ Service Completed',
+        message: `${completed.hoursCompleted}h of service has been marked as completed; any matching escrow is claimable after the buyer's ${FEATURE_FLAGS.ESCROW_COMPLETION_DISPUTE_DAYS}-day dispute window`,
+        priority: 'medium',
+        actionUrl: `/dashboard/services`,
+        actionLabel: 'View Services',
+        metadata: { tokenId: completed.tokenId }
+      });
+
+      return completed;
+
+    } catch (error) {
+      console.error('❌ Failed to mark service completed:', error);
+      throw error;
+    }
+  }
+
+  // Move a token between Draft, Active, Paused and Retired (creator only).
+  // SoldOut and Expired are entered and left by the contract itself.
+  async setTokenStatus(tokenId: string, status: TokenStatus): Promise<TokenStatusChangedEvent> {
+    const titles: Partial<Record<TokenStatus, string>> = {
+      Draft: '📝 Token Unlisted',
+      Active: '▶️ Token Listed',
+      Paused: '⏸️ Token Paused',
+      Retired: '🔒 Token Retired'
+    };
+
+    try {
+      console.log('🔄 Changing token status:', tokenId, status);
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const contractAddress = getContractAddress(chainId);
+
+      const hash = await writeContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'setTokenStatus',
+        args: [BigInt(tokenId), TOKEN_STATUSES.indexOf(status)]
+      });
+
+      console.log('📝 Status change transaction submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      const changed = getTokenStatusChangedEvent(receipt, contractAddress);
+      console.log('✅ Token status changed:', changed.previousStatus, '→', changed.status);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: titles[status] ?? '🔄 Token Status Changed',
+        message: `Token #${tokenId} is now ${status}`,
+        priority: 'medium',
+        metadata: {
+          tokenId,
+          transactionHash: hash
+        }
+      });
+
+      return changed;
+
+    } catch (error) {
+      console.error('❌ Failed to change token status:', error);
+      throw error;
+    }
+  }
+
+  // Token editing (creator only)
+
+  // Change the hourly rate. The new rate is in USD: USD-priced tokens store it as is,
+  // native-priced tokens are converted once with the price feed like at creation.
+  async repriceToken(token: TimeToken, pricePerHourUSD: number): Promise<TimeTokenRepricedEvent> {
+    try {
+      console.log('💲 Repricing token:', token.tokenId, pricePerHourUSD);
+
+      const chainId = getChainId(config);
+      const newPrice = this.isUsdPriced(token)
+        ? parseUnits(pricePerHourUSD.toFixed(2), USD_PRICING_CONFIG.USD_DECIMALS)
+        : await this.priceService.convertUSDToCrypto(pricePerHourUSD, chainId);
+
+      const { receipt, contractAddress } = await this.sendTokenEdit('repriceToken', token.tokenId, newPrice);
+      const repriced = getTimeTokenRepricedEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '💲 Token Repriced',
+        message: `"${token.serviceName}" now sells at $${pricePerHourUSD}/hour`,
+        priority: 'medium',
+        metadata: {
+          tokenId: token.tokenId,
+          amount: pricePerHourUSD,
+          transactionHash: receipt.transactionHash
+        }
+      });
+
+      return repriced;
+
+    } catch (error) {
+      console.error('❌ Failed to reprice token:', error);
+      throw error;
+    }
+  }
+
+  // Push the expiry back by whole days; expired tokens are extended from now
+  async extendTokenValidity(token: TimeToken, additionalDays: number): Promise<TimeTokenExtendedEvent> {
+    try {
+      console.log('📅 Extending token validity:', token.tokenId, additionalDays);
+
+      const { receipt, contractAddress } = await this.sendTokenEdit(
+        'extendTokenValidity',
+        token.tokenId,
+        BigInt(Math.round(additionalDays))
+      );
+      const extended = getTimeTokenExtendedEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '📅 Token Extended',
+        message: `"${token.serviceName}" is now valid until ${new Date(Number(extended.validUntil) * 1000).toLocaleDateString()}`,
+        priority: 'medium',
+        metadata: {
+          tokenId: token.tokenId,
+          transactionHash: receipt.transactionHash
+        }
+      });
+
+      return extended;
+
+    } catch (error) {
+      console.error('❌ Failed to extend token validity:', error);
+      throw error;
+    }
+  }
+
+  // Mint more hours to the creator, e.g. after a sellout
+  async topUpTokenHours(token: TimeToken, additionalHours: number): Promise<TimeTokenToppedUpEvent> {
+    try {
+      console.log('➕ Topping up token hours:', token.tokenId, additionalHours);
+
+      const { receipt, contractAddress } = await this.sendTokenEdit(
+        'topUpTokenHours',
+        token.tokenId,
+        BigInt(Math.round(additionalHours))
+      );
+      const toppedUp = getTimeTokenToppedUpEvent(receipt, contractAddress);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '➕ Hours Added',
+        message: `Added ${additionalHours} hours to "${token.serviceName}" (${toppedUp.totalHours.toString()} total)`,
+        priority: 'medium',
+        metadata: {
+          tokenId: token.tokenId,
+          transactionHash: receipt.transactionHash
+        }
+      });
+
+      return toppedUp;
+
+    } catch (error) {
+      console.error('❌ Failed to top up token hours:', error);
+      throw error;
+    }
+  }
+
+  private async sendTokenEdit(
+    functionName: 'repriceToken' | 'extendTokenValidity' | 'topUpTokenHours',
+    tokenId: string,
+    value: bigint
+  ) {
+    const account = getAccount(config);
+    const chainId = getChainId(config);
+
+    if (!account.address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const contractAddress = getContractAddress(chainId);
+
+    const hash = await writeContract(config, {
+      address: contractAddress as `0x${string}`,
+      abi: TIME_TOKEN_ABI,
+      functionName,
+      args: [BigInt(tokenId), value]
+    });
+
+    console.log(`📝 ${functionName} transaction submitted:`, hash);
+
+    const receipt = await waitForTransactionReceipt(config, { hash });
+    return { receipt, contractAddress };
+  }
+
+  // Resale market
+
+  // List purchased hours on the resale market, approving the market contract first if needed
+  async listForResale(tokenId: string, hoursAmount: number, pricePerHour: bigint): Promise<string> {
+    try {
+      console.log('🏷️ Listing hours for resale:', { tokenId, hoursAmount, pricePerHour: formatEther(pricePerHour) });
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const resaleAddress = this.requireResaleContract(chainId);
+      const contractAddress = getContractAddress(chainId);
+
+      if (hoursAmount <= 0) {
+        throw new Error('Hours amount must be greater than 0');
+      }
+
+      if (pricePerHour <= BigInt(0)) {
+        throw new Error('Price must be greater than 0');
+      }
+
+      const balance = await this.getTokenBalance(account.address, tokenId);
+      if (balance < BigInt(hoursAmount)) {
+        throw new Error(`You only hold ${balance.toString()}h of this token`);
+      }
+
+      // The market pulls the listed hours into custody, so it needs operator approval once
+      const approved = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'isApprovedForAll',
+        args: [account.address, resaleAddress]
+      });
+
+      if (!approved) {
+        this.alertAgent.addNotification({
+          type: 'system',
+          title: '🔑 Approve Resale Market',
+          message: 'Confirm the one-time approval for the resale market, then the listing',
+          priority: 'medium',
+          metadata: { tokenId, chainId }
+        });
+
+        const approvalHash = await writeContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'setApprovalForAll',
+          args: [resaleAddress, true]
+        });
+        await waitForTransactionReceipt(config, { hash: approvalHash });
+      }
+
+      const hash = await writeContract(config, {
+        address: resaleAddress,
+        abi: TIME_TOKEN_RESALE_ABI,
+        functionName: 'list',
+        args: [BigInt(tokenId), BigInt(hoursAmount), pricePerHour]
+      });
+
+      console.log('📝 Resale listing submitted:', hash);
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      const listed = getResaleListedEvent(receipt, resaleAddress);
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '🏷️ Hours Listed',
+        message: `${listed.hoursAmount}h of token #${tokenId} listed for resale at ${formatEther(listed.pricePerHour)} per hour`,
+        priority: 'medium',
+        metadata: { tokenId, chainId }
+      });
+
+      return listed.listingId;
+
+    } catch (error) {
+      console.error('❌ Failed to list hours for resale:', error);
+      throw error;
+    }
+  }
+
+  // Withdraw a resale listing and get its unsold hours back (seller only)
+  async cancelResaleListing(listingId: string): Promise<string> {
+    try {
+      console.log('↩️ Cancelling resale listing:', listingId);
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const resaleAddress = this.requireResaleContract(chainId);
+
+      const hash = await writeContract(config, {
+        address: resaleAddress,
+        abi: TIME_TOKEN_RESALE_ABI,
+        functionName: 'cancel',
+        args: [BigInt(listingId)]
+      });
+
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted`);
+      }
+
+      this.alertAgent.addNotification({
+        type: 'system',
+        title: '↩️ Listing Cancelled',
+        message: `Resale listing #${listingId} was withdrawn and its hours returned`,
+        priority: 'medium',
+        metadata: { chainId }
+      });
+
+      return hash;
+
+    } catch (error) {
+      console.error('❌ Failed to cancel resale listing:', error);
+      throw error;
+    }
+  }
+
+  // Buy hours from a resale listing; the contract splits payment between seller and creator royalty
+  async fillResaleListing(listing: ResaleListing, hoursAmount: number): Promise<ResaleFilledEvent> {
+    try {
+      console.log('🔁 Buying resale hours:', { listingId: listing.listingId, hoursAmount });
+
+      const account = getAccount(config);
+      const chainId = getChainId(config);
+
+      if (!account.address) {
+        throw new Error('Wallet not connected');
+      }
+
+      const resaleAddress = this.requireResaleContract(chainId);
+
+      // The resale contract enforces TokenizeAI's buyer KYC level
+      await this.assertKYCLevel('buy', account.address, chainId);
+
+      if (hoursAmount <= 0 || BigInt(hoursAmount) > listing.hoursAmount) {
+        throw new Error(`Invalid hours amount: ${hoursAmount}. Listed: ${listing.hoursAmount}`);
+      }
+
+      const totalPrice = this.calculatePurchaseCost(listing.pricePerHour, hoursAmount);
+
+      const hash = await writeContract(config, {
+        address: resaleAddress,
+        abi: TIME_TOKEN_RESALE_ABI,
+        functionName: 'fill',
+        args: [BigInt(listing.listingId), BigInt(hoursAmount)],
+        value: totalPrice
       });
 
-      console.log('📝 Deactivation transaction submitted:', hash);
+      console.log('📝 Resale purchase submitted:', hash);
 
       const receipt = await waitForTransactionReceipt(config, { hash });
-      console.log('✅ Token deactivated:', receipt);
+      const filled = getResaleFilledEvent(receipt, resaleAddress);
 
       this.alertAgent.addNotification({
-        type: 'system',
-        title: '🔒 Token Deactivated',
-        message: `Token #${tokenId} has been deactivated`,
-        priority: 'medium'
+        type: 'token_purchased',
+        title: '🔁 Resale Purchase Successful',
+        message: `Bought ${filled.hoursAmount}h of token #${filled.tokenId} from another holder`,
+        priority: 'high',
+        actionUrl: `/dashboard/purchases`,
+        actionLabel: 'View Purchase',
+        metadata: {
+          tokenId: filled.tokenId,
+          amount: Number(formatEther(filled.totalPrice))
+        }
       });
 
-      return hash;
+      return filled;
 
     } catch (error) {
-      console.error('❌ Failed to deactivate token:', error);
+      this.handlePurchaseError(error);
       throw error;
     }
   }
@@ -439,15 +1668,32 @@ export class ContractService {
 
       const token = tokenData as any;
 
+      const [usdPricePerHour, metadataURI] = await Promise.all([
+        readContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'usdPricePerHour',
+          args: [BigInt(tokenId)]
+        }),
+        readContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'uri',
+          args: [BigInt(tokenId)]
+        })
+      ]);
+
       return {
         tokenId,
         creator: token.creator,
         serviceName: token.serviceName,
         pricePerHour: token.pricePerHour,
+        usdPricePerHour: usdPricePerHour > BigInt(0) ? usdPricePerHour : undefined,
         totalHours: token.totalHours,
         availableHours: token.availableHours,
         validUntil: token.validUntil,
-        isActive: token.isActive
+        status: TOKEN_STATUSES[token.status],
+        metadataURI: metadataURI || undefined
       };
 
     } catch (error) {
@@ -456,39 +1702,6 @@ export class ContractService {
     }
   }
 
-  // Get market data for a token
-  async getMarketData(tokenId: string): Promise<{
-    availableHours: bigint;
-    pricePerHour: bigint;
-    validUntil: bigint;
-    isActive: boolean;
-  } | null> {
-    try {
-      const chainId = getChainId(config);
-      const contractAddress = getContractAddress(chainId);
-
-      const marketData = await readContract(config, {
-        address: contractAddress as `0x${string}`,
-        abi: TIME_TOKEN_ABI,
-        functionName: 'getMarketData',
-        args: [BigInt(tokenId)]
-      });
-
-      const data = marketData as any;
-
-      return {
-        availableHours: data[0],
-        pricePerHour: data[1],
-        validUntil: data[2],
-        isActive: data[3]
-      };
-
-    } catch (error) {
-      console.error('❌ Failed to get market data:', error);
-      return null;
-    }
-  }
-
   // Get user's created tokens
   async getCreatorTokens(creator: string): Promise<bigint[]> {
     try {
@@ -536,20 +1749,31 @@ export class ContractService {
     try {
       console.log('📊 Getting buyer tokens with balances for:', buyer);
       
+      const chainId = getChainId(config);
       const tokenIds = await this.getBuyerTokens(buyer);
       const tokensWithBalances: TimeToken[] = [];
 
-      for (const tokenId of tokenIds) {
+      // Purchase times come from the TimeTokenPurchased events
+      await getTokenIndexer().sync(chainId);
+      const purchaseLedger = getPurchaseLedger();
+      const purchaseSummaries = purchaseLedger.summarizeByToken(
+        await purchaseLedger.getBuyerLedger(chainId, buyer)
+      );
+
+      // Older deployments list a token once per purchase
+      const uniqueTokenIds = Array.from(new Set(tokenIds.map(id => id.toString())));
+
+      for (const tokenId of uniqueTokenIds) {
         // Get token details
-        const token = await this.getTimeToken(tokenId.toString());
+        const token = await this.getTimeToken(tokenId);
         if (token) {
           // Get user's balance (purchased hours) for this token
-          const purchasedHours = await this.getTokenBalance(buyer, tokenId.toString());
+          const purchasedHours = await this.getTokenBalance(buyer, tokenId);
           
           // Add purchased hours information
           token.purchasedHours = purchasedHours;
-          // Note: purchaseTimestamp would need to be tracked from events in production
-          token.purchaseTimestamp = Date.now(); // Placeholder - would come from transaction logs
+          const summary = purchaseSummaries.get(tokenId);
+          token.purchaseTimestamp = summary ? summary.lastPurchasedAt * 1000 : undefined;
           
           tokensWithBalances.push(token);
         }
@@ -585,8 +1809,490 @@ export class ContractService {
     }
   }
 
+  // Get escrow details
+  async getEscrow(escrowId: string): Promise<EscrowRecord | null> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const escrowData = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getEscrow',
+        args: [BigInt(escrowId)]
+      });
+
+      if (!escrowData || escrowData.status === 0) return null;
+
+      return {
+        escrowId,
+        tokenId: escrowData.tokenId.toString(),
+        buyer: escrowData.buyer,
+        creator: escrowData.creator,
+        hoursAmount: escrowData.hoursAmount,
+        amount: escrowData.amount,
+        fee: escrowData.fee,
+        paymentAsset: escrowData.paymentAsset,
+        createdAt: escrowData.createdAt,
+        releaseAfter: escrowData.releaseAfter,
+        status: ESCROW_STATUSES[escrowData.status] || 'none'
+      };
+
+    } catch (error) {
+      console.error('❌ Failed to get escrow:', error);
+      return null;
+    }
+  }
+
+  // Get escrows opened by a buyer
+  async getBuyerEscrows(buyer: string): Promise<EscrowRecord[]> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const escrowIds = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getBuyerEscrows',
+        args: [buyer as `0x${string}`]
+      });
+
+      const escrows = await Promise.all(escrowIds.map(id => this.getEscrow(id.toString())));
+      return escrows.filter((escrow): escrow is EscrowRecord => escrow !== null);
+
+    } catch (error) {
+      console.error('❌ Failed to get buyer escrows:', error);
+      return [];
+    }
+  }
+
+  // Get escrows holding payments for a creator
+  async getCreatorEscrows(creator: string): Promise<EscrowRecord[]> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const escrowIds = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getCreatorEscrows',
+        args: [creator as `0x${string}`]
+      });
+
+      const escrows = await Promise.all(escrowIds.map(id => this.getEscrow(id.toString())));
+      return escrows.filter((escrow): escrow is EscrowRecord => escrow !== null);
+
+    } catch (error) {
+      console.error('❌ Failed to get creator escrows:', error);
+      return [];
+    }
+  }
+
+  // Get dispute details
+  async getDispute(disputeId: string): Promise<DisputeRecord | null> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const disputeData = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getDispute',
+        args: [BigInt(disputeId)]
+      });
+
+      if (!disputeData || disputeData.status === ON_CHAIN_DISPUTE_STATUS.NONE) return null;
+
+      const isOpen = disputeData.status === ON_CHAIN_DISPUTE_STATUS.OPEN;
+      const pastDeadline = this.isTokenExpired(disputeData.deadline);
+      const escrow = await this.getEscrow(disputeData.escrowId.toString());
+
+      return {
+        disputeId,
+        escrowId: disputeData.escrowId.toString(),
+        buyer: disputeData.buyer,
+        creator: disputeData.creator,
+        evidenceURI: disputeData.evidenceURI,
+        responseURI: disputeData.responseURI,
+        openedAt: disputeData.openedAt,
+        deadline: disputeData.deadline,
+        buyerAmount: disputeData.buyerAmount,
+        creatorAmount: disputeData.creatorAmount,
+        paymentAsset: escrow?.paymentAsset ?? zeroAddress,
+        resolvedBy: disputeData.resolvedBy,
+        status: disputeData.status === ON_CHAIN_DISPUTE_STATUS.RESOLVED
+          ? 'resolved'
+          : isOpen && !pastDeadline ? 'open' : 'expired',
+        settled: !isOpen
+      };
+
+    } catch (error) {
+      console.error('❌ Failed to get dispute:', error);
+      return null;
+    }
+  }
+
+  // Get disputes opened by a buyer
+  async getBuyerDisputes(buyer: string): Promise<DisputeRecord[]> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const disputeIds = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getBuyerDisputes',
+        args: [buyer as `0x${string}`]
+      });
+
+      const disputes = await Promise.all(disputeIds.map(id => this.getDispute(id.toString())));
+      return disputes.filter((dispute): dispute is DisputeRecord => dispute !== null);
+
+    } catch (error) {
+      console.error('❌ Failed to get buyer disputes:', error);
+      return [];
+    }
+  }
+
+  // Get disputes raised against a creator
+  async getCreatorDisputes(creator: string): Promise<DisputeRecord[]> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const disputeIds = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getCreatorDisputes',
+        args: [creator as `0x${string}`]
+      });
+
+      const disputes = await Promise.all(disputeIds.map(id => this.getDispute(id.toString())));
+      return disputes.filter((dispute): dispute is DisputeRecord => dispute !== null);
+
+    } catch (error) {
+      console.error('❌ Failed to get creator disputes:', error);
+      return [];
+    }
+  }
+
+  // Check whether an address holds the arbiter role
+  async isArbiter(account: string): Promise<boolean> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      return await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'arbiters',
+        args: [account as `0x${string}`]
+      });
+
+    } catch (error) {
+      console.error('❌ Failed to check arbiter role:', error);
+      return false;
+    }
+  }
+
+  // Active resale listings on the current chain, cheapest first
+  async getResaleListings(): Promise<ResaleListing[]> {
+    try {
+      const chainId = getChainId(config);
+      const resaleAddress = getResaleContract(chainId) as `0x${string}` | null;
+      if (!resaleAddress) return [];
+
+      const listingCount = await readContract(config, {
+        address: resaleAddress,
+        abi: TIME_TOKEN_RESALE_ABI,
+        functionName: 'getCurrentListingId'
+      });
+
+      const ids = Array.from({ length: Number(listingCount) }, (_, index) => (index + 1).toString());
+      const listings = await Promise.all(ids.map(id => this.getResaleListing(id)));
+      return listings
+        .filter((listing): listing is ResaleListing => listing !== null && listing.active)
+        .sort((a, b) => (a.pricePerHour < b.pricePerHour ? -1 : a.pricePerHour > b.pricePerHour ? 1 : 0));
+
+    } catch (error) {
+      console.error('❌ Failed to get resale listings:', error);
+      return [];
+    }
+  }
+
+  // Get resale listing details
+  async getResaleListing(listingId: string): Promise<ResaleListing | null> {
+    try {
+      const chainId = getChainId(config);
+      const resaleAddress = getResaleContract(chainId) as `0x${string}` | null;
+      if (!resaleAddress) return null;
+
+      const listing = await readContract(config, {
+        address: resaleAddress,
+        abi: TIME_TOKEN_RESALE_ABI,
+        functionName: 'getListing',
+        args: [BigInt(listingId)]
+      });
+
+      if (!listing || listing.seller === zeroAddress) return null;
+
+      return {
+        listingId,
+        tokenId: listing.tokenId.toString(),
+        seller: listing.seller,
+        hoursAmount: listing.hoursAmount,
+        pricePerHour: listing.pricePerHour,
+        createdAt: listing.createdAt,
+        active: listing.active
+      };
+
+    } catch (error) {
+      console.error('❌ Failed to get resale listing:', error);
+      return null;
+    }
+  }
+
+  // Creator royalty taken from each resale, in basis points
+  async getResaleRoyaltyBps(): Promise<number> {
+    try {
+      const chainId = getChainId(config);
+      const resaleAddress = getResaleContract(chainId) as `0x${string}` | null;
+      if (!resaleAddress) return FEATURE_FLAGS.RESALE_ROYALTY_PERCENTAGE * 100;
+
+      const royaltyBps = await readContract(config, {
+        address: resaleAddress,
+        abi: TIME_TOKEN_RESALE_ABI,
+        functionName: 'royaltyBps'
+      });
+      return Number(royaltyBps);
+
+    } catch (error) {
+      console.error('❌ Failed to get resale royalty:', error);
+      return FEATURE_FLAGS.RESALE_ROYALTY_PERCENTAGE * 100;
+    }
+  }
+
+  // Get the creator's escrow requirements for a token
+  async getEscrowPolicy(tokenId: string): Promise<EscrowPolicy> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const policy = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getEscrowPolicy',
+        args: [BigInt(tokenId)]
+      });
+
+      return {
+        required: policy.required,
+        timeoutDays: Number(policy.timeoutDays)
+      };
+
+    } catch (error) {
+      console.error('❌ Failed to get escrow policy:', error);
+      return { required: false, timeoutDays: 0 };
+    }
+  }
+
+  // Get the on-chain platform fee for an escrowed purchase
+  async getEscrowFee(totalPrice: bigint): Promise<bigint> {
+    const chainId = getChainId(config);
+    const contractAddress = getContractAddress(chainId);
+
+    return await readContract(config, {
+      address: contractAddress as `0x${string}`,
+      abi: TIME_TOKEN_ABI,
+      functionName: 'calculateEscrowFee',
+      args: [totalPrice]
+    });
+  }
+
+  // ERC-20s a token accepts, limited to the assets this app knows how to display
+  async getTokenPaymentAssets(tokenId: string): Promise<TokenPaymentAsset[]> {
+    try {
+      const chainId = getChainId(config);
+      const contractAddress = getContractAddress(chainId);
+
+      const assets = await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'getTokenPaymentAssets',
+        args: [BigInt(tokenId)]
+      });
+
+      const accepted: TokenPaymentAsset[] = [];
+      for (const assetAddress of assets) {
+        const asset = this.priceService.getPaymentAsset(assetAddress, chainId);
+        if (!asset) continue;
+
+        const pricePerHour = await readContract(config, {
+          address: contractAddress as `0x${string}`,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'assetPricePerHour',
+          args: [BigInt(tokenId), asset.address]
+        });
+        accepted.push({ asset, pricePerHour });
+      }
+      return accepted;
+
+    } catch (error) {
+      console.error('❌ Failed to get token payment assets:', error);
+      return [];
+    }
+  }
+
+  // Native amount a purchase costs right now. USD-priced tokens are quoted from the
+  // contract's price feed, so feed problems surface as PriceUnavailable.
+  async quotePurchase(tokenId: string, hours: number): Promise<bigint> {
+    const chainId = getChainId(config);
+    const contractAddress = getContractAddress(chainId);
+
+    try {
+      return await readContract(config, {
+        address: contractAddress as `0x${string}`,
+        abi: TIME_TOKEN_ABI,
+        functionName: 'quotePurchase',
+        args: [BigInt(tokenId), BigInt(hours)]
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const reasons: [string, PriceUnavailableReason][] = [
+        ['PriceFeedNotSet', 'no_feed'],
+        ['StalePrice', 'stale'],
+        ['IncompletePriceRound', 'incomplete_round'],
+        ['InvalidPrice', 'invalid_answer']
+      ];
+      const match = reasons.find(([revert]) => message.includes(revert));
+      console.error('❌ Failed to quote purchase:', error);
+      throw new PriceUnavailable(
+        match ? match[1] : 'read_failed',
+        chainId,
+        match ? `On-chain price feed rejected the quote (${match[0]})` : 'Could not quote this token'
+      );
+    }
+  }
+
+  // KYC registry and minimum levels TokenizeAI enforces on create and purchase
+  async getKYCPolicy(chainId?: number): Promise<KYCPolicy> {
+    const contractAddress = getContractAddress(chainId ?? getChainId(config)) as `0x${string}`;
+    const [registry, minCreatorLevel, minBuyerLevel] = await Promise.all([
+      readContract(config, { address: contractAddress, abi: TIME_TOKEN_ABI, functionName: 'kycRegistry' }),
+      readContract(config, { address: contractAddress, abi: TIME_TOKEN_ABI, functionName: 'minCreatorKYCLevel' }),
+      readContract(config, { address: contractAddress, abi: TIME_TOKEN_ABI, functionName: 'minBuyerKYCLevel' })
+    ]);
+
+    return {
+      registry: registry === zeroAddress ? null : registry,
+      minCreatorLevel: Number(minCreatorLevel),
+      minBuyerLevel: Number(minBuyerLevel)
+    };
+  }
+
+  // Level an account holds in the given KYC registry; 0 without a KYC NFT
+  async getKYCLevel(account: string, registry: string): Promise<number> {
+    const [hasAccess, level] = await Promise.all([
+      readContract(config, { address: registry as `0x${string}`, abi: KYC_REGISTRY_ABI, functionName: 'hasKYCAccess', args: [account as `0x${string}`] }),
+      readContract(config, { address: registry as `0x${string}`, abi: KYC_REGISTRY_ABI, functionName: 'getKYCLevel', args: [account as `0x${string}`] })
+    ]);
+    return hasAccess ? Number(level) : 0;
+  }
+
+  // Fail before the wallet prompt when the contract would revert with KYCLevelInsufficient
+  private async assertKYCLevel(action: KYCAction, account: string, chainId: number): Promise<void> {
+    const policy = await this.getKYCPolicy(chainId);
+    const requiredLevel = action === 'create' ? policy.minCreatorLevel : policy.minBuyerLevel;
+    if (!policy.registry || requiredLevel === 0) return;
+
+    const currentLevel = await this.getKYCLevel(account, policy.registry);
+    if (currentLevel >= requiredLevel) return;
+
+    const error = new KYCLevelInsufficient(action, requiredLevel, currentLevel);
+    console.warn('🪪 KYC check failed:', error.message);
+    this.alertAgent.addNotification({
+      type: 'system',
+      title: '🪪 KYC Level Insufficient',
+      message: `${error.message}. Complete KYC verification to continue.`,
+      priority: 'high'
+    });
+    throw error;
+  }
+
+  // Hold every creation path, not just the agent flow, to the creator's KYC tier limits
+  private async assertTierLimits(tokens: TokenCreationParams[], creator: string, chainId: number): Promise<void> {
+    const { level } = await KYCTierPolicy.getAccountTier(creator, chainId);
+
+    let activeTokens = 0;
+    try {
+      const indexer = getTokenIndexer();
+      await indexer.sync(chainId);
+      activeTokens = indexer.countTokens(chainId, { creator, statuses: ['Active'] });
+    } catch (error) {
+      console.error('❌ Failed to count active tokens for tier limits:', error);
+    }
+
+    tokens.forEach((params, index) => {
+      // Earlier tokens in a bundle take up active slots too
+      const validation = ParameterValidationService.validateTokenCreation(params, { kycLevel: level, activeTokens: activeTokens + index });
+      if (!validation.isValid) {
+        const label = tokens.length > 1 ? ` for "${params.serviceName}"` : '';
+        throw new Error(`KYC tier limit${label}: ${validation.errors.join(', ')}`);
+      }
+    });
+  }
+
   // Utility functions
 
+  private requireResaleContract(chainId: number): `0x${string}` {
+    const resaleAddress = getResaleContract(chainId);
+    if (!FEATURE_FLAGS.RESALE_ENABLED || !resaleAddress) {
+      throw new Error('Resale is not available on this network');
+    }
+    return resaleAddress as `0x${string}`;
+  }
+
+  // Human-readable amount for notifications, in the asset's own units
+  private toDisplayAmount(amount: bigint, paymentAsset: string | undefined, chainId: number): number {
+    if (this.priceService.isNativeAsset(paymentAsset)) {
+      return Number(formatEther(amount));
+    }
+    const asset = this.priceService.getPaymentAsset(paymentAsset as string, chainId);
+    return Number(formatUnits(amount, asset?.decimals ?? 18));
+  }
+
+  // Upper bound to send with a USD-priced purchase
+  applySlippage(quote: bigint, slippageBps: number): bigint {
+    return (quote * BigInt(10000 + slippageBps)) / BigInt(10000);
+  }
+
+  // Format a USD-priced token's on-chain price
+  formatUsdPrice(usdAmount: bigint): string {
+    return `$${Number(formatUnits(usdAmount, USD_PRICING_CONFIG.USD_DECIMALS)).toFixed(2)}`;
+  }
+
+  isUsdPriced(token: TimeToken): boolean {
+    return !!token.usdPricePerHour && token.usdPricePerHour > BigInt(0);
+  }
+
+  // Estimate the escrow platform fee from the configured percentage (for display)
+  calculateEscrowFee(totalPrice: bigint): bigint {
+    const feeBps = BigInt(Math.round(FEATURE_FLAGS.ESCROW_FEE_PERCENTAGE * 100));
+    return (totalPrice * feeBps) / BigInt(10000);
+  }
+
+  // Check if an escrow can be claimed by the creator
+  canClaimEscrow(escrow: EscrowRecord): boolean {
+    return escrow.status === 'held' && this.isTokenExpired(escrow.releaseAfter);
+  }
+
+  // Check if the creator can still mark a held escrow complete (releaseAfter not yet pulled into the dispute window)
+  canMarkEscrowCompleted(escrow: EscrowRecord): boolean {
+    const window = BigInt(FEATURE_FLAGS.ESCROW_COMPLETION_DISPUTE_DAYS * 24 * 60 * 60);
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    return escrow.status === 'held' && escrow.releaseAfter > now + window;
+  }
+
   // Calculate token purchase cost
   calculatePurchaseCost(pricePerHour: bigint, hours: number): bigint {
     return pricePerHour * BigInt(hours);
@@ -598,6 +2304,14 @@ export class ContractService {
     return now > validUntil;
   }
 
+  // Lifecycle state to show for a token; mirrors TokenizeAI.getTokenStatus, which reports
+  // Active tokens past validUntil as Expired before the expiry is recorded
+  getTokenStatus(token: TimeToken): TokenStatus {
+    if (token.status === 'Active' && this.isTokenExpired(token.validUntil)) return 'Expired';
+    if (token.status === 'Active' && token.availableHours === BigInt(0)) return 'SoldOut';
+    return token.status;
+  }
+
   // Format price for display with both crypto and USD
   async formatPrice(priceWei: bigint, chainId?: number) {
     return await this.priceService.formatPrice(priceWei, chainId);
@@ -0,0 +1,173 @@
+'use client';
+
+import { formatEther } from 'viem';
+import { WEB3_CONFIG } from '../shared/constants';
+import { getChainDisplayName } from '../lib/wagmi';
+import { getTokenIndexer } from './tokenIndexer';
+import { getPurchaseLedger, PurchaseRecord } from './purchaseLedger';
+import { getPriceService } from './priceService';
+
+// Creator-side view of the purchase ledger. Only realized revenue counts: escrowed
+// sales appear when released or ruled on, at the creator's share, and refunds never do.
+// Every sale keeps the native amount received and its USD value at the Chainlink round
+// in effect at the block it was paid out, which is the cost basis of the native
+// currency the creator was paid in.
+
+export interface EarningsBreakdown {
+  key: string;
+  label: string;
+  saleCount: number;
+  hoursSold: bigint;
+  nativeAmounts: Record<number, bigint>; // Keyed by chain id, since AVAX and ETH can't be summed
+  assetAmounts: Record<string, bigint>; // ERC-20 payments keyed by symbol
+  usdValue: number;
+  unpricedCount: number;
+}
+
+export interface ChainEarnings extends EarningsBreakdown {
+  chainId: number;
+  currencySymbol: string;
+  averageCostBasis: number | null; // USD per native unit received, across priced sales
+  currentPrice: number | null;
+  currentValue: number | null; // Priced sales' native amount valued at today's price
+}
+
+export interface CreatorEarnings {
+  sales: PurchaseRecord[];
+  totalUSD: number;
+  unpricedCount: number;
+  byToken: EarningsBreakdown[];
+  byMonth: EarningsBreakdown[];
+  byChain: ChainEarnings[];
+  failedChains: number[]; // Chains whose index could not be synced
+}
+
+export class EarningsLedgerService {
+  private tokenIndexer = getTokenIndexer();
+  private purchaseLedger = getPurchaseLedger();
+  private priceService = getPriceService();
+
+  // Realized revenue for a creator across chains, syncing each chain's index first
+  async getCreatorEarnings(
+    creator: string,
+    chainIds: readonly number[] = WEB3_CONFIG.SUPPORTED_CHAINS
+  ): Promise<CreatorEarnings> {
+    const failedChains: number[] = [];
+    const sales: PurchaseRecord[] = [];
+
+    for (const chainId of chainIds) {
+      try {
+        await this.tokenIndexer.sync(chainId);
+        sales.push(...await this.purchaseLedger.getCreatorLedger(chainId, creator));
+      } catch (error) {
+        console.error(`❌ Failed to load earnings for ${getChainDisplayName(chainId)}:`, error);
+        failedChains.push(chainId);
+      }
+    }
+
+    sales.sort((a, b) => b.blockTimestamp - a.blockTimestamp);
+    console.log(`💰 Loaded ${sales.length} sales for ${creator}`);
+
+    return {
+      sales,
+      totalUSD: sales.reduce((total, sale) => total + (sale.usdValue ?? 0), 0),
+      unpricedCount: sales.filter(sale => sale.usdValue === null).length,
+      byToken: this.groupBy(sales, sale => `${sale.chainId}:${sale.tokenId}`, sale => sale.serviceName),
+      byMonth: this.groupBy(sales, sale => this.getMonthKey(sale), sale => this.getMonthLabel(sale)),
+      byChain: await this.summarizeByChain(sales),
+      failedChains
+    };
+  }
+
+  private async summarizeByChain(sales: PurchaseRecord[]): Promise<ChainEarnings[]> {
+    const groups = this.groupBy(sales, sale => sale.chainId.toString(), sale => getChainDisplayName(sale.chainId));
+
+    return Promise.all(groups.map(async group => {
+      const chainId = Number(group.key);
+      // Cost basis only applies to the native currency; stablecoin sales hold their value
+      const pricedSales = sales.filter(sale =>
+        sale.chainId === chainId && sale.usdPrice !== null && this.purchaseLedger.isNativePayment(sale)
+      );
+      const pricedNative = pricedSales.reduce((total, sale) => total + Number(formatEther(sale.amount)), 0);
+      const pricedUSD = pricedSales.reduce((total, sale) => total + (sale.usdValue ?? 0), 0);
+
+      // Today's price is only used to compare against cost basis, never to value past sales
+      let currentPrice: number | null = null;
+      try {
+        currentPrice = (await this.priceService.getLatestPrice(chainId)).price;
+      } catch (error) {
+        console.error('❌ Failed to fetch current price for chain', chainId, error);
+      }
+
+      return {
+        ...group,
+        chainId,
+        currencySymbol: this.priceService.getCurrentCurrencyInfo(chainId).symbol,
+        averageCostBasis: pricedNative > 0 ? pricedUSD / pricedNative : null,
+        currentPrice,
+        currentValue: currentPrice === null ? null : pricedNative * currentPrice
+      };
+    }));
+  }
+
+  // Group sales by key, keeping first-seen order (sales arrive newest first)
+  private groupBy(
+    sales: PurchaseRecord[],
+    getKey: (sale: PurchaseRecord) => string,
+    getLabel: (sale: PurchaseRecord) => string
+  ): EarningsBreakdown[] {
+    const groups = new Map<string, EarningsBreakdown>();
+
+    for (const sale of sales) {
+      const key = getKey(sale);
+      const group = groups.get(key) ?? {
+        key,
+        label: getLabel(sale),
+        saleCount: 0,
+        hoursSold: BigInt(0),
+        nativeAmounts: {},
+        assetAmounts: {},
+        usdValue: 0,
+        unpricedCount: 0
+      };
+
+      group.saleCount += 1;
+      group.hoursSold += sale.hoursAmount;
+      if (this.purchaseLedger.isNativePayment(sale)) {
+        group.nativeAmounts[sale.chainId] = (group.nativeAmounts[sale.chainId] ?? BigInt(0)) + sale.amount;
+      } else {
+        group.assetAmounts[sale.paymentSymbol] = (group.assetAmounts[sale.paymentSymbol] ?? BigInt(0)) + sale.amount;
+      }
+      group.usdValue += sale.usdValue ?? 0;
+      group.unpricedCount += sale.usdValue === null ? 1 : 0;
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  private getMonthKey(sale: PurchaseRecord): string {
+    const date = new Date(sale.blockTimestamp * 1000);
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private getMonthLabel(sale: PurchaseRecord): string {
+    return new Date(sale.blockTimestamp * 1000).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'long',
+      timeZone: 'UTC'
+    });
+  }
+}
+
+// Global earnings ledger instance
+let earningsLedgerInstance: EarningsLedgerService | null = null;
+
+export const getEarningsLedger = (): EarningsLedgerService => {
+  if (!earningsLedgerInstance) {
+    earningsLedgerInstance = new EarningsLedgerService();
+  }
+  return earningsLedgerInstance;
+};
+
+export default EarningsLedgerService;
@@ -0,0 +1,152 @@
+'use client';
+
+import { EXPIRY_REMINDER_CONFIG } from '../shared/constants';
+import { getAlertAgent, AlertAgent } from './alertAgent';
+import { getTokenIndexer } from './tokenIndexer';
+import type { TimeToken } from './contractService';
+
+// Turns on-chain validUntil into "expires in N days" and "expired" alerts for the
+// tokens a wallet created or bought. Each threshold fires once per token and
+// validUntil; extending a token re-arms its reminders.
+
+interface ReminderRecord {
+  validUntil: string; // validUntil the fired thresholds belong to
+  fired: number[]; // Threshold days already alerted, 0 for expired
+}
+
+const STORAGE_KEY = 'timeTokenizer_expiryReminders';
+const DAY = 24 * 60 * 60;
+
+export class ExpiryReminderScheduler {
+  private records: Record<string, ReminderRecord> = {};
+  private watchers: Map<string, { count: number; timer: ReturnType<typeof setInterval> }> = new Map();
+
+  constructor() {
+    this.records = this.loadRecords();
+  }
+
+  // Scan a wallet's tokens now and on an interval; returns an unsubscribe function
+  watch(chainId: number, account: string): () => void {
+    const key = `${chainId}:${account.toLowerCase()}`;
+    const existing = this.watchers.get(key);
+
+    if (existing) {
+      existing.count++;
+    } else {
+      const run = () => {
+        this.scan(chainId, account).catch(error => console.error('❌ Expiry reminder scan failed:', error));
+      };
+      run();
+      this.watchers.set(key, { count: 1, timer: setInterval(run, EXPIRY_REMINDER_CONFIG.SCAN_INTERVAL) });
+    }
+
+    return () => {
+      const watcher = this.watchers.get(key);
+      if (!watcher) return;
+      watcher.count--;
+      if (watcher.count === 0) {
+        clearInterval(watcher.timer);
+        this.watchers.delete(key);
+      }
+    };
+  }
+
+  // Emit any reminders that are due; returns how many were sent
+  async scan(chainId: number, account: string): Promise<number> {
+    const alertAgent = getAlertAgent();
+    // Reminders stay pending while muted so they go out once quiet hours end
+    if (!alertAgent.getPreferences().notifyOnTokenExpiry || alertAgent.isQuietHours()) {
+      return 0;
+    }
+
+    const indexer = getTokenIndexer();
+    await indexer.sync(chainId);
+
+    const created = indexer.getTokens(chainId, { creator: account });
+    const createdIds = new Set(created.map(token => token.tokenId));
+    const purchased = indexer.getTokens(chainId, { buyer: account }).filter(token => !createdIds.has(token.tokenId));
+    const now = Math.floor(Date.now() / 1000);
+
+    let sent = 0;
+    for (const token of created) {
+      if (this.remind(alertAgent, chainId, account, token, false, now)) sent++;
+    }
+    for (const token of purchased) {
+      if (this.remind(alertAgent, chainId, account, token, true, now)) sent++;
+    }
+
+    this.saveRecords();
+    if (sent > 0) {
+      console.log(`⏰ Sent ${sent} expiry reminder${sent === 1 ? '' : 's'} for ${account}`);
+    }
+    return sent;
+  }
+
+  // Fire the most urgent threshold the token has crossed, if it hasn't fired yet
+  private remind(alertAgent: AlertAgent, chainId: number, account: string, token: TimeToken, purchased: boolean, now: number): boolean {
+    if (token.status === 'Retired') return false;
+
+    const key = `${chainId}:${account.toLowerCase()}:${token.tokenId}`;
+    const validUntil = token.validUntil.toString();
+    const record = this.records[key]?.validUntil === validUntil
+      ? this.records[key]
+      : { validUntil, fired: [] };
+    this.records[key] = record;
+
+    const remaining = Number(token.validUntil) - now;
+    const due = remaining <= 0
+      ? 0
+      : Math.min(...EXPIRY_REMINDER_CONFIG.THRESHOLD_DAYS.filter(days => remaining <= days * DAY), Infinity);
+    if (due === Infinity || record.fired.some(days => days <= due)) return false;
+
+    // Passed thresholds count as fired so a late scan doesn't replay them
+    record.fired = [
+      ...EXPIRY_REMINDER_CONFIG.THRESHOLD_DAYS.filter(days => days >= due),
+      ...(due === 0 ? [0] : [])
+    ];
+
+    // Don't announce long-gone expiries the first time a wallet is scanned
+    if (due === 0 && -remaining > EXPIRY_REMINDER_CONFIG.EXPIRED_LOOKBACK_DAYS * DAY) return false;
+
+    const daysLeft = due === 0 ? 0 : Math.ceil(remaining / DAY);
+    alertAgent.addNotification({
+      ...AlertAgent.createTokenExpiryAlert(token.tokenId, token.serviceName, daysLeft, purchased),
+      metadata: { tokenId: token.tokenId, serviceName: token.serviceName, chainId }
+    });
+    return true;
+  }
+
+  private loadRecords(): Record<string, ReminderRecord> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to load expiry reminders:', error);
+      return {};
+    }
+  }
+
+  private saveRecords(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.error('Failed to save expiry reminders:', error);
+    }
+  }
+}
+
+// Global expiry reminder scheduler instance
+let expiryReminderInstance: ExpiryReminderScheduler | null = null;
+
+export const getExpiryReminderScheduler = (): ExpiryReminderScheduler => {
+  if (!expiryReminderInstance) {
+    expiryReminderInstance = new ExpiryReminderScheduler();
+  }
+  return expiryReminderInstance;
+};
+
+export default ExpiryReminderScheduler;
@@ -0,0 +1,83 @@
+'use client';
+
+import { getUnifiedKYCAgent } from './unifiedKycAgent';
+
+// Maps wallet_kyc levels (0-10) to the platform limits each tier unlocks. Only the
+// level on the wallet's KYC NFT counts; a database level without the NFT is Unverified.
+
+export interface KYCTier {
+  name: string;
+  icon: string;
+  minLevel: number; // Lowest KYC level in the tier
+  maxPricePerHourUSD: number | null; // null means no cap
+  maxTotalHoursPerToken: number | null;
+  maxActiveTokens: number | null;
+  escrowRequired: boolean; // Purchases must go through escrow
+}
+
+export interface AccountKYCTier {
+  level: number;
+  tier: KYCTier;
+  nextTier: KYCTier | null;
+}
+
+export const MAX_KYC_LEVEL = 10;
+
+// Ordered by minLevel; each tier covers levels up to the next tier's minLevel
+export const KYC_TIERS: readonly KYCTier[] = [
+  { name: 'Unverified', icon: '🔓', minLevel: 0, maxPricePerHourUSD: 50, maxTotalHoursPerToken: 20, maxActiveTokens: 1, escrowRequired: true },
+  { name: 'Basic', icon: '🪪', minLevel: 1, maxPricePerHourUSD: 150, maxTotalHoursPerToken: 100, maxActiveTokens: 3, escrowRequired: true },
+  { name: 'Verified', icon: '✅', minLevel: 3, maxPricePerHourUSD: 500, maxTotalHoursPerToken: 500, maxActiveTokens: 10, escrowRequired: false },
+  { name: 'Professional', icon: '💼', minLevel: 6, maxPricePerHourUSD: 2000, maxTotalHoursPerToken: 1000, maxActiveTokens: 25, escrowRequired: false },
+  { name: 'Enterprise', icon: '🏛️', minLevel: 9, maxPricePerHourUSD: null, maxTotalHoursPerToken: null, maxActiveTokens: null, escrowRequired: false }
+];
+
+export class KYCTierPolicy {
+
+  static getTier(level: number): KYCTier {
+    const clamped = Math.max(0, Math.min(MAX_KYC_LEVEL, Math.floor(level)));
+    return [...KYC_TIERS].reverse().find(tier => clamped >= tier.minLevel) ?? KYC_TIERS[0];
+  }
+
+  // Null at the top tier
+  static getNextTier(level: number): KYCTier | null {
+    const index = KYC_TIERS.indexOf(this.getTier(level));
+    return KYC_TIERS[index + 1] ?? null;
+  }
+
+  // What moving from one tier to another changes, for display
+  static describeUnlocks(current: KYCTier, next: KYCTier): string[] {
+    const unlocks: string[] = [];
+    const limit = (value: number | null, format: (value: number) => string) =>
+      value === null ? 'no limit' : format(value);
+
+    if (next.maxPricePerHourUSD !== current.maxPricePerHourUSD) {
+      unlocks.push(`Price per hour: ${limit(next.maxPricePerHourUSD, value => `up to $${value.toLocaleString()}`)}`);
+    }
+    if (next.maxTotalHoursPerToken !== current.maxTotalHoursPerToken) {
+      unlocks.push(`Hours per token: ${limit(next.maxTotalHoursPerToken, value => `up to ${value.toLocaleString()}`)}`);
+    }
+    if (next.maxActiveTokens !== current.maxActiveTokens) {
+      unlocks.push(`Active tokens: ${limit(next.maxActiveTokens, value => `up to ${value}`)}`);
+    }
+    if (current.escrowRequired && !next.escrowRequired) {
+      unlocks.push('Purchases without escrow');
+    }
+    return unlocks;
+  }
+
+  // Tier the account's KYC NFT places it in; on a chain whose TokenizeAI checks KYC, only its registry's pass counts
+  static async getAccountTier(account: string, chainId?: number): Promise<AccountKYCTier> {
+    let level = 0;
+    try {
+      const status = await getUnifiedKYCAgent().checkKYCStatus(account, chainId);
+      level = status.hasAccess ? status.kycLevel : 0;
+    } catch (error) {
+      console.error('❌ Failed to load KYC level for tier:', error);
+    }
+
+    return { level, tier: this.getTier(level), nextTier: this.getNextTier(level) };
+  }
+}
+
+export default KYCTierPolicy;
@@ -1,6 +1,7 @@
 'use client';
 
 import { TokenSuggestion } from './tokenizeAgent';
+import { KYCTierPolicy } from './kycTiers';
 
 // Interface for createTimeToken parameters
 export interface CreateTokenParams {
@@ -19,6 +20,12 @@ export interface ValidationResult {
   suggestions: CreateTokenParams | null;
 }
 
+// Creator's KYC level and current token count, for enforcing tier limits
+export interface KYCLimitContext {
+  kycLevel: number;
+  activeTokens?: number; // Skip the active token limit when omitted, e.g. for edits
+}
+
 export interface ParameterGap {
   field: string;
   required: boolean;
@@ -31,7 +38,7 @@ export interface ParameterGap {
 export class ParameterValidationService {
   
   // Validate if all required parameters for createTimeToken are present and valid
-  static validateTokenCreation(params: Partial<CreateTokenParams>): ValidationResult {
+  static validateTokenCreation(params: Partial<CreateTokenParams>, kyc?: KYCLimitContext): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
     const missingParams: string[] = [];
@@ -87,6 +94,22 @@ export class ParameterValidationService {
       }
     }
 
+    // KYC tier limits
+    if (kyc) {
+      const tier = KYCTierPolicy.getTier(kyc.kycLevel);
+      const upgrade = 'verify to a higher KYC level to raise it';
+
+      if (tier.maxPricePerHourUSD !== null && params.pricePerHour && params.pricePerHour > tier.maxPricePerHourUSD) {
+        errors.push(`${tier.name} accounts can charge up to $${tier.maxPricePerHourUSD.toLocaleString()}/hour; ${upgrade}`);
+      }
+      if (tier.maxTotalHoursPerToken !== null && params.totalHours && params.totalHours > tier.maxTotalHoursPerToken) {
+        errors.push(`${tier.name} accounts can offer up to ${tier.maxTotalHoursPerToken.toLocaleString()} hours per token; ${upgrade}`);
+      }
+      if (tier.maxActiveTokens !== null && kyc.activeTokens !== undefined && kyc.activeTokens >= tier.maxActiveTokens) {
+        errors.push(`${tier.name} accounts can have up to ${tier.maxActiveTokens} active token${tier.maxActiveTokens === 1 ? '' : 's'}; ${upgrade}`);
+      }
+    }
+
     return {
       isValid: errors.length === 0 && missingParams.length === 0,
       errors,
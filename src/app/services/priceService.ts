@@ -1,10 +1,13 @@
 'use client';
 
-import { readContract, getChainId } from '@wagmi/core';
-import { parseEther, formatEther } from 'viem';
+import { readContract, getChainId, getPublicClient } from '@wagmi/core';
+import { parseEther, formatEther, formatUnits, zeroAddress } from 'viem';
 import { config } from '../lib/wagmi';
 import { 
   CHAINLINK_PRICE_FEEDS, 
+  PRICE_FEED_GUARDS,
+  PAYMENT_ASSETS,
+  PaymentAssetConfig,
   AVALANCHE_FUJI_CHAIN_ID, 
   ETHEREUM_SEPOLIA_CHAIN_ID, 
   BASE_SEPOLIA_CHAIN_ID 
@@ -18,6 +21,36 @@ export interface PriceData {
   roundId: string;
 }
 
+export type PriceUnavailableReason =
+  | 'no_feed'
+  | 'read_failed'
+  | 'invalid_answer'
+  | 'incomplete_round'
+  | 'stale'
+  | 'deviation';
+
+// Thrown instead of returning a made-up price; callers must decide what to do without one
+export class PriceUnavailable extends Error {
+  constructor(
+    public readonly reason: PriceUnavailableReason,
+    public readonly chainId: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PriceUnavailable';
+  }
+}
+
+interface RoundData {
+  roundId: bigint;
+  answer: bigint;
+  updatedAt: number;
+}
+
+// Chainlink proxy round ids pack the phase above the aggregator's own round id
+const PHASE_OFFSET = BigInt(64);
+const AGGREGATOR_ROUND_MASK = (BigInt(1) << PHASE_OFFSET) - BigInt(1);
+
 export interface FormattedPrice {
   crypto: string;
   usd: string;
@@ -27,6 +60,13 @@ export interface FormattedPrice {
 
 export class PriceService {
   private priceCache: Map<string, { data: PriceData; timestamp: number }> = new Map();
+  private lastGoodPrices: Map<number, PriceData> = new Map();
+  private rejectedRounds: Map<number, string> = new Map(); // Last round refused for deviating from lastGoodPrices
+  private historicalPriceCache: Map<string, PriceData> = new Map();
+  private roundCache: Map<string, RoundData | null> = new Map();
+  private phaseEndCache: Map<string, bigint> = new Map();
+  private decimalsCache: Map<string, number> = new Map();
+  private blockTimeCache: Map<string, number> = new Map();
   private readonly CACHE_DURATION = 60000; // 1 minute cache
 
   // Get the appropriate price feed address for current chain
@@ -57,92 +97,311 @@ export class PriceService {
     }
   }
 
-  // Get latest price from Chainlink Price Feed
+  // Get latest price from Chainlink Price Feed. Throws PriceUnavailable rather than
+  // returning a price that is missing, stale or out of line with the last good one.
   async getLatestPrice(chainId?: number): Promise<PriceData> {
-    try {
-      const currentChainId = chainId || getChainId(config);
-      const cacheKey = `price_${currentChainId}`;
-      
-      // Check cache first
-      const cached = this.priceCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-        console.log('🎯 Using cached price data');
-        return cached.data;
-      }
+    const currentChainId = chainId || getChainId(config);
+    const cacheKey = `price_${currentChainId}`;
 
-      const priceFeedAddress = this.getPriceFeedAddress(currentChainId);
-      if (!priceFeedAddress) {
-        throw new Error(`No price feed available for chain ${currentChainId}`);
-      }
+    // Check cache first
+    const cached = this.priceCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      console.log('🎯 Using cached price data');
+      return cached.data;
+    }
 
-      console.log('📊 Fetching latest price from Chainlink:', {
-        chainId: currentChainId,
-        priceFeedAddress,
-        currency: this.getNativeCurrencySymbol(currentChainId)
-      });
+    const priceFeedAddress = this.getPriceFeedAddress(currentChainId);
+    if (!priceFeedAddress) {
+      throw new PriceUnavailable('no_feed', currentChainId, `No price feed available for chain ${currentChainId}`);
+    }
 
+    console.log('📊 Fetching latest price from Chainlink:', {
+      chainId: currentChainId,
+      priceFeedAddress,
+      currency: this.getNativeCurrencySymbol(currentChainId)
+    });
+
+    let roundData: [bigint, bigint, bigint, bigint, bigint];
+    let decimals: number;
+    try {
       // Get latest round data from Chainlink
-      const roundData = await readContract(config, {
+      roundData = await readContract(config, {
         address: priceFeedAddress as `0x${string}`,
         abi: CHAINLINK_PRICE_FEED_ABI,
-        functionName: 'latestRoundData'
+        functionName: 'latestRoundData',
+        chainId: currentChainId as (typeof config)['chains'][number]['id']
       }) as [bigint, bigint, bigint, bigint, bigint];
 
-      const [roundId, answer, startedAt, updatedAt, answeredInRound] = roundData;
-
       // Get decimals for proper price formatting
-      const decimals = await readContract(config, {
-        address: priceFeedAddress as `0x${string}`,
-        abi: CHAINLINK_PRICE_FEED_ABI,
-        functionName: 'decimals'
-      }) as number;
+      decimals = await this.getFeedDecimals(priceFeedAddress as `0x${string}`, currentChainId);
+    } catch (error) {
+      console.error('❌ Failed to fetch price from Chainlink:', error);
+      throw new PriceUnavailable('read_failed', currentChainId, `Could not read the ${this.getNativeCurrencySymbol(currentChainId)}/USD price feed`);
+    }
+
+    const [roundId, answer, , updatedAt, answeredInRound] = roundData;
+
+    // Convert price to readable format
+    const price = Number(answer) / Math.pow(10, decimals);
+
+    const priceData: PriceData = {
+      price,
+      decimals,
+      updatedAt: Number(updatedAt),
+      roundId: roundId.toString()
+    };
+
+    this.assertPriceUsable(currentChainId, priceData, answer, answeredInRound, roundId);
+
+    // Cache the result
+    this.priceCache.set(cacheKey, {
+      data: priceData,
+      timestamp: Date.now()
+    });
+    this.lastGoodPrices.set(currentChainId, priceData);
 
-      // Convert price to readable format
-      const price = Number(answer) / Math.pow(10, decimals);
+    console.log('✅ Price fetched successfully:', {
+      price: `$${price.toFixed(2)}`,
+      currency: this.getNativeCurrencySymbol(currentChainId),
+      updatedAt: new Date(Number(updatedAt) * 1000).toISOString()
+    });
+
+    return priceData;
+  }
+
+  private assertPriceUsable(
+    chainId: number,
+    priceData: PriceData,
+    answer: bigint,
+    answeredInRound: bigint,
+    roundId: bigint
+  ): void {
+    const currency = this.getNativeCurrencySymbol(chainId);
+    const guards = PRICE_FEED_GUARDS[chainId as keyof typeof PRICE_FEED_GUARDS];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (answer <= BigInt(0)) {
+      throw new PriceUnavailable('invalid_answer', chainId, `${currency}/USD feed returned a non-positive price`);
+    }
+
+    if (priceData.updatedAt === 0 || answeredInRound < roundId) {
+      throw new PriceUnavailable('incomplete_round', chainId, `${currency}/USD round ${roundId} has not been answered`);
+    }
+
+    if (!guards) return;
+
+    const age = now - priceData.updatedAt;
+    if (age > guards.MAX_STALENESS_SECONDS) {
+      throw new PriceUnavailable(
+        'stale',
+        chainId,
+        `${currency}/USD price is ${Math.round(age / 60)} minutes old (limit ${Math.round(guards.MAX_STALENESS_SECONDS / 60)})`
+      );
+    }
+
+    // Only compare against a reference that would itself still pass the staleness check
+    const lastGood = this.lastGoodPrices.get(chainId);
+    if (lastGood && now - lastGood.updatedAt <= guards.MAX_STALENESS_SECONDS) {
+      const deviationBps = Math.abs(priceData.price - lastGood.price) / lastGood.price * 10000;
+      const rejectedRound = this.rejectedRounds.get(chainId);
+      // A fresh round published after a refused one confirms the move, so it becomes the new baseline
+      const confirmed = rejectedRound !== undefined && rejectedRound !== priceData.roundId;
+      if (deviationBps > guards.MAX_DEVIATION_BPS && !confirmed) {
+        this.rejectedRounds.set(chainId, priceData.roundId);
+        throw new PriceUnavailable(
+          'deviation',
+          chainId,
+          `${currency}/USD moved ${(deviationBps / 100).toFixed(1)}% since the last good price ($${lastGood.price.toFixed(2)} → $${priceData.price.toFixed(2)})`
+        );
+      }
+      if (deviationBps > guards.MAX_DEVIATION_BPS) {
+        console.warn(`⚠️ ${currency}/USD move confirmed by round ${priceData.roundId}, re-baselining`);
+      }
+    }
+
+    this.rejectedRounds.delete(chainId);
+  }
+
+  // Get the feed price that was in effect at a past block
+  async getPriceAtBlock(blockNumber: bigint, chainId?: number): Promise<PriceData | null> {
+    const currentChainId = chainId || getChainId(config);
+
+    try {
+      const timestamp = await this.getBlockTimestamp(blockNumber, currentChainId);
+      return await this.getPriceAtTimestamp(timestamp, currentChainId);
+    } catch (error) {
+      console.error(`❌ Failed to fetch price at block ${blockNumber}:`, error);
+      return null;
+    }
+  }
+
+  // Get the feed price that was in effect at a Unix timestamp (seconds): the last
+  // round updated at or before it. Returns null if the feed has no round that old.
+  async getPriceAtTimestamp(timestamp: number, chainId?: number): Promise<PriceData | null> {
+    const currentChainId = chainId || getChainId(config);
+    const cacheKey = `price_${currentChainId}_at_${timestamp}`;
+
+    const cached = this.historicalPriceCache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const priceFeedAddress = this.getPriceFeedAddress(currentChainId);
+      if (!priceFeedAddress) {
+        throw new Error(`No price feed available for chain ${currentChainId}`);
+      }
+      const feed = priceFeedAddress as `0x${string}`;
+
+      const round = await this.findRoundAtTimestamp(feed, currentChainId, timestamp);
+      if (!round) {
+        console.warn(`⚠️ No ${this.getNativeCurrencySymbol(currentChainId)} price round found before ${new Date(timestamp * 1000).toISOString()}`);
+        return null;
+      }
 
+      const decimals = await this.getFeedDecimals(feed, currentChainId);
       const priceData: PriceData = {
-        price,
+        price: Number(round.answer) / Math.pow(10, decimals),
         decimals,
-        updatedAt: Number(updatedAt),
-        roundId: roundId.toString()
+        updatedAt: round.updatedAt,
+        roundId: round.roundId.toString()
       };
 
-      // Cache the result
-      this.priceCache.set(cacheKey, {
-        data: priceData,
-        timestamp: Date.now()
-      });
-
-      console.log('✅ Price fetched successfully:', {
-        price: `$${price.toFixed(2)}`,
-        currency: this.getNativeCurrencySymbol(currentChainId),
-        updatedAt: new Date(Number(updatedAt) * 1000).toISOString()
-      });
-
+      // Historical rounds never change, so there is no expiry
+      this.historicalPriceCache.set(cacheKey, priceData);
       return priceData;
 
     } catch (error) {
-      console.error('❌ Failed to fetch price from Chainlink:', error);
-      
-      // Return fallback price data (approximate current prices)
-      const fallbackPrices = {
-        [AVALANCHE_FUJI_CHAIN_ID]: 32.50, // AVAX approximate price
-        [ETHEREUM_SEPOLIA_CHAIN_ID]: 3200.00, // ETH approximate price
-        [BASE_SEPOLIA_CHAIN_ID]: 3200.00 // ETH on Base
-      };
+      // No fallback here: a guessed price would be recorded as if it were historical
+      console.error(`❌ Failed to fetch price at ${timestamp}:`, error);
+      return null;
+    }
+  }
 
-      const currentChainId = chainId || getChainId(config);
-      const fallbackPrice = fallbackPrices[currentChainId as keyof typeof fallbackPrices] || 100;
+  // Walk phases from newest to oldest, binary-searching each one's aggregator rounds
+  private async findRoundAtTimestamp(feed: `0x${string}`, chainId: number, timestamp: number): Promise<RoundData | null> {
+    const [latestRoundId, , , latestUpdatedAt] = await readContract(config, {
+      address: feed,
+      abi: CHAINLINK_PRICE_FEED_ABI,
+      functionName: 'latestRoundData',
+      chainId: chainId as (typeof config)['chains'][number]['id']
+    }) as [bigint, bigint, bigint, bigint, bigint];
+
+    const latestPhase = latestRoundId >> PHASE_OFFSET;
+    if (Number(latestUpdatedAt) <= timestamp) {
+      return this.getRound(feed, chainId, latestRoundId);
+    }
+
+    for (let phase = latestPhase; phase > BigInt(0); phase--) {
+      const lastRound = phase === latestPhase
+        ? latestRoundId & AGGREGATOR_ROUND_MASK
+        : await this.findPhaseEnd(feed, chainId, phase);
+      if (lastRound === BigInt(0)) continue;
+
+      const first = await this.getRound(feed, chainId, this.toRoundId(phase, BigInt(1)));
+      if (!first || first.updatedAt > timestamp) continue;
+
+      // Invariant: round lo was updated at or before the timestamp, round hi + 1 after it
+      let lo = BigInt(1);
+      let hi = lastRound;
+      while (lo < hi) {
+        const mid = (lo + hi + BigInt(1)) / BigInt(2);
+        const round = await this.getRound(feed, chainId, this.toRoundId(phase, mid));
+        if (round && round.updatedAt <= timestamp) {
+          lo = mid;
+        } else {
+          hi = mid - BigInt(1);
+        }
+      }
+      return this.getRound(feed, chainId, this.toRoundId(phase, lo));
+    }
 
-      console.warn('⚠️ Using fallback price:', fallbackPrice);
+    return null;
+  }
 
-      return {
-        price: fallbackPrice,
-        decimals: 8,
-        updatedAt: Math.floor(Date.now() / 1000),
-        roundId: 'fallback'
-      };
+  // Last aggregator round of a retired phase: double until a round is missing, then bisect
+  private async findPhaseEnd(feed: `0x${string}`, chainId: number, phase: bigint): Promise<bigint> {
+    const cacheKey = `${chainId}_${feed}_${phase}`;
+    const cached = this.phaseEndCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    let lo = BigInt(0);
+    let hi = BigInt(1);
+    while (await this.getRound(feed, chainId, this.toRoundId(phase, hi))) {
+      lo = hi;
+      hi *= BigInt(2);
     }
+    while (hi - lo > BigInt(1)) {
+      const mid = (lo + hi) / BigInt(2);
+      if (await this.getRound(feed, chainId, this.toRoundId(phase, mid))) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+
+    this.phaseEndCache.set(cacheKey, lo);
+    return lo;
+  }
+
+  // A single round, or null if it doesn't exist (older aggregators return zeros, newer ones revert)
+  private async getRound(feed: `0x${string}`, chainId: number, roundId: bigint): Promise<RoundData | null> {
+    const cacheKey = `${chainId}_${feed}_${roundId}`;
+    if (this.roundCache.has(cacheKey)) return this.roundCache.get(cacheKey) ?? null;
+
+    let round: RoundData | null = null;
+    try {
+      const [, answer, , updatedAt] = await readContract(config, {
+        address: feed,
+        abi: CHAINLINK_PRICE_FEED_ABI,
+        functionName: 'getRoundData',
+        args: [roundId],
+        chainId: chainId as (typeof config)['chains'][number]['id']
+      }) as [bigint, bigint, bigint, bigint, bigint];
+
+      if (updatedAt > BigInt(0)) {
+        round = { roundId, answer, updatedAt: Number(updatedAt) };
+      }
+    } catch {
+      round = null;
+    }
+
+    this.roundCache.set(cacheKey, round);
+    return round;
+  }
+
+  private toRoundId(phase: bigint, aggregatorRound: bigint): bigint {
+    return (phase << PHASE_OFFSET) | aggregatorRound;
+  }
+
+  private async getFeedDecimals(feed: `0x${string}`, chainId: number): Promise<number> {
+    const cacheKey = `${chainId}_${feed}`;
+    const cached = this.decimalsCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const decimals = await readContract(config, {
+      address: feed,
+      abi: CHAINLINK_PRICE_FEED_ABI,
+      functionName: 'decimals',
+      chainId: chainId as (typeof config)['chains'][number]['id']
+    }) as number;
+
+    this.decimalsCache.set(cacheKey, decimals);
+    return decimals;
+  }
+
+  private async getBlockTimestamp(blockNumber: bigint, chainId: number): Promise<number> {
+    const cacheKey = `${chainId}_${blockNumber}`;
+    const cached = this.blockTimeCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const client = getPublicClient(config, { chainId: chainId as (typeof config)['chains'][number]['id'] });
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    const block = await client.getBlock({ blockNumber });
+    const timestamp = Number(block.timestamp);
+    this.blockTimeCache.set(cacheKey, timestamp);
+    return timestamp;
   }
 
   // Convert USD amount to native crypto amount (AVAX/ETH)
@@ -214,6 +473,67 @@ export class PriceService {
     }
   }
 
+  // ERC-20s accepted as payment on a chain, besides the native currency
+  getPaymentAssets(chainId?: number): readonly PaymentAssetConfig[] {
+    return PAYMENT_ASSETS[chainId || getChainId(config)] ?? [];
+  }
+
+  getPaymentAsset(asset: string, chainId?: number): PaymentAssetConfig | null {
+    return this.getPaymentAssets(chainId).find(
+      candidate => candidate.address.toLowerCase() === asset.toLowerCase()
+    ) ?? null;
+  }
+
+  isNativeAsset(asset?: string | null): boolean {
+    return !asset || asset.toLowerCase() === zeroAddress;
+  }
+
+  // USD value of an amount paid in a payment asset; null when it can't be valued
+  async convertAssetToUSD(amount: bigint, asset: string | null | undefined, chainId?: number): Promise<number | null> {
+    if (this.isNativeAsset(asset)) {
+      return this.convertCryptoToUSD(amount, chainId);
+    }
+
+    const assetConfig = this.getPaymentAsset(asset as string, chainId);
+    if (!assetConfig?.usdPegged) {
+      return null;
+    }
+    return Number(formatUnits(amount, assetConfig.decimals));
+  }
+
+  // Format an amount in any payment asset; native amounts go through formatPrice
+  async formatAssetPrice(amount: bigint, asset: string | null | undefined, chainId?: number): Promise<FormattedPrice> {
+    if (this.isNativeAsset(asset)) {
+      return this.formatPrice(amount, chainId);
+    }
+
+    const assetConfig = this.getPaymentAsset(asset as string, chainId);
+    if (!assetConfig) {
+      return {
+        crypto: `${amount.toString()} units of ${asset}`,
+        usd: 'Price unavailable',
+        cryptoAmount: 0,
+        usdAmount: 0
+      };
+    }
+
+    const cryptoAmount = Number(formatUnits(amount, assetConfig.decimals));
+    return {
+      crypto: `${cryptoAmount.toFixed(2)} ${assetConfig.symbol}`,
+      usd: assetConfig.usdPegged ? `≈ $${cryptoAmount.toFixed(2)} USD` : 'Price unavailable',
+      cryptoAmount,
+      usdAmount: assetConfig.usdPegged ? cryptoAmount : 0
+    };
+  }
+
+  // Symbol for a payment asset, falling back to the native currency
+  getAssetSymbol(asset: string | null | undefined, chainId?: number): string {
+    if (this.isNativeAsset(asset)) {
+      return this.getNativeCurrencySymbol(chainId || getChainId(config));
+    }
+    return this.getPaymentAsset(asset as string, chainId)?.symbol ?? 'TOKEN';
+  }
+
   // Get current native currency info
   getCurrentCurrencyInfo(chainId?: number) {
     const currentChainId = chainId || getChainId(config);
@@ -0,0 +1,335 @@
+'use client';
+
+import { getPublicClient } from '@wagmi/core';
+import { formatEther, formatUnits } from 'viem';
+import { config, getContractAddress } from '../lib/wagmi';
+import { getTokenIndexer, IndexedPurchase } from './tokenIndexer';
+import { getPriceService } from './priceService';
+
+// Purchase history built from indexed TimeTokenPurchased events. Each entry is
+// enriched once with its block time and the USD price at that block, then
+// persisted so the values stay fixed no matter how the market moves later.
+
+export interface PurchaseRecord {
+  id: string; // transactionHash:logIndex
+  chainId: number;
+  tokenId: string;
+  serviceName: string;
+  creator: string;
+  buyer: string;
+  hoursAmount: bigint;
+  amount: bigint; // In paymentAsset's smallest unit
+  paymentAsset: string; // Zero address for the native currency
+  paymentSymbol: string;
+  usdPrice: number | null; // USD per unit of the payment asset at the purchase block
+  usdValue: number | null;
+  priceRoundId: string | null;
+  blockNumber: bigint;
+  blockTimestamp: number; // Unix seconds
+  transactionHash: string;
+}
+
+export interface PurchaseSummary {
+  purchaseCount: number;
+  totalHours: bigint;
+  totalWei: bigint; // Native currency only
+  assetTotals: Record<string, bigint>; // ERC-20 payments keyed by asset symbol
+  totalUSD: number;
+  unpricedCount: number; // Purchases whose historical price could not be read
+}
+
+export interface TokenPurchaseSummary extends PurchaseSummary {
+  tokenId: string;
+  serviceName: string;
+  firstPurchasedAt: number;
+  lastPurchasedAt: number;
+}
+
+interface PurchaseEnrichment {
+  blockTimestamp: number;
+  usdPrice: number | null;
+  priceRoundId: string | null;
+}
+
+const STORAGE_PREFIX = 'timeTokenizer_purchaseLedger';
+const ENRICHMENT_BATCH_SIZE = 10; // Parallel block/price reads per round trip
+
+export class PurchaseLedgerService {
+  private enrichments: Map<number, Record<string, PurchaseEnrichment>> = new Map();
+  private blockTimes: Map<string, number> = new Map();
+  private failedPriceLookups: Set<string> = new Set();
+  private tokenIndexer = getTokenIndexer();
+  private priceService = getPriceService();
+
+  // Purchases made by a buyer, newest first. Assumes the token index has been synced.
+  async getBuyerLedger(chainId: number, buyer: string): Promise<PurchaseRecord[]> {
+    return this.buildLedger(chainId, this.tokenIndexer.getPurchases(chainId, { buyer }));
+  }
+
+  // What a buyer has paid on net, newest first: purchases, escrow fees, and dispute refunds as
+  // negative entries valued at the refund's block. Assumes the token index has been synced.
+  async getBuyerSpending(chainId: number, buyer: string): Promise<PurchaseRecord[]> {
+    return this.buildLedger(chainId, this.tokenIndexer.getSpending(chainId, { buyer }));
+  }
+
+  // Purchases of a single token, newest first
+  async getTokenLedger(chainId: number, tokenId: string): Promise<PurchaseRecord[]> {
+    return this.buildLedger(chainId, this.tokenIndexer.getPurchases(chainId, { tokenId }));
+  }
+
+  // Realized sales of every token a creator minted, newest first: escrowed sales appear once
+  // released or ruled on, at the creator's share. Assumes the token index has been synced.
+  async getCreatorLedger(chainId: number, creator: string): Promise<PurchaseRecord[]> {
+    const tokenIds = new Set(this.tokenIndexer.getTokens(chainId, { creator }).map(token => token.tokenId));
+    const sales = this.tokenIndexer.getRevenue(chainId).filter(entry => tokenIds.has(entry.tokenId));
+    return this.buildLedger(chainId, sales);
+  }
+
+  summarize(records: PurchaseRecord[]): PurchaseSummary {
+    return records.reduce<PurchaseSummary>((summary, record) => ({
+      purchaseCount: summary.purchaseCount + 1,
+      totalHours: summary.totalHours + record.hoursAmount,
+      totalWei: summary.totalWei + (this.isNativePayment(record) ? record.amount : BigInt(0)),
+      assetTotals: this.isNativePayment(record) ? summary.assetTotals : {
+        ...summary.assetTotals,
+        [record.paymentSymbol]: (summary.assetTotals[record.paymentSymbol] ?? BigInt(0)) + record.amount
+      },
+      totalUSD: summary.totalUSD + (record.usdValue ?? 0),
+      unpricedCount: summary.unpricedCount + (record.usdValue === null ? 1 : 0)
+    }), {
+      purchaseCount: 0,
+      totalHours: BigInt(0),
+      totalWei: BigInt(0),
+      assetTotals: {},
+      totalUSD: 0,
+      unpricedCount: 0
+    });
+  }
+
+  summarizeByToken(records: PurchaseRecord[]): Map<string, TokenPurchaseSummary> {
+    const byToken = new Map<string, PurchaseRecord[]>();
+    for (const record of records) {
+      byToken.set(record.tokenId, [...(byToken.get(record.tokenId) ?? []), record]);
+    }
+
+    const summaries = new Map<string, TokenPurchaseSummary>();
+    byToken.forEach((tokenRecords, tokenId) => {
+      const timestamps = tokenRecords.map(record => record.blockTimestamp);
+      summaries.set(tokenId, {
+        ...this.summarize(tokenRecords),
+        tokenId,
+        serviceName: tokenRecords[0].serviceName,
+        firstPurchasedAt: Math.min(...timestamps),
+        lastPurchasedAt: Math.max(...timestamps)
+      });
+    });
+    return summaries;
+  }
+
+  isNativePayment(record: PurchaseRecord): boolean {
+    return this.priceService.isNativeAsset(record.paymentAsset);
+  }
+
+  // Amount paid, in whole units of the payment asset
+  formatAmount(record: PurchaseRecord): string {
+    return this.toUnits(record.amount, record.paymentAsset, record.chainId);
+  }
+
+  toCSV(records: PurchaseRecord[]): string {
+    const header = [
+      'Date',
+      'Token ID',
+      'Service',
+      'Creator',
+      'Hours',
+      'Amount',
+      'Currency',
+      'USD per unit at purchase',
+      'USD value at purchase',
+      'Block',
+      'Transaction'
+    ];
+
+    const rows = records.map(record => [
+      new Date(record.blockTimestamp * 1000).toISOString(),
+      record.tokenId,
+      record.serviceName,
+      record.creator,
+      record.hoursAmount.toString(),
+      this.formatAmount(record),
+      record.paymentSymbol,
+      record.usdPrice === null ? '' : record.usdPrice.toFixed(2),
+      record.usdValue === null ? '' : record.usdValue.toFixed(2),
+      record.blockNumber.toString(),
+      record.transactionHash
+    ]);
+
+    return [header, ...rows]
+      .map(row => row.map(cell => this.escapeCSV(cell)).join(','))
+      .join('\n');
+  }
+
+  private async buildLedger(chainId: number, purchases: IndexedPurchase[]): Promise<PurchaseRecord[]> {
+    const enrichments = this.getEnrichments(chainId);
+    const pending = purchases.filter(purchase => {
+      const id = this.getRecordId(purchase);
+      const enrichment = enrichments[id];
+      return !enrichment || (enrichment.usdPrice === null && !this.failedPriceLookups.has(`${chainId}:${id}`));
+    });
+
+    if (pending.length > 0) {
+      console.log(`🧾 Enriching ${pending.length} purchases with block time and USD price`);
+      for (let i = 0; i < pending.length; i += ENRICHMENT_BATCH_SIZE) {
+        const batch = pending.slice(i, i + ENRICHMENT_BATCH_SIZE);
+        await Promise.all(batch.map(purchase => this.enrich(chainId, purchase, enrichments)));
+      }
+      this.persist(chainId, enrichments);
+    }
+
+    const tokens = new Map(
+      this.tokenIndexer.getTokens(chainId).map(token => [token.tokenId, token])
+    );
+
+    return purchases
+      .filter(purchase => enrichments[this.getRecordId(purchase)])
+      .map(purchase => {
+        const enrichment = enrichments[this.getRecordId(purchase)];
+        const token = tokens.get(purchase.tokenId);
+        return {
+          id: this.getRecordId(purchase),
+          chainId,
+          tokenId: purchase.tokenId,
+          serviceName: token?.serviceName ?? `Token #${purchase.tokenId}`,
+          creator: token?.creator ?? '',
+          buyer: purchase.buyer,
+          hoursAmount: purchase.hoursAmount,
+          amount: purchase.totalPrice,
+          paymentAsset: purchase.paymentAsset,
+          paymentSymbol: this.priceService.getAssetSymbol(purchase.paymentAsset, chainId),
+          usdPrice: enrichment.usdPrice,
+          usdValue: enrichment.usdPrice === null
+            ? null
+            : Number(this.toUnits(purchase.totalPrice, purchase.paymentAsset, chainId)) * enrichment.usdPrice,
+          priceRoundId: enrichment.priceRoundId,
+          blockNumber: purchase.blockNumber,
+          blockTimestamp: enrichment.blockTimestamp,
+          transactionHash: purchase.transactionHash
+        };
+      })
+      .sort((a, b) => b.blockTimestamp - a.blockTimestamp);
+  }
+
+  private async enrich(
+    chainId: number,
+    purchase: IndexedPurchase,
+    enrichments: Record<string, PurchaseEnrichment>
+  ): Promise<void> {
+    const id = this.getRecordId(purchase);
+    try {
+      const blockTimestamp = await this.getBlockTimestamp(chainId, purchase.blockNumber);
+
+      // Stablecoin payments are valued at their peg; other ERC-20s have no feed to read
+      if (!this.priceService.isNativeAsset(purchase.paymentAsset)) {
+        const asset = this.priceService.getPaymentAsset(purchase.paymentAsset, chainId);
+        if (!asset?.usdPegged) {
+          this.failedPriceLookups.add(`${chainId}:${id}`);
+        }
+        enrichments[id] = {
+          blockTimestamp,
+          usdPrice: asset?.usdPegged ? 1 : null,
+          priceRoundId: null
+        };
+        return;
+      }
+
+      const priceData = await this.priceService.getPriceAtTimestamp(blockTimestamp, chainId);
+
+      if (!priceData) {
+        this.failedPriceLookups.add(`${chainId}:${id}`);
+      }
+
+      enrichments[id] = {
+        blockTimestamp,
+        usdPrice: priceData?.price ?? null,
+        priceRoundId: priceData?.roundId ?? null
+      };
+    } catch (error) {
+      console.error('❌ Failed to enrich purchase', id, error);
+    }
+  }
+
+  private async getBlockTimestamp(chainId: number, blockNumber: bigint): Promise<number> {
+    const cacheKey = `${chainId}:${blockNumber}`;
+    const cached = this.blockTimes.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const client = getPublicClient(config, { chainId: chainId as (typeof config)['chains'][number]['id'] });
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    const block = await client.getBlock({ blockNumber });
+    const timestamp = Number(block.timestamp);
+    this.blockTimes.set(cacheKey, timestamp);
+    return timestamp;
+  }
+
+  private toUnits(amount: bigint, paymentAsset: string, chainId: number): string {
+    if (this.priceService.isNativeAsset(paymentAsset)) {
+      return formatEther(amount);
+    }
+    const asset = this.priceService.getPaymentAsset(paymentAsset, chainId);
+    return formatUnits(amount, asset?.decimals ?? 18);
+  }
+
+  private getRecordId(purchase: IndexedPurchase): string {
+    return `${purchase.transactionHash}:${purchase.logIndex}`;
+  }
+
+  private escapeCSV(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private getStorageKey(chainId: number): string {
+    return `${STORAGE_PREFIX}_${chainId}_${getContractAddress(chainId).toLowerCase()}`;
+  }
+
+  private getEnrichments(chainId: number): Record<string, PurchaseEnrichment> {
+    const cached = this.enrichments.get(chainId);
+    if (cached) return cached;
+
+    let stored: Record<string, PurchaseEnrichment> = {};
+    if (typeof window !== 'undefined') {
+      try {
+        stored = JSON.parse(localStorage.getItem(this.getStorageKey(chainId)) || '{}');
+      } catch (error) {
+        console.warn('⚠️ Failed to load purchase ledger, rebuilding:', error);
+      }
+    }
+
+    this.enrichments.set(chainId, stored);
+    return stored;
+  }
+
+  private persist(chainId: number, enrichments: Record<string, PurchaseEnrichment>): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.getStorageKey(chainId), JSON.stringify(enrichments));
+    } catch (error) {
+      console.error('❌ Failed to persist purchase ledger:', error);
+    }
+  }
+}
+
+// Global purchase ledger instance
+let purchaseLedgerInstance: PurchaseLedgerService | null = null;
+
+export const getPurchaseLedger = (): PurchaseLedgerService => {
+  if (!purchaseLedgerInstance) {
+    purchaseLedgerInstance = new PurchaseLedgerService();
+  }
+  return purchaseLedgerInstance;
+};
+
+export default PurchaseLedgerService;
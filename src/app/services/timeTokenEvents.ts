@@ -0,0 +1,289 @@
+'use client';
+
+import { parseEventLogs, TransactionReceipt } from 'viem';
+import { TIME_TOKEN_ABI } from '../abi/TimeToken.abi';
+import { TIME_TOKEN_RESALE_ABI } from '../abi/TimeTokenResale.abi';
+import { TOKEN_STATUSES, TokenStatus } from '../shared/constants';
+
+// Typed views of the TokenizeAI (and TimeTokenResale) events we read back out of transaction receipts.
+// Ids are strings to match the rest of ContractService.
+
+export interface TimeTokenEventMeta {
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+export interface TimeTokenCreatedEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  creator: string;
+  serviceName: string;
+  pricePerHour: bigint;
+  totalHours: bigint;
+}
+
+export interface TimeTokenPurchasedEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  buyer: string;
+  hoursAmount: bigint;
+  totalPrice: bigint; // In paymentAsset's units
+  paymentAsset: string; // Zero address for the native currency
+}
+
+export interface ServiceCompletedEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  buyer: string;
+  hoursCompleted: bigint;
+}
+
+export interface EscrowCreatedEvent extends TimeTokenEventMeta {
+  escrowId: string;
+  tokenId: string;
+  buyer: string;
+  amount: bigint;
+  fee: bigint;
+  releaseAfter: bigint;
+}
+
+export interface EscrowReleasedEvent extends TimeTokenEventMeta {
+  escrowId: string;
+  creator: string;
+  amount: bigint;
+  releasedByTimeout: boolean;
+}
+
+export interface DisputeOpenedEvent extends TimeTokenEventMeta {
+  disputeId: string;
+  escrowId: string;
+  buyer: string;
+  deadline: bigint;
+}
+
+export interface TimeTokenRepricedEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  pricePerHour: bigint; // USD_DECIMALS when usdPriced, wei otherwise
+  usdPriced: boolean;
+}
+
+export interface TimeTokenExtendedEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  validUntil: bigint;
+}
+
+export interface TimeTokenToppedUpEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  hoursAdded: bigint;
+  totalHours: bigint;
+}
+
+export interface TokenStatusChangedEvent extends TimeTokenEventMeta {
+  tokenId: string;
+  previousStatus: TokenStatus;
+  status: TokenStatus;
+}
+
+export interface ResaleListedEvent extends TimeTokenEventMeta {
+  listingId: string;
+  tokenId: string;
+  seller: string;
+  hoursAmount: bigint;
+  pricePerHour: bigint;
+}
+
+export interface ResaleFilledEvent extends TimeTokenEventMeta {
+  listingId: string;
+  tokenId: string;
+  buyer: string;
+  hoursAmount: bigint;
+  totalPrice: bigint;
+  royalty: bigint;
+}
+
+type ParsedLog = {
+  address: string;
+  transactionHash: `0x${string}` | null;
+  blockNumber: bigint | null;
+  logIndex: number | null;
+};
+
+const toMeta = (log: ParsedLog): TimeTokenEventMeta => ({
+  transactionHash: log.transactionHash ?? '0x',
+  blockNumber: log.blockNumber ?? BigInt(0),
+  logIndex: log.logIndex ?? 0
+});
+
+// Keep only logs emitted by our contract; other contracts can emit same-shaped events in one tx
+const fromContract = <T extends ParsedLog>(logs: T[], contractAddress: string): T[] =>
+  logs.filter(log => log.address.toLowerCase() === contractAddress.toLowerCase());
+
+const assertSucceeded = (receipt: TransactionReceipt): void => {
+  if (receipt.status !== 'success') {
+    throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+  }
+};
+
+const requireSingle = <T>(events: T[], eventName: string, receipt: TransactionReceipt): T => {
+  if (events.length === 0) {
+    throw new Error(`${eventName} event not found in transaction ${receipt.transactionHash}`);
+  }
+  return events[0];
+};
+
+export const getTimeTokenCreatedEvents = (receipt: TransactionReceipt, contractAddress: string): TimeTokenCreatedEvent[] => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'TimeTokenCreated' });
+  return fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    creator: log.args.creator,
+    serviceName: log.args.serviceName,
+    pricePerHour: log.args.pricePerHour,
+    totalHours: log.args.totalHours
+  }));
+};
+
+export const getTimeTokenCreatedEvent = (receipt: TransactionReceipt, contractAddress: string): TimeTokenCreatedEvent =>
+  requireSingle(getTimeTokenCreatedEvents(receipt, contractAddress), 'TimeTokenCreated', receipt);
+
+export const getTimeTokenPurchasedEvent = (receipt: TransactionReceipt, contractAddress: string): TimeTokenPurchasedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'TimeTokenPurchased' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    buyer: log.args.buyer,
+    hoursAmount: log.args.hoursAmount,
+    totalPrice: log.args.totalPrice,
+    paymentAsset: log.args.paymentAsset
+  }));
+  return requireSingle(events, 'TimeTokenPurchased', receipt);
+};
+
+export const getServiceCompletedEvent = (receipt: TransactionReceipt, contractAddress: string): ServiceCompletedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'ServiceCompleted' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    buyer: log.args.buyer,
+    hoursCompleted: log.args.hoursCompleted
+  }));
+  return requireSingle(events, 'ServiceCompleted', receipt);
+};
+
+export const getEscrowCreatedEvent = (receipt: TransactionReceipt, contractAddress: string): EscrowCreatedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'EscrowCreated' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    escrowId: log.args.escrowId.toString(),
+    tokenId: log.args.tokenId.toString(),
+    buyer: log.args.buyer,
+    amount: log.args.amount,
+    fee: log.args.fee,
+    releaseAfter: log.args.releaseAfter
+  }));
+  return requireSingle(events, 'EscrowCreated', receipt);
+};
+
+export const getEscrowReleasedEvent = (receipt: TransactionReceipt, contractAddress: string): EscrowReleasedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'EscrowReleased' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    escrowId: log.args.escrowId.toString(),
+    creator: log.args.creator,
+    amount: log.args.amount,
+    releasedByTimeout: log.args.releasedByTimeout
+  }));
+  return requireSingle(events, 'EscrowReleased', receipt);
+};
+
+export const getDisputeOpenedEvent = (receipt: TransactionReceipt, contractAddress: string): DisputeOpenedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'DisputeOpened' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    disputeId: log.args.disputeId.toString(),
+    escrowId: log.args.escrowId.toString(),
+    buyer: log.args.buyer,
+    deadline: log.args.deadline
+  }));
+  return requireSingle(events, 'DisputeOpened', receipt);
+};
+
+export const getTimeTokenRepricedEvent = (receipt: TransactionReceipt, contractAddress: string): TimeTokenRepricedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'TimeTokenRepriced' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    pricePerHour: log.args.pricePerHour,
+    usdPriced: log.args.usdPriced
+  }));
+  return requireSingle(events, 'TimeTokenRepriced', receipt);
+};
+
+export const getTimeTokenExtendedEvent = (receipt: TransactionReceipt, contractAddress: string): TimeTokenExtendedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'TimeTokenExtended' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    validUntil: log.args.validUntil
+  }));
+  return requireSingle(events, 'TimeTokenExtended', receipt);
+};
+
+export const getTimeTokenToppedUpEvent = (receipt: TransactionReceipt, contractAddress: string): TimeTokenToppedUpEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'TimeTokenToppedUp' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    hoursAdded: log.args.hoursAdded,
+    totalHours: log.args.totalHours
+  }));
+  return requireSingle(events, 'TimeTokenToppedUp', receipt);
+};
+
+export const getTokenStatusChangedEvent = (receipt: TransactionReceipt, contractAddress: string): TokenStatusChangedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_ABI, logs: receipt.logs, eventName: 'TokenStatusChanged' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    tokenId: log.args.tokenId.toString(),
+    previousStatus: TOKEN_STATUSES[log.args.previousStatus],
+    status: TOKEN_STATUSES[log.args.status]
+  }));
+  return requireSingle(events, 'TokenStatusChanged', receipt);
+};
+
+export const getResaleListedEvent = (receipt: TransactionReceipt, contractAddress: string): ResaleListedEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_RESALE_ABI, logs: receipt.logs, eventName: 'ResaleListed' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    listingId: log.args.listingId.toString(),
+    tokenId: log.args.tokenId.toString(),
+    seller: log.args.seller,
+    hoursAmount: log.args.hoursAmount,
+    pricePerHour: log.args.pricePerHour
+  }));
+  return requireSingle(events, 'ResaleListed', receipt);
+};
+
+export const getResaleFilledEvent = (receipt: TransactionReceipt, contractAddress: string): ResaleFilledEvent => {
+  assertSucceeded(receipt);
+  const logs = parseEventLogs({ abi: TIME_TOKEN_RESALE_ABI, logs: receipt.logs, eventName: 'ResaleFilled' });
+  const events = fromContract(logs, contractAddress).map(log => ({
+    ...toMeta(log),
+    listingId: log.args.listingId.toString(),
+    tokenId: log.args.tokenId.toString(),
+    buyer: log.args.buyer,
+    hoursAmount: log.args.hoursAmount,
+    totalPrice: log.args.totalPrice,
+    royalty: log.args.royalty
+  }));
+  return requireSingle(events, 'ResaleFilled', receipt);
+};
@@ -0,0 +1,680 @@
+'use client';
+
+import { getPublicClient, readContracts } from '@wagmi/core';
+import { config, getContractAddress } from '../lib/wagmi';
+import { TIME_TOKEN_ABI } from '../abi/TimeToken.abi';
+import { INDEXER_CONFIG, TIME_TOKEN_DEPLOYMENT_BLOCKS, TOKEN_STATUSES, TokenStatus, USD_PRICING_CONFIG } from '../shared/constants';
+import type { TimeToken } from './contractService';
+
+// Indexes TimeToken events into localStorage so views can query tokens without
+// reading every token id from the chain. Backfills from the deployment block,
+// then tails new blocks while anything is watching.
+
+export interface IndexedToken {
+  tokenId: string;
+  creator: string;
+  serviceName: string;
+  pricePerHour: bigint;
+  usdPricePerHour: bigint; // 0 unless the token is priced in USD
+  totalHours: bigint;
+  soldHours: bigint;
+  completedHours: bigint;
+  validUntil: bigint;
+  status: TokenStatus; // As stored on-chain, before accounting for expiry
+  createdBlock: bigint;
+  metadataURI: string; // Empty for tokens minted without metadata
+  hydrated: boolean; // validUntil is not in the creation event and is read once afterwards
+}
+
+export interface IndexedPurchase {
+  tokenId: string;
+  buyer: string;
+  hoursAmount: bigint;
+  totalPrice: bigint; // In paymentAsset's units
+  paymentAsset: string; // Zero address for the native currency
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface IndexedCompletion {
+  tokenId: string;
+  buyer: string;
+  hoursCompleted: bigint;
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface IndexState {
+  version: number;
+  cursor: bigint | null; // Last block fully indexed
+  tokens: Record<string, IndexedToken>;
+  purchases: IndexedPurchase[];
+  completions: IndexedCompletion[];
+  // Creator revenue as it is realized: direct sales at purchase, escrowed sales when released or
+  // ruled on (creator's share only). Each entry carries the settling event's amount and block.
+  revenue: IndexedPurchase[];
+  // Buyer outlays as they settle: purchases at their price, escrow fees when charged and dispute
+  // refunds as negative entries. Each entry carries the settling event's amount and block.
+  spending: IndexedPurchase[];
+  escrows: Record<string, IndexedPurchase>; // Escrow id -> the purchase it holds
+  disputes: Record<string, string>; // Dispute id -> escrow id
+}
+
+export type TokenSortField = 'newest' | 'price' | 'availableHours' | 'validUntil';
+
+export interface TokenFilter {
+  creator?: string;
+  excludeCreator?: string;
+  buyer?: string; // Tokens this address has purchased from
+  statuses?: TokenStatus[]; // Lifecycle states to include, as shown to users (expiry applied)
+  purchasableOnly?: boolean; // Active, unexpired and with hours left
+  awaitingExpiry?: boolean; // Still Active on-chain but past validUntil, i.e. waiting on an expiration upkeep
+  search?: string;
+}
+
+export interface TokenQuery extends TokenFilter {
+  sortBy?: TokenSortField;
+  nativeUsdPrice?: number | null; // USD per native unit, so price sorting ranks native- and USD-priced tokens together
+  sortDirection?: 'asc' | 'desc';
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface TokenPage {
+  items: TimeToken[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Shape of records in localStorage, where bigints are stored as decimal strings
+type Serialized<T> = { [K in keyof T]: T[K] extends bigint ? string : T[K] };
+
+const INDEX_VERSION = 8;
+const STORAGE_PREFIX = 'timeTokenizer_index';
+
+const createEmptyState = (): IndexState => ({
+  version: INDEX_VERSION,
+  cursor: null,
+  tokens: {},
+  purchases: [],
+  completions: [],
+  revenue: [],
+  spending: [],
+  escrows: {},
+  disputes: {}
+});
+
+const parsePurchase = (purchase: Serialized<IndexedPurchase>): IndexedPurchase => ({
+  ...purchase,
+  hoursAmount: BigInt(purchase.hoursAmount),
+  totalPrice: BigInt(purchase.totalPrice),
+  blockNumber: BigInt(purchase.blockNumber)
+});
+
+export class TokenIndexerService {
+  private states: Map<number, IndexState> = new Map();
+  private syncs: Map<number, Promise<void>> = new Map();
+  private listeners: Map<number, Set<() => void>> = new Map();
+  private pollers: Map<number, ReturnType<typeof setInterval>> = new Map();
+
+  // Bring the index for a chain up to the latest block
+  sync(chainId: number): Promise<void> {
+    const inFlight = this.syncs.get(chainId);
+    if (inFlight) return inFlight;
+
+    const run = this.runSync(chainId).finally(() => {
+      this.syncs.delete(chainId);
+    });
+    this.syncs.set(chainId, run);
+    return run;
+  }
+
+  // Keep the index tailing the chain; returns an unsubscribe function
+  watch(chainId: number, onUpdate: () => void): () => void {
+    const listeners = this.listeners.get(chainId) ?? new Set<() => void>();
+    listeners.add(onUpdate);
+    this.listeners.set(chainId, listeners);
+
+    if (!this.pollers.has(chainId)) {
+      const poller = setInterval(() => {
+        this.sync(chainId).catch(error => console.error('❌ Token index tail failed:', error));
+      }, INDEXER_CONFIG.POLL_INTERVAL);
+      this.pollers.set(chainId, poller);
+    }
+
+    return () => {
+      listeners.delete(onUpdate);
+      if (listeners.size === 0) {
+        clearInterval(this.pollers.get(chainId));
+        this.pollers.delete(chainId);
+      }
+    };
+  }
+
+  // All tokens matching a filter, sorted
+  getTokens(chainId: number, query: Omit<TokenQuery, 'page' | 'pageSize'> = {}): TimeToken[] {
+    const state = this.getState(chainId);
+    const buyerHours = query.buyer ? this.getPurchasedHours(state, query.buyer) : null;
+    const search = query.search?.trim().toLowerCase();
+    const now = BigInt(Math.floor(Date.now() / 1000));
+
+    const matches = Object.values(state.tokens).filter(token => {
+      if (!token.hydrated) return false;
+      if (query.creator && token.creator.toLowerCase() !== query.creator.toLowerCase()) return false;
+      if (query.excludeCreator && token.creator.toLowerCase() === query.excludeCreator.toLowerCase()) return false;
+      if (buyerHours && !buyerHours.has(token.tokenId)) return false;
+      if (query.statuses && !query.statuses.includes(this.getStatus(token, now))) return false;
+      if (query.purchasableOnly && this.getStatus(token, now) !== 'Active') return false;
+      if (query.awaitingExpiry && !(token.status === 'Active' && token.validUntil < now)) return false;
+      if (search && !token.serviceName.toLowerCase().includes(search)) return false;
+      return true;
+    });
+
+    const direction = query.sortDirection === 'asc' ? 1 : -1;
+    const sortKey = (token: IndexedToken): bigint | null => {
+      switch (query.sortBy) {
+        case 'price':
+          return this.getUsdQuote(token, query.nativeUsdPrice);
+        case 'availableHours':
+          return token.totalHours - token.soldHours;
+        case 'validUntil':
+          return token.validUntil;
+        default:
+          return BigInt(token.tokenId);
+      }
+    };
+    matches.sort((a, b) => {
+      const keyA = sortKey(a);
+      const keyB = sortKey(b);
+      // Tokens without a comparable key (no price to quote them at) go last either way
+      if (keyA === null || keyB === null) return keyA === keyB ? 0 : (keyA === null ? 1 : -1);
+      const diff = keyA - keyB;
+      return diff === BigInt(0) ? 0 : (diff > BigInt(0) ? direction : -direction);
+    });
+
+    return matches.map(token => {
+      const result = this.toTimeToken(token);
+      if (buyerHours) {
+        result.purchasedHours = buyerHours.get(token.tokenId);
+      }
+      return result;
+    });
+  }
+
+  // One page of tokens matching a filter
+  queryTokens(chainId: number, query: TokenQuery = {}): TokenPage {
+    const { page = 1, pageSize = INDEXER_CONFIG.DEFAULT_PAGE_SIZE, ...rest } = query;
+    const matches = this.getTokens(chainId, rest);
+    const totalPages = Math.max(1, Math.ceil(matches.length / pageSize));
+    const currentPage = Math.min(Math.max(1, page), totalPages);
+    const start = (currentPage - 1) * pageSize;
+
+    return {
+      items: matches.slice(start, start + pageSize),
+      total: matches.length,
+      page: currentPage,
+      pageSize,
+      totalPages
+    };
+  }
+
+  countTokens(chainId: number, filter: TokenFilter = {}): number {
+    return this.getTokens(chainId, filter).length;
+  }
+
+  getPurchases(chainId: number, filter: { buyer?: string; tokenId?: string } = {}): IndexedPurchase[] {
+    return this.getState(chainId).purchases.filter(purchase =>
+      (!filter.buyer || purchase.buyer.toLowerCase() === filter.buyer.toLowerCase()) &&
+      (!filter.tokenId || purchase.tokenId === filter.tokenId)
+    );
+  }
+
+  // Realized creator revenue entries, optionally for one token
+  getRevenue(chainId: number, filter: { tokenId?: string } = {}): IndexedPurchase[] {
+    return this.getState(chainId).revenue.filter(entry => !filter.tokenId || entry.tokenId === filter.tokenId);
+  }
+
+  // Buyer spending entries, net of refunds once summed
+  getSpending(chainId: number, filter: { buyer?: string } = {}): IndexedPurchase[] {
+    return this.getState(chainId).spending.filter(entry =>
+      !filter.buyer || entry.buyer.toLowerCase() === filter.buyer.toLowerCase()
+    );
+  }
+
+  getCompletions(chainId: number, filter: { buyer?: string; tokenId?: string } = {}): IndexedCompletion[] {
+    return this.getState(chainId).completions.filter(completion =>
+      (!filter.buyer || completion.buyer.toLowerCase() === filter.buyer.toLowerCase()) &&
+      (!filter.tokenId || completion.tokenId === filter.tokenId)
+    );
+  }
+
+  getCursor(chainId: number): bigint | null {
+    return this.getState(chainId).cursor;
+  }
+
+  // Drop the persisted index for a chain and rebuild it from scratch on next sync
+  reset(chainId: number): void {
+    this.states.set(chainId, createEmptyState());
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(this.getStorageKey(chainId));
+    }
+    console.log('🗑️ Token index cleared for chain', chainId);
+  }
+
+  private async runSync(chainId: number): Promise<void> {
+    const client = getPublicClient(config, { chainId: chainId as (typeof config)['chains'][number]['id'] });
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    const state = this.getState(chainId);
+    const address = getContractAddress(chainId) as `0x${string}`;
+    const latestBlock = await client.getBlockNumber();
+    let fromBlock = state.cursor === null
+      ? await this.getDeploymentBlock(chainId, client, address, latestBlock)
+      : state.cursor + BigInt(1);
+    let range = INDEXER_CONFIG.MAX_BLOCK_RANGE;
+    let changed = false;
+
+    if (fromBlock <= latestBlock) {
+      console.log(`🔎 Indexing TimeToken events ${fromBlock}-${latestBlock} on chain ${chainId}`);
+    }
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = fromBlock + range - BigInt(1) < latestBlock ? fromBlock + range - BigInt(1) : latestBlock;
+
+      let logs;
+      try {
+        logs = await client.getContractEvents({ address, abi: TIME_TOKEN_ABI, fromBlock, toBlock });
+      } catch (error) {
+        // Most RPCs cap eth_getLogs by block range or result size, so retry with a smaller window
+        if (range <= INDEXER_CONFIG.MIN_BLOCK_RANGE) throw error;
+        range = range / BigInt(2);
+        continue;
+      }
+
+      for (const log of logs) {
+        changed = this.applyLog(state, log) || changed;
+      }
+
+      state.cursor = toBlock;
+      fromBlock = toBlock + BigInt(1);
+      if (range < INDEXER_CONFIG.MAX_BLOCK_RANGE) {
+        range = range * BigInt(2);
+      }
+      this.persist(chainId, state);
+    }
+
+    changed = (await this.hydrateTokens(chainId, address, state)) || changed;
+    this.persist(chainId, state);
+
+    if (changed) {
+      this.listeners.get(chainId)?.forEach(listener => listener());
+    }
+  }
+
+  // Configured deployment block, or the first block where the contract has code (binary search)
+  private async getDeploymentBlock(
+    chainId: number,
+    client: NonNullable<ReturnType<typeof getPublicClient>>,
+    address: `0x${string}`,
+    latestBlock: bigint
+  ): Promise<bigint> {
+    const configured = TIME_TOKEN_DEPLOYMENT_BLOCKS[chainId];
+    if (configured !== null && configured !== undefined) return configured;
+
+    const hasCode = async (blockNumber: bigint) => {
+      const code = await client.getCode({ address, blockNumber });
+      return !!code && code !== '0x';
+    };
+
+    if (!(await hasCode(latestBlock))) {
+      throw new Error(`No TimeToken contract at ${address} on chain ${chainId}`);
+    }
+
+    let low = BigInt(0);
+    let high = latestBlock;
+    try {
+      while (low < high) {
+        const mid = (low + high) / BigInt(2);
+        if (await hasCode(mid)) {
+          high = mid;
+        } else {
+          low = mid + BigInt(1);
+        }
+      }
+    } catch (error) {
+      // Historical eth_getCode needs an archive node
+      console.error('❌ Failed to locate TimeToken deployment block:', error);
+      throw new Error(`Could not locate the TimeToken deployment block on chain ${chainId}; set NEXT_PUBLIC_TIME_TOKEN_BLOCK_* for it`);
+    }
+
+    console.log(`📍 TimeToken deployed at block ${low} on chain ${chainId}`);
+    return low;
+  }
+
+  // Fold one decoded event into the index; returns whether anything changed
+  private applyLog(state: IndexState, log: { eventName: string; args: Record<string, unknown>; blockNumber: bigint | null; transactionHash: string | null; logIndex: number | null }): boolean {
+    const blockNumber = log.blockNumber ?? BigInt(0);
+    const transactionHash = log.transactionHash ?? '';
+    const logIndex = log.logIndex ?? 0;
+
+    switch (log.eventName) {
+      case 'TimeTokenCreated': {
+        const tokenId = (log.args.tokenId as bigint).toString();
+        state.tokens[tokenId] = {
+          tokenId,
+          creator: log.args.creator as string,
+          serviceName: log.args.serviceName as string,
+          pricePerHour: log.args.pricePerHour as bigint,
+          usdPricePerHour: BigInt(0),
+          totalHours: log.args.totalHours as bigint,
+          soldHours: BigInt(0),
+          completedHours: BigInt(0),
+          validUntil: BigInt(0),
+          status: 'Active',
+          createdBlock: blockNumber,
+          metadataURI: '',
+          hydrated: false
+        };
+        return true;
+      }
+      case 'URI': {
+        // ERC-1155 URI event, emitted right after TimeTokenCreated for tokens with metadata
+        const token = state.tokens[(log.args.id as bigint).toString()];
+        if (token) token.metadataURI = log.args.value as string;
+        return true;
+      }
+      case 'TimeTokenPurchased': {
+        const tokenId = (log.args.tokenId as bigint).toString();
+        const purchase: IndexedPurchase = {
+          tokenId,
+          buyer: log.args.buyer as string,
+          hoursAmount: log.args.hoursAmount as bigint,
+          totalPrice: log.args.totalPrice as bigint,
+          paymentAsset: log.args.paymentAsset as string,
+          blockNumber,
+          transactionHash,
+          logIndex
+        };
+        state.purchases.push(purchase);
+        state.spending.push(purchase);
+        // Counted as revenue now; EscrowCreated in the same transaction takes it back out
+        state.revenue.push(purchase);
+        const token = state.tokens[tokenId];
+        if (token) token.soldHours += purchase.hoursAmount;
+        return true;
+      }
+      case 'EscrowCreated': {
+        // Emitted straight after the escrowed purchase's TimeTokenPurchased
+        const index = state.revenue.findIndex(entry =>
+          entry.transactionHash === transactionHash && entry.logIndex === logIndex - 1
+        );
+        if (index === -1) return false;
+        const purchase = state.revenue[index];
+        state.escrows[(log.args.escrowId as bigint).toString()] = purchase;
+        state.revenue.splice(index, 1);
+        // The platform fee is charged on top of the price and isn't refunded by disputes
+        const fee = log.args.fee as bigint;
+        if (fee > BigInt(0)) {
+          state.spending.push({ ...purchase, hoursAmount: BigInt(0), totalPrice: fee, blockNumber, transactionHash, logIndex });
+        }
+        return true;
+      }
+      case 'EscrowReleased': {
+        const purchase = state.escrows[(log.args.escrowId as bigint).toString()];
+        if (!purchase) return false;
+        state.revenue.push({ ...purchase, totalPrice: log.args.amount as bigint, blockNumber, transactionHash, logIndex });
+        return true;
+      }
+      case 'DisputeOpened': {
+        state.disputes[(log.args.disputeId as bigint).toString()] = (log.args.escrowId as bigint).toString();
+        return false;
+      }
+      case 'DisputeResolved': {
+        // Refunded shares never count; the creator's share keeps the hours it paid for and the rest go back on sale
+        const escrowId = state.disputes[(log.args.disputeId as bigint).toString()];
+        const purchase = escrowId ? state.escrows[escrowId] : undefined;
+        if (!purchase) return false;
+        const creatorAmount = log.args.creatorAmount as bigint;
+        const paidHours = purchase.totalPrice === BigInt(0) ? BigInt(0) : (purchase.hoursAmount * creatorAmount) / purchase.totalPrice;
+        const token = state.tokens[purchase.tokenId];
+        if (token) token.soldHours -= purchase.hoursAmount - paidHours;
+        if (creatorAmount > BigInt(0)) {
+          state.revenue.push({ ...purchase, hoursAmount: paidHours, totalPrice: creatorAmount, blockNumber, transactionHash, logIndex });
+        }
+        const buyerAmount = log.args.buyerAmount as bigint;
+        if (buyerAmount > BigInt(0)) {
+          state.spending.push({ ...purchase, hoursAmount: paidHours - purchase.hoursAmount, totalPrice: -buyerAmount, blockNumber, transactionHash, logIndex });
+        }
+        return true;
+      }
+      case 'DisputeExpired': {
+        // Fully refunded, so every escrowed hour goes back on sale
+        const escrowId = state.disputes[(log.args.disputeId as bigint).toString()];
+        const purchase = escrowId ? state.escrows[escrowId] : undefined;
+        if (!purchase) return false;
+        const token = state.tokens[purchase.tokenId];
+        if (token) token.soldHours -= purchase.hoursAmount;
+        state.spending.push({
+          ...purchase,
+          hoursAmount: -purchase.hoursAmount,
+          totalPrice: -(log.args.refundedAmount as bigint),
+          blockNumber,
+          transactionHash,
+          logIndex
+        });
+        return true;
+      }
+      case 'ServiceCompleted': {
+        const tokenId = (log.args.tokenId as bigint).toString();
+        const completion: IndexedCompletion = {
+          tokenId,
+          buyer: log.args.buyer as string,
+          hoursCompleted: log.args.hoursCompleted as bigint,
+          blockNumber,
+          transactionHash,
+          logIndex
+        };
+        state.completions.push(completion);
+        const token = state.tokens[tokenId];
+        if (token) token.completedHours += completion.hoursCompleted;
+        return true;
+      }
+      case 'UsdPricingSet': {
+        const token = state.tokens[(log.args.tokenId as bigint).toString()];
+        if (token) token.usdPricePerHour = log.args.usdPricePerHour as bigint;
+        return true;
+      }
+      case 'TimeTokenRepriced': {
+        const token = state.tokens[(log.args.tokenId as bigint).toString()];
+        if (token && log.args.usdPriced) token.usdPricePerHour = log.args.pricePerHour as bigint;
+        if (token && !log.args.usdPriced) token.pricePerHour = log.args.pricePerHour as bigint;
+        return true;
+      }
+      case 'TimeTokenExtended': {
+        const token = state.tokens[(log.args.tokenId as bigint).toString()];
+        if (token) token.validUntil = log.args.validUntil as bigint;
+        return true;
+      }
+      case 'TimeTokenToppedUp': {
+        const token = state.tokens[(log.args.tokenId as bigint).toString()];
+        if (token) token.totalHours = log.args.totalHours as bigint;
+        return true;
+      }
+      case 'TokenStatusChanged': {
+        const token = state.tokens[(log.args.tokenId as bigint).toString()];
+        if (token) token.status = TOKEN_STATUSES[log.args.status as number];
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  // Read the fields the creation event doesn't carry, batched through multicall
+  private async hydrateTokens(chainId: number, address: `0x${string}`, state: IndexState): Promise<boolean> {
+    const pending = Object.values(state.tokens).filter(token => !token.hydrated);
+    if (pending.length === 0) return false;
+
+    let changed = false;
+    for (let i = 0; i < pending.length; i += INDEXER_CONFIG.HYDRATION_BATCH_SIZE) {
+      const batch = pending.slice(i, i + INDEXER_CONFIG.HYDRATION_BATCH_SIZE);
+      const results = await readContracts(config, {
+        contracts: batch.map(token => ({
+          address,
+          abi: TIME_TOKEN_ABI,
+          functionName: 'getTimeToken' as const,
+          args: [BigInt(token.tokenId)] as const,
+          chainId: chainId as (typeof config)['chains'][number]['id']
+        }))
+      });
+
+      results.forEach((result, index) => {
+        if (result.status !== 'success' || !result.result) {
+          console.warn('⚠️ Failed to hydrate indexed token', batch[index].tokenId, result.error);
+          return;
+        }
+        const token = batch[index];
+        token.validUntil = result.result.validUntil;
+        token.status = TOKEN_STATUSES[result.result.status];
+        token.hydrated = true;
+        changed = true;
+      });
+    }
+
+    return changed;
+  }
+
+  // Same rules as TokenizeAI.getTokenStatus, plus sellouts the index already knows about
+  private getStatus(token: IndexedToken, now: bigint): TokenStatus {
+    if (token.status !== 'Active') return token.status;
+    if (token.validUntil < now) return 'Expired';
+    if (token.totalHours <= token.soldHours) return 'SoldOut';
+    return 'Active';
+  }
+
+  // Hourly price in USD (USD_PRICING_CONFIG.USD_DECIMALS); native prices are quoted at nativeUsdPrice
+  private getUsdQuote(token: IndexedToken, nativeUsdPrice?: number | null): bigint | null {
+    if (token.usdPricePerHour > BigInt(0)) return token.usdPricePerHour;
+    if (!nativeUsdPrice) return null;
+    const scaledPrice = BigInt(Math.round(nativeUsdPrice * 10 ** USD_PRICING_CONFIG.USD_DECIMALS));
+    return (token.pricePerHour * scaledPrice) / BigInt(10) ** BigInt(18);
+  }
+
+  private getPurchasedHours(state: IndexState, buyer: string): Map<string, bigint> {
+    const hours = new Map<string, bigint>();
+    for (const purchase of state.purchases) {
+      if (purchase.buyer.toLowerCase() !== buyer.toLowerCase()) continue;
+      hours.set(purchase.tokenId, (hours.get(purchase.tokenId) ?? BigInt(0)) + purchase.hoursAmount);
+    }
+    return hours;
+  }
+
+  private toTimeToken(token: IndexedToken): TimeToken {
+    return {
+      tokenId: token.tokenId,
+      creator: token.creator,
+      serviceName: token.serviceName,
+      pricePerHour: token.pricePerHour,
+      usdPricePerHour: token.usdPricePerHour > BigInt(0) ? token.usdPricePerHour : undefined,
+      totalHours: token.totalHours,
+      availableHours: token.totalHours - token.soldHours,
+      validUntil: token.validUntil,
+      status: token.status,
+      metadataURI: token.metadataURI || undefined
+    };
+  }
+
+  private getStorageKey(chainId: number): string {
+    return `${STORAGE_PREFIX}_${chainId}_${getContractAddress(chainId).toLowerCase()}`;
+  }
+
+  private getState(chainId: number): IndexState {
+    const cached = this.states.get(chainId);
+    if (cached) return cached;
+
+    const state = this.load(chainId);
+    this.states.set(chainId, state);
+    return state;
+  }
+
+  private load(chainId: number): IndexState {
+    if (typeof window === 'undefined') return createEmptyState();
+
+    try {
+      const raw = localStorage.getItem(this.getStorageKey(chainId));
+      if (!raw) return createEmptyState();
+
+      const stored = JSON.parse(raw);
+      if (stored.version !== INDEX_VERSION) {
+        console.log('🔄 Token index format changed, rebuilding');
+        return createEmptyState();
+      }
+
+      const tokens: Record<string, IndexedToken> = {};
+      for (const [tokenId, token] of Object.entries<Serialized<IndexedToken>>(stored.tokens)) {
+        tokens[tokenId] = {
+          ...token,
+          pricePerHour: BigInt(token.pricePerHour),
+          usdPricePerHour: BigInt(token.usdPricePerHour),
+          totalHours: BigInt(token.totalHours),
+          soldHours: BigInt(token.soldHours),
+          completedHours: BigInt(token.completedHours),
+          validUntil: BigInt(token.validUntil),
+          createdBlock: BigInt(token.createdBlock)
+        };
+      }
+
+      return {
+        version: INDEX_VERSION,
+        cursor: stored.cursor === null ? null : BigInt(stored.cursor),
+        tokens,
+        purchases: stored.purchases.map(parsePurchase),
+        completions: stored.completions.map((completion: Serialized<IndexedCompletion>) => ({
+          ...completion,
+          hoursCompleted: BigInt(completion.hoursCompleted),
+          blockNumber: BigInt(completion.blockNumber)
+        })),
+        revenue: stored.revenue.map(parsePurchase),
+        spending: stored.spending.map(parsePurchase),
+        escrows: Object.fromEntries(
+          Object.entries<Serialized<IndexedPurchase>>(stored.escrows).map(([escrowId, purchase]) => [escrowId, parsePurchase(purchase)])
+        ),
+        disputes: stored.disputes
+      };
+    } catch (error) {
+      console.warn('⚠️ Failed to load token index, rebuilding:', error);
+      return createEmptyState();
+    }
+  }
+
+  private persist(chainId: number, state: IndexState): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(
+        this.getStorageKey(chainId),
+        JSON.stringify(state, (_key, value) => typeof value === 'bigint' ? value.toString() : value)
+      );
+    } catch (error) {
+      console.error('❌ Failed to persist token index:', error);
+    }
+  }
+}
+
+// Global token indexer instance
+let tokenIndexerInstance: TokenIndexerService | null = null;
+
+export const getTokenIndexer = (): TokenIndexerService => {
+  if (!tokenIndexerInstance) {
+    tokenIndexerInstance = new TokenIndexerService();
+  }
+  return tokenIndexerInstance;
+};
+
+export default TokenIndexerService;
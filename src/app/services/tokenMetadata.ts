@@ -0,0 +1,261 @@
+'use client';
+
+import { METADATA_CONFIG } from '../shared/constants';
+import type { TokenSuggestion } from './tokenizeAgent';
+
+// ERC-1155 metadata documents for time tokens. Each document is addressed by
+// its IPFS CID (CIDv1, raw codec, sha2-256), computed locally so the URI set at
+// creation is known before the transaction is signed. Pinning is best effort;
+// documents are also cached locally and verified against their CID on fetch.
+
+export interface TimeTokenMetadataProperties {
+  serviceName: string;
+  pricePerHourUSD: number;
+  totalHours: number;
+  validityDays: number;
+  category?: string;
+  tags?: string[];
+  reasoning?: string;
+  marketDemand?: TokenSuggestion['marketDemand'];
+  competitiveness?: number; // 1-10 scale
+  estimatedRevenue?: number;
+}
+
+// ERC-1155 metadata JSON schema; decimals is 0 because one unit is one hour
+export interface TimeTokenMetadata {
+  name: string;
+  description: string;
+  decimals: 0;
+  image?: string;
+  properties: TimeTokenMetadataProperties;
+}
+
+export interface MetadataCreationParams {
+  serviceName: string;
+  pricePerHour: number; // USD
+  totalHours: number;
+  validityDays: number;
+}
+
+const STORAGE_KEY = 'timeTokenizer_metadata';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const RAW_SHA256_CID_PREFIX = [0x01, 0x55, 0x12, 0x20]; // CIDv1, raw codec, sha2-256, 32-byte digest
+
+export class TokenMetadataService {
+  private documents: Map<string, TimeTokenMetadata> = new Map();
+  private pending: Map<string, Promise<TimeTokenMetadata | null>> = new Map();
+
+  // Metadata for a token the agent suggested, with the values that are actually minted
+  fromSuggestion(suggestion: TokenSuggestion, params: MetadataCreationParams): TimeTokenMetadata {
+    return {
+      name: params.serviceName,
+      description: suggestion.description,
+      decimals: 0,
+      properties: {
+        serviceName: params.serviceName,
+        pricePerHourUSD: params.pricePerHour,
+        totalHours: params.totalHours,
+        validityDays: params.validityDays,
+        category: suggestion.category,
+        tags: suggestion.tags,
+        reasoning: suggestion.reasoning,
+        marketDemand: suggestion.marketDemand,
+        competitiveness: suggestion.competitiveness,
+        estimatedRevenue: suggestion.estimatedRevenue
+      }
+    };
+  }
+
+  // Minimal metadata for tokens created without a suggestion
+  fromCreationParams(params: MetadataCreationParams): TimeTokenMetadata {
+    return {
+      name: params.serviceName,
+      description: `${params.totalHours} hours of ${params.serviceName} at $${params.pricePerHour}/hour`,
+      decimals: 0,
+      properties: {
+        serviceName: params.serviceName,
+        pricePerHourUSD: params.pricePerHour,
+        totalHours: params.totalHours,
+        validityDays: params.validityDays
+      }
+    };
+  }
+
+  // Pin the document through the server route and return its ipfs:// URI. Throws when it can't be
+  // pinned, so an unpinned CID that nobody else can resolve never goes on-chain.
+  async publish(metadata: TimeTokenMetadata): Promise<string> {
+    const body = JSON.stringify(metadata);
+    const cid = await this.computeCID(body);
+
+    this.documents.set(cid, metadata);
+    this.cacheDocument(cid, body);
+
+    const pinnedCid = await this.pin(body, metadata.name);
+    if (pinnedCid !== cid) {
+      // Pinata may wrap the file differently; the pinned CID is the one gateways can serve
+      console.warn('⚠️ Pinned metadata CID differs from the local CID:', pinnedCid, cid);
+      this.documents.set(pinnedCid, metadata);
+      this.cacheDocument(pinnedCid, body);
+    }
+    console.log('📌 Token metadata pinned:', pinnedCid);
+
+    return `ipfs://${pinnedCid}`;
+  }
+
+  // Load and verify the document behind a token URI; null when there is none or it can't be read
+  async fetchMetadata(uri: string | undefined): Promise<TimeTokenMetadata | null> {
+    if (!uri) return null;
+
+    const cid = this.getCID(uri);
+    const cacheKey = cid ?? uri;
+    const cached = this.documents.get(cacheKey);
+    if (cached) return cached;
+
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) return inFlight;
+
+    const load = this.loadDocument(uri, cid).finally(() => {
+      this.pending.delete(cacheKey);
+    });
+    this.pending.set(cacheKey, load);
+    return load;
+  }
+
+  // Browser-resolvable URL for an ipfs:// or http(s) URI
+  getGatewayUrl(uri: string): string {
+    const cid = this.getCID(uri);
+    return cid ? `${METADATA_CONFIG.IPFS_GATEWAY}${cid}` : uri;
+  }
+
+  // Clickable URL for user-supplied links: only ipfs://, ar:// and https:// resolve, anything else is null
+  getSafeLinkUrl(uri: string): string | null {
+    const cid = this.getCID(uri);
+    if (cid) return `${METADATA_CONFIG.IPFS_GATEWAY}${cid}`;
+
+    const arweave = uri.match(/^ar:\/\/([a-zA-Z0-9_-]+)$/);
+    if (arweave) return `${METADATA_CONFIG.ARWEAVE_GATEWAY}${arweave[1]}`;
+
+    try {
+      return new URL(uri).protocol === 'https:' ? uri : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async loadDocument(uri: string, cid: string | null): Promise<TimeTokenMetadata | null> {
+    try {
+      let body = cid ? this.getCachedDocument(cid) : null;
+
+      if (!body) {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), METADATA_CONFIG.FETCH_TIMEOUT);
+        try {
+          const response = await fetch(this.getGatewayUrl(uri), { signal: controller.signal });
+          if (!response.ok) {
+            throw new Error(`Metadata request failed with ${response.status}`);
+          }
+          body = await response.text();
+        } finally {
+          clearTimeout(timeout);
+        }
+
+        // Only raw sha2-256 CIDs can be checked here; other CIDs are trusted to the gateway
+        if (cid && cid.startsWith('bafkrei') && await this.computeCID(body) !== cid) {
+          throw new Error(`Metadata at ${uri} does not match its CID`);
+        }
+        if (cid) this.cacheDocument(cid, body);
+      }
+
+      const metadata = JSON.parse(body) as TimeTokenMetadata;
+      if (typeof metadata.name !== 'string') {
+        throw new Error(`Metadata at ${uri} has no name`);
+      }
+
+      this.documents.set(cid ?? uri, metadata);
+      return metadata;
+    } catch (error) {
+      console.error('❌ Failed to load token metadata:', uri, error);
+      return null;
+    }
+  }
+
+  private async pin(body: string, name: string): Promise<string> {
+    const response = await fetch(METADATA_CONFIG.PIN_ROUTE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, body })
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.cid) {
+      throw new Error(`Pinning failed with ${response.status}: ${result.error ?? 'no CID returned'}`);
+    }
+
+    return result.cid as string;
+  }
+
+  private async computeCID(body: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body)));
+    return `b${this.toBase32(new Uint8Array([...RAW_SHA256_CID_PREFIX, ...Array.from(digest)]))}`;
+  }
+
+  // RFC 4648 base32, lowercase and unpadded, as used by CIDv1 multibase 'b'
+  private toBase32(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of Array.from(bytes)) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private getCID(uri: string): string | null {
+    const match = uri.match(/^ipfs:\/\/(?:ipfs\/)?([a-zA-Z0-9]+)/);
+    return match ? match[1] : null;
+  }
+
+  private getCachedDocument(cid: string): string | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const stored: Record<string, string> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      return stored[cid] ?? null;
+    } catch (error) {
+      console.warn('⚠️ Failed to read cached token metadata:', error);
+      return null;
+    }
+  }
+
+  private cacheDocument(cid: string, body: string): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const stored: Record<string, string> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      stored[cid] = body;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('❌ Failed to cache token metadata:', error);
+    }
+  }
+}
+
+// Global token metadata instance
+let tokenMetadataInstance: TokenMetadataService | null = null;
+
+export const getTokenMetadataService = (): TokenMetadataService => {
+  if (!tokenMetadataInstance) {
+    tokenMetadataInstance = new TokenMetadataService();
+  }
+  return tokenMetadataInstance;
+};
+
+export default TokenMetadataService;
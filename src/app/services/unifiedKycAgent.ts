@@ -8,15 +8,27 @@
  * - Smart contract interaction
  * - Chainlink Functions integration
  * - NFT minting monitoring
+ * - Passes on any chain with a KYC contract
  * - Browser and Node.js compatibility
  */
 
-import { createPublicClient, createWalletClient, http, isAddress, type Address, type Hash } from 'viem';
+import { createWalletClient, http, isAddress, hexToString, parseEventLogs, zeroAddress, type Address, type Hash, type ParseEventLogsReturnType } from 'viem';
 import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import { avalancheFuji } from 'viem/chains';
-import { writeContract, readContract, waitForTransactionReceipt } from '@wagmi/core';
-import { config } from '../lib/wagmi';
-import { KYC_CONTRACT_ADDRESS, CHAINLINK_CONFIG } from '../shared/constants';
+import { writeContract, readContract, waitForTransactionReceipt, getAccount, getPublicClient, switchChain } from '@wagmi/core';
+import { config, getChainDisplayName } from '../lib/wagmi';
+import {
+    KYC_CONTRACT_ADDRESS,
+    KYC_HOME_CHAIN_ID,
+    KYC_FUNCTIONS_CONFIG,
+    CHAINLINK_CONFIG,
+    BLOCK_EXPLORERS,
+    WEB3_CONFIG,
+    TIME_TOKEN_CONTRACT_ADDRESSES,
+    getKYCContract
+} from '../shared/constants';
+import { GET_WALLET_KYC_ABI } from '../abi/GetWalletKYC.abi';
+import { TIME_TOKEN_ABI } from '../abi/TimeToken.abi';
 
 // Types
 export interface KYCResult {
@@ -27,20 +39,49 @@ export interface KYCResult {
     pending?: boolean;
     error?: string;
     hasExistingNFT?: boolean;
+    requestId?: string; // Chainlink Functions request, while pending
+    expiresAt?: number; // Unix seconds the KYC pass is valid until
+    chainId?: number; // Chain the KYC contract is on
 }
 
+// State of the wallet's on-chain KYC pass
+export type KYCPassStatus = 'active' | 'expired' | 'revoked' | 'none';
+
 export interface KYCStatus {
     hasAccess: boolean;
     kycLevel: number;
+    passStatus?: KYCPassStatus;
+    expiresAt?: number; // Unix seconds; 0 without a pass or once revoked
+    chainId?: number; // Chain the pass was found on
+}
+
+type PublicClient = NonNullable<ReturnType<typeof getPublicClient>>;
+type ConfigChainId = (typeof config)['chains'][number]['id'];
+
+// A chain's KYC pass contract and the client that reads it
+interface KYCDeployment {
+    chainId: number;
+    address: Address;
+    client: PublicClient;
 }
 
+type KYCContractLog = ParseEventLogsReturnType<typeof GET_WALLET_KYC_ABI>[number];
+type KYCResponseLog = ParseEventLogsReturnType<typeof GET_WALLET_KYC_ABI, 'Response'>[number];
+
+// How a Chainlink Functions KYC request ended
+export type KYCOutcome =
+    | { status: 'verified'; requestId: Hash; tokenId: number; kycLevel: number; transactionHash: Hash }
+    | { status: 'rejected'; requestId: Hash; reason: string; transactionHash: Hash }
+    | { status: 'functions-error'; requestId: Hash; error: string; transactionHash: Hash }
+    | { status: 'timeout'; requestId: Hash; timeoutMs: number };
+
 export interface KYCEventCallbacks {
     onKYCStart?: (walletAddress: string) => void;
     onKYCSuccess?: (result: KYCResult) => void;
     onKYCError?: (error: string) => void;
-    onNFTMinted?: (tokenId: number, contractAddress: string, transactionHash?: string) => void;
+    onNFTMinted?: (tokenId: number, contractAddress: string, transactionHash?: string, chainId?: number) => void;
     onAccessGranted?: () => void;
-    // Add this new callback:
+    onKYCOutcome?: (outcome: KYCOutcome) => void;
     onStepUpdate?: (
         stepId: string,
         status: 'pending' | 'processing' | 'completed' | 'error',
@@ -50,11 +91,8 @@ export interface KYCEventCallbacks {
 }
 
 export class UnifiedKYCAgent {
-    private contractAddress: Address;
+    private contractAddress: Address; // Home chain contract
     private subscriptionId: number;
-    private donHostedSecretsSlotID: number;
-    private donHostedSecretsVersion: number;
-    private publicClient: any;
     private walletClient: any;
     private account: PrivateKeyAccount | null = null;
 
@@ -68,14 +106,11 @@ export class UnifiedKYCAgent {
         // Contract configuration from constants - will be updated when you deploy
         this.contractAddress = KYC_CONTRACT_ADDRESS as Address;
         this.subscriptionId = CHAINLINK_CONFIG.SUBSCRIPTION_ID;
-        this.donHostedSecretsSlotID = CHAINLINK_CONFIG.DON_HOSTED_SECRETS_SLOT_ID;
-        this.donHostedSecretsVersion = CHAINLINK_CONFIG.DON_HOSTED_SECRETS_VERSION;
 
         console.log('🏗️ KYC Agent Configuration:', {
             contractAddress: this.contractAddress,
             subscriptionId: this.subscriptionId,
-            secretsSlotID: this.donHostedSecretsSlotID,
-            secretsVersion: this.donHostedSecretsVersion
+            kycChains: this.getKYCChainIds().map(getChainDisplayName)
         });
 
         this.setupClients();
@@ -84,12 +119,6 @@ export class UnifiedKYCAgent {
     private setupClients(): void {
         const rpcUrl = 'https://api.avax-test.network/ext/bc/C/rpc';
 
-        // Public client for reading
-        this.publicClient = createPublicClient({
-            chain: avalancheFuji,
-            transport: http(rpcUrl)
-        });
-
         // Setup wallet client if private key available (Node.js)
         if (typeof process !== 'undefined' && process.env?.EVM_PRIVATE_KEY) {
             try {
@@ -106,7 +135,60 @@ export class UnifiedKYCAgent {
         }
 
         console.log(`📝 KYC Contract: ${this.contractAddress}`);
-        console.log(`🔗 Network: Avalanche Fuji`);
+        console.log(`🔗 Home Network: ${getChainDisplayName(KYC_HOME_CHAIN_ID)}`);
+    }
+
+    /**
+     * Chains with a deployed KYC contract, the preferred chain first
+     */
+    getKYCChainIds(preferredChainId?: number): number[] {
+        return WEB3_CONFIG.SUPPORTED_CHAINS
+            .filter(chainId => getKYCContract(chainId) !== null)
+            .sort((a, b) => Number(b === preferredChainId) - Number(a === preferredChainId));
+    }
+
+    private getDeployment(chainId: number): KYCDeployment {
+        const address = getKYCContract(chainId);
+        if (!address) {
+            throw new Error(`No KYC contract deployed on ${getChainDisplayName(chainId)}`);
+        }
+        return { chainId, address: address as Address, client: this.getClient(chainId) };
+    }
+
+    private getClient(chainId: number): PublicClient {
+        const client = getPublicClient(config, { chainId: chainId as ConfigChainId });
+        if (!client) {
+            throw new Error(`No RPC client configured for chain ${chainId}`);
+        }
+        return client;
+    }
+
+    // Registry TokenizeAI checks KYC against on the chain; null when it doesn't check KYC there
+    private async getEnforcedRegistry(chainId: number): Promise<Address | null> {
+        const timeToken = TIME_TOKEN_CONTRACT_ADDRESSES[chainId as keyof typeof TIME_TOKEN_CONTRACT_ADDRESSES];
+        if (!timeToken || /^0x0+$/.test(timeToken)) return null;
+
+        const client = this.getClient(chainId);
+        const [registry, minCreatorLevel, minBuyerLevel] = await Promise.all([
+            client.readContract({ address: timeToken as Address, abi: TIME_TOKEN_ABI, functionName: 'kycRegistry' }),
+            client.readContract({ address: timeToken as Address, abi: TIME_TOKEN_ABI, functionName: 'minCreatorKYCLevel' }),
+            client.readContract({ address: timeToken as Address, abi: TIME_TOKEN_ABI, functionName: 'minBuyerKYCLevel' })
+        ]);
+        if (registry === zeroAddress || (minCreatorLevel === 0 && minBuyerLevel === 0)) return null;
+        return registry;
+    }
+
+    // Lapsed passes renew where they live; new ones go to the connected chain if it has a KYC contract
+    private getRequestDeployment(chainId: number | undefined, status: KYCStatus): KYCDeployment {
+        if (status.passStatus === 'expired' && status.chainId) {
+            return this.getDeployment(status.chainId);
+        }
+        return this.getDeployment(chainId && getKYCContract(chainId) ? chainId : KYC_HOME_CHAIN_ID);
+    }
+
+    private getExplorerTxUrl(chainId: number, txHash: string): string {
+        const explorer = BLOCK_EXPLORERS[chainId as keyof typeof BLOCK_EXPLORERS] ?? BLOCK_EXPLORERS[KYC_HOME_CHAIN_ID];
+        return `${explorer}/tx/${txHash}`;
     }
 
     /**
@@ -119,7 +201,7 @@ export class UnifiedKYCAgent {
     /**
      * Main KYC verification function - handles complete flow
      */
-    async verifyKYC(walletAddress: string): Promise<KYCResult> {
+    async verifyKYC(walletAddress: string, chainId?: number): Promise<KYCResult> {
         // Reset processing state if it's a different wallet or if enough time has passed
         if (this.isProcessing && this.processingWallet !== walletAddress) {
             console.log('🔄 Resetting KYC processing state for new wallet');
@@ -141,24 +223,35 @@ export class UnifiedKYCAgent {
 
             // Step 1: Check existing NFT access
             console.log('🔍 Step 1: Checking existing NFT access...');
-            const existingStatus = await this.checkKYCStatus(walletAddress);
+            const existingStatus = await this.checkKYCStatus(walletAddress, chainId);
 
             if (existingStatus.hasAccess) {
                 console.log('✅ Wallet already has KYC access! Token ID:', existingStatus.kycLevel);
 
+                const contractAddress = (existingStatus.chainId && getKYCContract(existingStatus.chainId)) || this.contractAddress;
                 const result: KYCResult = {
                     success: true,
                     tokenId: existingStatus.kycLevel,
-                    contractAddress: this.contractAddress
+                    contractAddress,
+                    expiresAt: existingStatus.expiresAt,
+                    chainId: existingStatus.chainId
                 };
 
                 this.callbacks.onKYCSuccess?.(result);
-                this.callbacks.onNFTMinted?.(existingStatus.kycLevel, this.contractAddress);
+                this.callbacks.onNFTMinted?.(existingStatus.kycLevel, contractAddress, undefined, existingStatus.chainId);
                 this.callbacks.onAccessGranted?.();
 
                 return result;
             }
 
+            // Revoked passes stay revoked until an operator clears them on-chain
+            if (existingStatus.passStatus === 'revoked') {
+                const error = 'Your KYC pass was revoked. Contact support to have it reinstated before verifying again.';
+                console.log('❌', error);
+                this.callbacks.onKYCError?.(error);
+                return { success: false, error };
+            }
+
             // Step 2: Check database KYC status
             console.log('🔍 Step 2: Checking database KYC status...');
             const isDatabaseVerified = await this.checkDatabaseKYC(walletAddress);
@@ -172,7 +265,8 @@ export class UnifiedKYCAgent {
 
             // Step 3: Trigger Chainlink Functions KYC verification
             console.log('🔗 Step 3: Triggering Chainlink Functions KYC verification...');
-            const result = await this.triggerKYCVerification(walletAddress);
+            const deployment = this.getRequestDeployment(chainId, existingStatus);
+            const result = await this.triggerKYCVerification(walletAddress, deployment);
 
             if (result.success) {
                 console.log('🎉 KYC verification request submitted successfully!');
@@ -181,12 +275,12 @@ export class UnifiedKYCAgent {
 
                 if (result.tokenId) {
                     // NFT minted immediately
-                    this.callbacks.onNFTMinted?.(result.tokenId, result.contractAddress || this.contractAddress, result.transactionHash);
+                    this.callbacks.onNFTMinted?.(result.tokenId, result.contractAddress || deployment.address, result.transactionHash, deployment.chainId);
                     this.callbacks.onAccessGranted?.();
-                } else if (result.pending) {
-                    // Start monitoring for NFT minting
-                    console.log('⏳ Starting NFT minting monitoring...');
-                    this.monitorNFTMinting(walletAddress);
+                } else if (result.pending && result.requestId) {
+                    // Wait for the Functions callback to mint or reject
+                    console.log('⏳ Waiting for Chainlink Functions request:', result.requestId);
+                    this.awaitKYCOutcome(walletAddress, result.requestId as Hash, result.transactionHash as Hash, deployment);
                 }
             } else {
                 console.log('❌ KYC verification failed:', result.error);
@@ -207,9 +301,11 @@ export class UnifiedKYCAgent {
     }
 
     /**
-     * Check if wallet already has KYC NFT and get database KYC level
+     * Check if wallet already has KYC NFT and get database KYC level.
+     * Where TokenizeAI on the given chain checks KYC, only the pass in its registry counts,
+     * as on-chain; otherwise a pass on any chain with a KYC contract does.
      */
-    async checkKYCStatus(walletAddress: string): Promise<KYCStatus> {
+    async checkKYCStatus(walletAddress: string, chainId?: number): Promise<KYCStatus> {
         try {
             console.log(`🔍 Checking KYC status for ${walletAddress}...`);
 
@@ -242,58 +338,100 @@ export class UnifiedKYCAgent {
                 console.log(`⚠️ Could not check database KYC level`);
             }
 
-            // Then check smart contract using your GetWalletKYC.sol ABI
-            const contractABI = [
-                {
-                    "inputs": [{ "name": "wallet", "type": "address" }],
-                    "name": "hasKYCAccess",
-                    "outputs": [{ "name": "", "type": "bool" }],
-                    "stateMutability": "view",
-                    "type": "function"
-                },
-                {
-                    "inputs": [{ "name": "wallet", "type": "address" }],
-                    "name": "getKYCLevel",
-                    "outputs": [{ "name": "", "type": "uint8" }],
-                    "stateMutability": "view",
-                    "type": "function"
-                }
-            ];
-
-            const [hasAccess, contractKycLevel] = await Promise.all([
-                this.publicClient.readContract({
-                    address: this.contractAddress,
-                    abi: contractABI,
-                    functionName: 'hasKYCAccess',
-                    args: [walletAddress as Address]
-                }),
-                this.publicClient.readContract({
-                    address: this.contractAddress,
-                    abi: contractABI,
-                    functionName: 'getKYCLevel',
-                    args: [walletAddress as Address]
-                })
-            ]);
-
-            if (hasAccess) {
-                console.log(`✅ Wallet already has KYC NFT!`);
-                console.log(`🎫 Contract KYC Level: ${contractKycLevel.toString()}`);
+            // Then look for the pass the chain's TokenizeAI reads, or on every KYC chain when it reads none;
+            // hasKYCAccess is false once it expires or is revoked
+            const registry = chainId ? await this.getEnforcedRegistry(chainId) : null;
+            const passes = registry && chainId
+                ? [await this.readPass(walletAddress, chainId, registry)]
+                : await Promise.all(this.getKYCChainIds(chainId).map(kycChainId =>
+                    this.readPass(walletAddress, kycChainId).catch(error => {
+                        console.warn(`⚠️ Could not read KYC pass on ${getChainDisplayName(kycChainId)}:`, error instanceof Error ? error.message : error);
+                        return null;
+                    })
+                ));
+
+            const active = passes.find(pass => pass?.passStatus === 'active');
+            if (active) {
+                console.log(`✅ Wallet already has KYC NFT on ${getChainDisplayName(active.chainId ?? KYC_HOME_CHAIN_ID)}!`);
+                console.log(`🎫 Contract KYC Level: ${active.kycLevel}`);
                 console.log(`📋 Database KYC Level: ${databaseKycLevel}`);
-                return { hasAccess: true, kycLevel: Number(contractKycLevel) };
+                console.log(`📅 Pass valid until: ${new Date((active.expiresAt ?? 0) * 1000).toLocaleDateString()}`);
+                return active;
+            }
+
+            // A chain that couldn't be read may hold the pass
+            if (passes.some(pass => pass === null)) {
+                throw new Error('KYC pass lookup incomplete');
             }
 
-            console.log(`❌ No existing NFT found for this wallet`);
+            const lapsed = passes.find(pass => pass && pass.passStatus !== 'none');
+            if (lapsed) {
+                console.log(`⚠️ KYC pass ${lapsed.passStatus} on ${getChainDisplayName(lapsed.chainId ?? KYC_HOME_CHAIN_ID)} - re-verification required`);
+            } else {
+                console.log(`❌ No existing NFT found for this wallet`);
+            }
             if (databaseKycLevel > 0) {
                 console.log(`📋 But Database KYC Level found: ${databaseKycLevel}`);
             }
-            return { hasAccess: false, kycLevel: databaseKycLevel };
+            return {
+                hasAccess: false,
+                kycLevel: databaseKycLevel,
+                passStatus: lapsed?.passStatus ?? 'none',
+                expiresAt: lapsed?.expiresAt ?? 0,
+                chainId: lapsed?.chainId
+            };
 
         } catch (error) {
             console.error(`❌ Error checking KYC status:`, error instanceof Error ? error.message : 'Unknown error');
-            return { hasAccess: false, kycLevel: 0 };
+            return { hasAccess: false, kycLevel: 0 }; // Pass status unknown
         }
     }
 
+    /**
+     * Read the wallet's pass on one chain's KYC contract, or on the given registry there
+     */
+    private async readPass(walletAddress: string, chainId: number, registry?: Address): Promise<KYCStatus> {
+        const { address, client } = registry
+            ? { address: registry, client: this.getClient(chainId) }
+            : this.getDeployment(chainId);
+        const [hasAccess, kycLevel, hasMinted, expiresAt, revoked] = await Promise.all([
+            client.readContract({
+                address,
+                abi: GET_WALLET_KYC_ABI,
+                functionName: 'hasKYCAccess',
+                args: [walletAddress as Address]
+            }),
+            client.readContract({
+                address,
+                abi: GET_WALLET_KYC_ABI,
+                functionName: 'getKYCLevel',
+                args: [walletAddress as Address]
+            }),
+            client.readContract({
+                address,
+                abi: GET_WALLET_KYC_ABI,
+                functionName: 'hasMinted',
+                args: [walletAddress as Address]
+            }),
+            client.readContract({
+                address,
+                abi: GET_WALLET_KYC_ABI,
+                functionName: 'getKYCExpiry',
+                args: [walletAddress as Address]
+            }),
+            client.readContract({
+                address,
+                abi: GET_WALLET_KYC_ABI,
+                functionName: 'revoked',
+                args: [walletAddress as Address]
+            })
+        ]);
+
+        // A cleared revocation reads as expired, so the wallet can renew
+        const passStatus: KYCPassStatus = hasAccess ? 'active' : revoked ? 'revoked' : !hasMinted ? 'none' : 'expired';
+        return { hasAccess, kycLevel: Number(kycLevel), passStatus, expiresAt: Number(expiresAt), chainId };
+    }
+
     /**
      * Check if wallet is verified in Supabase database
      */
@@ -344,117 +482,91 @@ export class UnifiedKYCAgent {
     /**
      * Trigger KYC verification using your GetWalletKYC.sol contract
      */
-    private async triggerKYCVerification(walletAddress: string): Promise<KYCResult> {
+    private async triggerKYCVerification(walletAddress: string, deployment: KYCDeployment): Promise<KYCResult> {
         try {
             if (!isAddress(walletAddress)) {
                 return { success: false, error: 'Invalid wallet address format' };
             }
 
+            const { chainId, address } = deployment;
+            const functionsConfig = KYC_FUNCTIONS_CONFIG[chainId as keyof typeof KYC_FUNCTIONS_CONFIG];
+
             console.log('🚀 Calling requestKYCVerification...');
             console.log('📋 Parameters:', {
                 walletAddress,
-                contractAddress: this.contractAddress,
-                subscriptionId: this.subscriptionId,
-                secretsSlot: this.donHostedSecretsSlotID,
-                secretsVersion: this.donHostedSecretsVersion
+                chain: getChainDisplayName(chainId),
+                contractAddress: address,
+                subscriptionId: functionsConfig.SUBSCRIPTION_ID,
+                secretsSlot: functionsConfig.DON_HOSTED_SECRETS_SLOT_ID,
+                secretsVersion: functionsConfig.DON_HOSTED_SECRETS_VERSION
             });
 
-            // Your contract's ABI for requestKYCVerification function
-            const kycABI = [
-                {
-                    "inputs": [
-                        { "name": "walletAddress", "type": "address" },
-                        { "name": "donHostedSecretsSlotID", "type": "uint8" },
-                        { "name": "donHostedSecretsVersion", "type": "uint64" },
-                        { "name": "subscriptionId", "type": "uint64" }
-                    ],
-                    "name": "requestKYCVerification",
-                    "outputs": [{ "name": "requestId", "type": "bytes32" }],
-                    "stateMutability": "nonpayable",
-                    "type": "function"
-                }
-            ];
+            // The request has to be sent on the chain the KYC contract is on
+            if (getAccount(config).chainId !== chainId) {
+                console.log(`🔀 Switching wallet to ${getChainDisplayName(chainId)} for the KYC request...`);
+                await switchChain(config, { chainId: chainId as ConfigChainId });
+            }
 
             // Call the smart contract using wagmi
             console.log('📤 Calling writeContract with parameters:', {
-                address: this.contractAddress,
+                address,
                 functionName: 'requestKYCVerification',
                 args: [
                     walletAddress,
-                    this.donHostedSecretsSlotID,
-                    this.donHostedSecretsVersion,
-                    this.subscriptionId
+                    functionsConfig.DON_HOSTED_SECRETS_SLOT_ID,
+                    functionsConfig.DON_HOSTED_SECRETS_VERSION,
+                    functionsConfig.SUBSCRIPTION_ID
                 ]
             });
 
             const txHash = await writeContract(config, {
-                address: this.contractAddress,
-                abi: kycABI,
+                chainId: chainId as ConfigChainId,
+                address,
+                abi: GET_WALLET_KYC_ABI,
                 functionName: 'requestKYCVerification',
                 args: [
                     walletAddress as `0x${string}`,
-                    BigInt(this.donHostedSecretsSlotID),
-                    BigInt(this.donHostedSecretsVersion),
-                    BigInt(this.subscriptionId)
+                    functionsConfig.DON_HOSTED_SECRETS_SLOT_ID,
+                    BigInt(functionsConfig.DON_HOSTED_SECRETS_VERSION),
+                    BigInt(functionsConfig.SUBSCRIPTION_ID)
                 ]
             });
 
             console.log('📤 Transaction submitted:', txHash);
-            console.log('🔗 View on explorer: https://testnet.snowtrace.io/tx/' + txHash);
+            console.log('🔗 View on explorer: ' + this.getExplorerTxUrl(chainId, txHash));
 
             // Store transaction hash
             this.lastTransactionHash = txHash;
 
             // Wait for transaction confirmation
-            const receipt = await waitForTransactionReceipt(config, { hash: txHash });
+            const receipt = await waitForTransactionReceipt(config, { chainId: chainId as ConfigChainId, hash: txHash });
             console.log('✅ Transaction confirmed in block:', receipt.blockNumber);
 
-            // Check if NFT was minted immediately (parse logs)
-            const logs = receipt.logs;
-            let tokenId: number | undefined;
-
-            for (const log of logs) {
-                try {
-                    // NFTMinted event signature: event NFTMinted(address indexed recipient, uint256 tokenId, uint8 kycLevel)
-                    // keccak256("NFTMinted(address,uint256,uint8)") = 0x5716925f2a990bb51e5354134a606547c86dc787be1a2729eef575fd0c2bea1e
-                    if (log.topics[0] === '0x5716925f2a990bb51e5354134a606547c86dc787be1a2729eef575fd0c2bea1e') {
-                        // Parse NFTMinted event: topics[1] = recipient address, topics[2] = tokenId
-                        const recipientAddress = '0x' + log.topics[1]?.slice(26); // Remove padding
-                        tokenId = parseInt(log.topics[2] || '0x0', 16);
-                        console.log('🎉 NFTMinted Event Detected! Recipient:', recipientAddress, 'Token ID:', tokenId);
-
-                        // Verify this NFT was minted for the correct address
-                        if (recipientAddress.toLowerCase() === walletAddress.toLowerCase()) {
-                            break;
-                        }
-                    }
-
-                    // Also check for Transfer events as fallback (ERC721 NFT minting)
-                    if (log.topics[0] === '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef') {
-                        // Check if it's a mint (from address is 0x0)
-                        if (log.topics[1] === '0x0000000000000000000000000000000000000000000000000000000000000000') {
-                            const transferTokenId = parseInt(log.topics[3] || '0x0', 16);
-                            console.log('🎉 Transfer Event (Fallback) - Token ID:', transferTokenId);
-                            if (tokenId === undefined) {
-                                tokenId = transferTokenId;
-                            }
-                        }
-                    }
-                } catch (e) {
-                    // Continue parsing other logs
-                    console.warn('Log parsing error:', e);
-                }
-            }
+            // The request id ties the Functions callback back to this transaction
+            const logs = parseEventLogs({ abi: GET_WALLET_KYC_ABI, logs: receipt.logs })
+                .filter(log => log.address.toLowerCase() === address.toLowerCase());
+            const requested = logs.find(log =>
+                log.eventName === 'KYCVerificationRequested' && log.args.wallet.toLowerCase() === walletAddress.toLowerCase()
+            );
+            const minted = logs.find(log =>
+                log.eventName === 'NFTMinted' && log.args.recipient?.toLowerCase() === walletAddress.toLowerCase()
+            );
 
-            if (tokenId !== undefined) {
+            if (minted?.eventName === 'NFTMinted') {
+                console.log('🎉 NFTMinted Event Detected! Token ID:', minted.args.tokenId.toString());
                 return {
                     success: true,
-                    tokenId,
-                    contractAddress: this.contractAddress,
-                    transactionHash: txHash
+                    tokenId: Number(minted.args.tokenId),
+                    contractAddress: address,
+                    transactionHash: txHash,
+                    chainId
                 };
             }
 
+            if (requested?.eventName !== 'KYCVerificationRequested') {
+                return { success: false, error: 'KYC request transaction did not emit KYCVerificationRequested', transactionHash: txHash };
+            }
+
             // If no immediate NFT minting, Chainlink Functions request was submitted
             console.log('✅ Chainlink Functions request submitted successfully');
             console.log('⏱️ NFT minting will happen when Chainlink processes the request (2-5 minutes)');
@@ -463,7 +575,9 @@ export class UnifiedKYCAgent {
                 success: true,
                 pending: true,
                 transactionHash: txHash,
-                contractAddress: this.contractAddress
+                contractAddress: address,
+                requestId: requested.args.requestId,
+                chainId
             };
 
         } catch (error) {
@@ -476,69 +590,148 @@ export class UnifiedKYCAgent {
     }
 
     /**
-     * Monitor for NFT minting after Chainlink Functions processing
+     * Report the outcome of a pending KYC request to the callbacks
      */
-    private async monitorNFTMinting(walletAddress: string): Promise<void> {
-        const maxAttempts = 30; // 5 minutes with 10-second intervals
-        let attempts = 0;
-
-        console.log('🔄 Starting NFT minting monitoring for wallet:', walletAddress);
-
-        const checkInterval = setInterval(async () => {
-            attempts++;
+    private async awaitKYCOutcome(walletAddress: string, requestId: Hash, requestTxHash: Hash, deployment: KYCDeployment): Promise<void> {
+        let outcome: KYCOutcome;
+        try {
+            outcome = await this.waitForKYCOutcome(walletAddress, requestId, requestTxHash, deployment);
+        } catch (error) {
+            console.error('❌ Failed to follow KYC request:', error);
+            this.callbacks.onKYCError?.('Lost track of the KYC request - please check your wallet for the KYC NFT.');
+            this.lastTransactionHash = null;
+            return;
+        }
 
-            try {
-                console.log(`🔍 Monitoring NFT minting... Attempt ${attempts}/${maxAttempts}`);
+        switch (outcome.status) {
+            case 'verified':
+                console.log('🎉 NFT successfully minted! Token ID:', outcome.tokenId, 'Level:', outcome.kycLevel);
+                console.log('🔗 View Transaction: ' + this.getExplorerTxUrl(deployment.chainId, outcome.transactionHash));
+                this.callbacks.onNFTMinted?.(outcome.tokenId, deployment.address, outcome.transactionHash, deployment.chainId);
+                this.callbacks.onAccessGranted?.();
+                break;
+            case 'rejected':
+                console.log('❌ KYC request rejected:', outcome.reason);
+                this.callbacks.onKYCError?.(`KYC rejected: ${outcome.reason}`);
+                break;
+            case 'functions-error':
+                console.log('❌ Chainlink Functions error:', outcome.error);
+                this.callbacks.onKYCError?.(`Chainlink Functions error: ${outcome.error}`);
+                break;
+            case 'timeout':
+                console.log('⏰ No Chainlink Functions response within', outcome.timeoutMs / 1000, 'seconds');
+                this.callbacks.onKYCError?.('NFT minting timeout - request submitted but Chainlink has not responded yet. Check your wallet.');
+                break;
+        }
 
-                const status = await this.checkKYCStatus(walletAddress);
+        // Typed detail goes out last so it refines the generic callbacks above
+        this.callbacks.onKYCOutcome?.(outcome);
+        this.lastTransactionHash = null;
+    }
 
-                if (status.hasAccess) {
-                    console.log('🎉 NFT successfully minted! Token ID:', status.kycLevel);
-                    console.log('📍 Contract Address:', this.contractAddress);
-                    if (this.lastTransactionHash) {
-                        console.log('🔗 Transaction Hash:', this.lastTransactionHash);
-                        console.log('🔗 View Transaction: https://testnet.snowtrace.io/tx/' + this.lastTransactionHash);
-                    }
+    /**
+     * Wait for the Functions callback matching requestId, up to CHAINLINK_CONFIG.REQUEST_TIMEOUT
+     */
+    private waitForKYCOutcome(walletAddress: string, requestId: Hash, requestTxHash: Hash, deployment: KYCDeployment): Promise<KYCOutcome> {
+        const { address, client } = deployment;
+        const timeoutMs = CHAINLINK_CONFIG.REQUEST_TIMEOUT;
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            let unwatch: () => void = () => { };
+
+            const settle = (outcome: KYCOutcome | Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                unwatch();
+                if (outcome instanceof Error) {
+                    reject(outcome);
+                } else {
+                    resolve(outcome);
+                }
+            };
+            const onResponse = (response: KYCResponseLog) => {
+                this.readKYCOutcome(walletAddress, requestId, response, deployment)
+                    .then(settle)
+                    .catch(error => settle(error instanceof Error ? error : new Error(String(error))));
+            };
 
-                    // Trigger success callbacks
-                    this.callbacks.onNFTMinted?.(status.kycLevel, this.contractAddress, this.lastTransactionHash || undefined);
-                    this.callbacks.onAccessGranted?.();
+            const timer = setTimeout(() => settle({ status: 'timeout', requestId, timeoutMs }), timeoutMs);
 
-                    clearInterval(checkInterval);
-                    this.isProcessing = false;
-                    this.processingWallet = null;
-                    this.lastTransactionHash = null;
-                    return;
-                }
+            unwatch = client.watchContractEvent({
+                address,
+                abi: GET_WALLET_KYC_ABI,
+                eventName: 'Response',
+                args: { requestId },
+                onLogs: (logs: KYCResponseLog[]) => onResponse(logs[0]),
+                onError: (error: Error) => console.warn('⚠️ KYC response subscription error:', error.message)
+            });
 
-                if (attempts >= maxAttempts) {
-                    console.log('⏰ NFT minting monitoring timeout. Please check manually.');
-                    console.log('💡 Transaction may still be processing. Check your wallet periodically.');
+            // The callback may already have landed between the request and the subscription
+            client.getTransactionReceipt({ hash: requestTxHash })
+                .then((receipt: { blockNumber: bigint }) => client.getContractEvents({
+                    address,
+                    abi: GET_WALLET_KYC_ABI,
+                    eventName: 'Response',
+                    args: { requestId },
+                    fromBlock: receipt.blockNumber
+                }))
+                .then((logs: KYCResponseLog[]) => {
+                    if (logs.length > 0) onResponse(logs[0]);
+                })
+                .catch((error: Error) => console.warn('⚠️ KYC response catch-up failed:', error.message));
+        });
+    }
 
-                    if (this.lastTransactionHash) {
-                        console.log('🔗 Your transaction: https://testnet.snowtrace.io/tx/' + this.lastTransactionHash);
-                    }
+    /**
+     * Classify a Functions Response by the events fulfillRequest emitted alongside it
+     */
+    private async readKYCOutcome(walletAddress: string, requestId: Hash, responseLog: KYCResponseLog, { address, client }: KYCDeployment): Promise<KYCOutcome> {
+        const transactionHash = responseLog.transactionHash;
+        const { response, err } = responseLog.args;
 
-                    this.callbacks.onKYCError?.('NFT minting timeout - transaction submitted but still processing. Check your wallet.');
+        if (err && err !== '0x') {
+            return { status: 'functions-error', requestId, error: hexToString(err), transactionHash };
+        }
 
-                    clearInterval(checkInterval);
-                    this.isProcessing = false;
-                    this.processingWallet = null;
-                    this.lastTransactionHash = null;
-                }
+        const logs: KYCContractLog[] = await client.getContractEvents({
+            address,
+            abi: GET_WALLET_KYC_ABI,
+            fromBlock: responseLog.blockNumber,
+            toBlock: responseLog.blockNumber
+        });
+        const sameTx = logs.filter(log => log.transactionHash === transactionHash);
+        const minted = sameTx.find(log =>
+            log.eventName === 'NFTMinted' && log.args.recipient?.toLowerCase() === walletAddress.toLowerCase()
+        );
+        const completed = sameTx.find(log =>
+            log.eventName === 'KYCVerificationCompleted' && log.args.requestId === requestId
+        );
+
+        if (minted?.eventName === 'NFTMinted' && completed?.eventName === 'KYCVerificationCompleted' && completed.args.isVerified) {
+            return {
+                status: 'verified',
+                requestId,
+                tokenId: Number(minted.args.tokenId),
+                kycLevel: Number(minted.args.kycLevel),
+                transactionHash
+            };
+        }
 
-            } catch (error) {
-                console.error('Error monitoring NFT minting:', error);
-                if (attempts >= maxAttempts) {
-                    console.log('❌ Monitoring failed after max attempts');
-                    this.callbacks.onKYCError?.('NFT monitoring failed - please check manually');
-                    clearInterval(checkInterval);
-                    this.isProcessing = false;
-                    this.processingWallet = null;
-                    this.lastTransactionHash = null;
-                }
-            }
-        }, 10000); // Check every 10 seconds
+        // GetWalletKYC answers with NOT_FOUND, ALREADY_MINTED, NOT_VERIFIED:<status> or VERIFIED:<level>
+        const answer = response && response !== '0x' ? hexToString(response) : '';
+        let reason = `Unexpected verification response "${answer}"`;
+        if (answer === 'NOT_FOUND') {
+            reason = 'Wallet not found in KYC database';
+        } else if (answer === 'ALREADY_MINTED') {
+            reason = 'The KYC database already records an NFT for this wallet';
+        } else if (answer.startsWith('NOT_VERIFIED:')) {
+            reason = `KYC not verified (Status: ${answer.slice('NOT_VERIFIED:'.length)})`;
+        } else if (answer.startsWith('VERIFIED:')) {
+            reason = `KYC level ${answer.slice('VERIFIED:'.length)} is not supported by the KYC NFT contract`;
+        }
+        return { status: 'rejected', requestId, reason, transactionHash };
     }
 
     /**
@@ -556,7 +749,8 @@ export class UnifiedKYCAgent {
             isProcessing: this.isProcessing,
             processingWallet: this.processingWallet,
             contractAddress: this.contractAddress,
-            subscriptionId: this.subscriptionId
+            subscriptionId: this.subscriptionId,
+            kycChainIds: this.getKYCChainIds()
         };
     }
 
@@ -573,10 +767,11 @@ export class UnifiedKYCAgent {
     /**
      * Check KYC status via Chainlink Functions (not local calls)
      */
-    async checkKYCStatusViaChainlink(walletAddress: string): Promise<KYCStatus> {
+    async checkKYCStatusViaChainlink(walletAddress: string, chainId: number = KYC_HOME_CHAIN_ID): Promise<KYCStatus> {
+        const { address, client } = this.getDeployment(chainId);
         try {
             console.log('🔗 Attempting to check KYC status via deployed smart contract...');
-            console.log(`📋 Contract Address: ${this.contractAddress}`);
+            console.log(`📋 Contract Address: ${address}`);
 
             // Check if contract is actually deployed by trying to call it
             const contractABI = [
@@ -598,14 +793,14 @@ export class UnifiedKYCAgent {
 
             // Try to call the contract - this will fail if not deployed
             const [hasAccess, contractKycLevel] = await Promise.all([
-                this.publicClient.readContract({
-                    address: this.contractAddress,
+                client.readContract({
+                    address,
                     abi: contractABI,
                     functionName: 'hasKYCAccess',
                     args: [walletAddress as Address]
                 }),
-                this.publicClient.readContract({
-                    address: this.contractAddress,
+                client.readContract({
+                    address,
                     abi: contractABI,
                     functionName: 'getKYCLevel',
                     args: [walletAddress as Address]
@@ -623,25 +818,26 @@ export class UnifiedKYCAgent {
             console.error('❌ Smart contract not deployed or call failed:', error);
 
             // Return proper error indicating contract is not deployed
-            throw new Error(`Smart contract not deployed at ${this.contractAddress}. Please deploy GetWalletKYC.sol first.`);
+            throw new Error(`Smart contract not deployed at ${address}. Please deploy GetWalletKYC.sol first.`);
         }
     }
 
     /**
      * Check database KYC via Chainlink Functions
      */
-    async checkDatabaseKYCViaChainlink(walletAddress: string): Promise<{ verified: boolean, kycLevel?: number, error?: string }> {
+    async checkDatabaseKYCViaChainlink(walletAddress: string, chainId: number = KYC_HOME_CHAIN_ID): Promise<{ verified: boolean, kycLevel?: number, error?: string }> {
+        const { address, client } = this.getDeployment(chainId);
         try {
             console.log('🔗 Attempting to trigger Chainlink Functions for database verification...');
-            console.log(`📋 This requires deployed smart contract at: ${this.contractAddress}`);
+            console.log(`📋 This requires deployed smart contract at: ${address}`);
 
             // Check if smart contract is deployed first
-            const contractCode = await this.publicClient.getCode({
-                address: this.contractAddress
+            const contractCode = await client.getCode({
+                address
             });
 
             if (!contractCode || contractCode === '0x') {
-                throw new Error(`No smart contract found at ${this.contractAddress}. Please deploy GetWalletKYC.sol first.`);
+                throw new Error(`No smart contract found at ${address}. Please deploy GetWalletKYC.sol first.`);
             }
 
             // If contract exists, try to trigger Chainlink Functions for database check
@@ -662,24 +858,26 @@ export class UnifiedKYCAgent {
     /**
      * Trigger NFT minting via Chainlink Functions
      */
-    async triggerNFTMintingViaChainlink(walletAddress: string): Promise<KYCResult> {
+    async triggerNFTMintingViaChainlink(walletAddress: string, chainId: number = KYC_HOME_CHAIN_ID): Promise<KYCResult> {
+        const deployment = this.getDeployment(chainId);
+        const { address, client } = deployment;
         try {
             console.log('🔗 Attempting to trigger Chainlink Functions for NFT minting...');
-            console.log(`📋 Contract Address: ${this.contractAddress}`);
+            console.log(`📋 Contract Address: ${address}`);
 
             // Check if smart contract is deployed first
-            const contractCode = await this.publicClient.getCode({
-                address: this.contractAddress
+            const contractCode = await client.getCode({
+                address
             });
 
             if (!contractCode || contractCode === '0x') {
-                throw new Error(`Smart contract not deployed at ${this.contractAddress}. Please deploy GetWalletKYC.sol first before triggering Chainlink Functions.`);
+                throw new Error(`Smart contract not deployed at ${address}. Please deploy GetWalletKYC.sol first before triggering Chainlink Functions.`);
             }
 
             console.log('✅ Smart contract found! Calling requestKYCVerification...');
 
             // This calls your actual GetWalletKYC.sol contract
-            return await this.triggerKYCVerification(walletAddress);
+            return await this.triggerKYCVerification(walletAddress, deployment);
 
         } catch (error) {
             console.error('❌ Chainlink NFT minting failed:', error);
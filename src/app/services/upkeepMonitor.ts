@@ -0,0 +1,126 @@
+'use client';
+
+import { getPublicClient } from '@wagmi/core';
+import { config } from '../lib/wagmi';
+import { TOKEN_EXPIRATION_AUTOMATION_ABI } from '../abi/TokenExpirationAutomation.abi';
+import { INDEXER_CONFIG, UPKEEP_MONITOR_CONFIG, getAutomationContract } from '../shared/constants';
+import { getTokenIndexer } from './tokenIndexer';
+
+// Reads TokenExpirationAutomation's cursor and TokensDeactivated history so views
+// can show when expired tokens were actually cleared, not when an upkeep might run.
+
+export interface UpkeepRun {
+  tokenIds: string[];
+  blockNumber: bigint;
+  timestamp: number; // Unix seconds
+  transactionHash: string;
+}
+
+export interface UpkeepStatus {
+  automationAddress: string;
+  lastCheckedTokenId: bigint;
+  recentRuns: UpkeepRun[]; // Newest first
+  searchedFromBlock: bigint; // Upkeeps before this block are not in recentRuns
+  awaitingExpiry: number; // Active tokens past validUntil that no upkeep has cleared yet
+}
+
+type PublicClient = NonNullable<ReturnType<typeof getPublicClient>>;
+
+export class UpkeepMonitorService {
+  // Null when no automation contract is deployed on the chain
+  async getStatus(chainId: number): Promise<UpkeepStatus | null> {
+    const automationAddress = getAutomationContract(chainId) as `0x${string}` | null;
+    if (!automationAddress) return null;
+
+    const client = getPublicClient(config, { chainId: chainId as (typeof config)['chains'][number]['id'] });
+    if (!client) {
+      throw new Error(`No RPC client configured for chain ${chainId}`);
+    }
+
+    const [lastCheckedTokenId, latestBlock] = await Promise.all([
+      client.readContract({
+        address: automationAddress,
+        abi: TOKEN_EXPIRATION_AUTOMATION_ABI,
+        functionName: 'lastCheckedTokenId'
+      }),
+      client.getBlockNumber()
+    ]);
+    const { runs, searchedFromBlock } = await this.findRecentRuns(client, automationAddress, latestBlock);
+
+    // Pending expiries come from the token index, which the upkeep's own events keep current
+    const indexer = getTokenIndexer();
+    await indexer.sync(chainId);
+
+    return {
+      automationAddress,
+      lastCheckedTokenId,
+      recentRuns: runs,
+      searchedFromBlock,
+      awaitingExpiry: indexer.countTokens(chainId, { awaitingExpiry: true })
+    };
+  }
+
+  // Walk back from the latest block until enough upkeeps are found or the lookback runs out
+  private async findRecentRuns(
+    client: PublicClient,
+    address: `0x${string}`,
+    latestBlock: bigint
+  ): Promise<{ runs: UpkeepRun[]; searchedFromBlock: bigint }> {
+    const floor = latestBlock > UPKEEP_MONITOR_CONFIG.LOOKBACK_BLOCKS ? latestBlock - UPKEEP_MONITOR_CONFIG.LOOKBACK_BLOCKS : BigInt(0);
+    const logs = [];
+    let toBlock = latestBlock;
+    let searchedFromBlock = latestBlock + BigInt(1);
+    let range = INDEXER_CONFIG.MAX_BLOCK_RANGE;
+
+    while (searchedFromBlock > floor && logs.length < UPKEEP_MONITOR_CONFIG.RECENT_RUNS) {
+      const fromBlock = toBlock - floor + BigInt(1) > range ? toBlock - range + BigInt(1) : floor;
+
+      let window;
+      try {
+        window = await client.getContractEvents({
+          address,
+          abi: TOKEN_EXPIRATION_AUTOMATION_ABI,
+          eventName: 'TokensDeactivated',
+          fromBlock,
+          toBlock
+        });
+      } catch (error) {
+        // Same eth_getLogs limits as the token indexer
+        if (range <= INDEXER_CONFIG.MIN_BLOCK_RANGE) throw error;
+        range = range / BigInt(2);
+        continue;
+      }
+
+      logs.push(...window.reverse());
+      searchedFromBlock = fromBlock;
+      toBlock = fromBlock - BigInt(1);
+    }
+
+    const recent = logs.slice(0, UPKEEP_MONITOR_CONFIG.RECENT_RUNS);
+    const blockNumbers = Array.from(new Set(recent.map(log => log.blockNumber)));
+    const blocks = await Promise.all(blockNumbers.map(blockNumber => client.getBlock({ blockNumber })));
+    const timestamps = new Map(blocks.map(block => [block.number, Number(block.timestamp)]));
+
+    return {
+      runs: recent.map(log => ({
+        tokenIds: ((log.args.tokenIds ?? []) as readonly bigint[]).map(tokenId => tokenId.toString()),
+        blockNumber: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        transactionHash: log.transactionHash
+      })),
+      searchedFromBlock
+    };
+  }
+}
+
+// Global upkeep monitor instance
+let upkeepMonitorInstance: UpkeepMonitorService | null = null;
+
+export const getUpkeepMonitor = (): UpkeepMonitorService => {
+  if (!upkeepMonitorInstance) {
+    upkeepMonitorInstance = new UpkeepMonitorService();
+  }
+  return upkeepMonitorInstance;
+};
+
+export default UpkeepMonitorService;
@@ -14,22 +14,51 @@ export const TIME_TOKEN_CONTRACT_ADDRESSES = {
 	[AVALANCHE_FUJI_CHAIN_ID]: "0xcEC74F686A7EEC2d818a1646996F3eDc9da890EA"
 } as const;
 
+// Blocks the Time Token contracts were deployed at; event backfill starts here.
+// Unset chains have the block located on-chain from the contract's code history, never genesis.
+const parseDeploymentBlock = (value: string | undefined): bigint | null => (value ? BigInt(value) : null);
+export const TIME_TOKEN_DEPLOYMENT_BLOCKS: Record<number, bigint | null> = {
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: parseDeploymentBlock(process.env.NEXT_PUBLIC_TIME_TOKEN_BLOCK_ETHEREUM),
+	[BASE_SEPOLIA_CHAIN_ID]: parseDeploymentBlock(process.env.NEXT_PUBLIC_TIME_TOKEN_BLOCK_BASE),
+	[AVALANCHE_FUJI_CHAIN_ID]: parseDeploymentBlock(process.env.NEXT_PUBLIC_TIME_TOKEN_BLOCK_AVALANCHE)
+};
+
+// TimeTokenResale Contract Addresses (secondary market; zero until deployed on a chain)
+export const RESALE_CONTRACT_ADDRESSES = {
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: process.env.NEXT_PUBLIC_RESALE_CONTRACT_ETHEREUM || "0x0000000000000000000000000000000000000000",
+	[BASE_SEPOLIA_CHAIN_ID]: process.env.NEXT_PUBLIC_RESALE_CONTRACT_BASE || "0x0000000000000000000000000000000000000000",
+	[AVALANCHE_FUJI_CHAIN_ID]: process.env.NEXT_PUBLIC_RESALE_CONTRACT_AVALANCHE || "0x0000000000000000000000000000000000000000"
+} as const;
+
+// TokenExpirationAutomation Contract Addresses (Chainlink Automation upkeep; zero until deployed on a chain)
+export const AUTOMATION_CONTRACT_ADDRESSES = {
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: process.env.NEXT_PUBLIC_AUTOMATION_CONTRACT_ETHEREUM || "0x0000000000000000000000000000000000000000",
+	[BASE_SEPOLIA_CHAIN_ID]: process.env.NEXT_PUBLIC_AUTOMATION_CONTRACT_BASE || "0x0000000000000000000000000000000000000000",
+	[AVALANCHE_FUJI_CHAIN_ID]: process.env.NEXT_PUBLIC_AUTOMATION_CONTRACT_AVALANCHE || "0x0000000000000000000000000000000000000000"
+} as const;
+
 // GetSkillPrice Contract Addresses (Chainlink Functions)
 export const GETSKILLPRICE_CONTRACT_ADDRESSES = {
 	[AVALANCHE_FUJI_CHAIN_ID]: process.env.NEXT_PUBLIC_GETSKILLPRICE_CONTRACT_AVALANCHE || "0x5f6b3e64a1823ab48bf4acb8b3716ac7b77defb1"
 } as const;
 
-// KYC Contract Addresses (GetWalletKYC.sol)
+// KYC Contract Addresses (GetWalletKYC.sol; zero until deployed on a chain)
 export const KYC_CONTRACT_ADDRESSES = {
-	ETHEREUM_SEPOLIA: process.env.NEXT_PUBLIC_KYC_CONTRACT_ETHEREUM || "0x0000000000000000000000000000000000000000",
-	BASE_SEPOLIA: process.env.NEXT_PUBLIC_KYC_CONTRACT_BASE || "0x0000000000000000000000000000000000000000",
-	AVALANCHE_FUJI: process.env.NEXT_PUBLIC_KYC_CONTRACT_AVALANCHE || "0xE552B807E1A1A6B2393aF3781fEc54127756be0E"
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: process.env.NEXT_PUBLIC_KYC_CONTRACT_ETHEREUM || "0x0000000000000000000000000000000000000000",
+	[BASE_SEPOLIA_CHAIN_ID]: process.env.NEXT_PUBLIC_KYC_CONTRACT_BASE || "0x0000000000000000000000000000000000000000",
+	[AVALANCHE_FUJI_CHAIN_ID]: process.env.NEXT_PUBLIC_KYC_CONTRACT_AVALANCHE || "0xE552B807E1A1A6B2393aF3781fEc54127756be0E"
 } as const;
 
+// Chain KYC passes are requested on when the connected chain has no KYC contract
+export const KYC_HOME_CHAIN_ID = AVALANCHE_FUJI_CHAIN_ID;
+
+// How often a signed-in session re-reads its KYC pass so revocations and expiries take effect
+export const KYC_RECHECK_INTERVAL = 5 * 60 * 1000;
+
 // Default contract addresses for easy access
 export const DEFAULT_TIME_TOKEN_CONTRACT = TIME_TOKEN_CONTRACT_ADDRESSES[AVALANCHE_FUJI_CHAIN_ID];
 export const DEFAULT_GETSKILLPRICE_CONTRACT = GETSKILLPRICE_CONTRACT_ADDRESSES[AVALANCHE_FUJI_CHAIN_ID];
-export const KYC_CONTRACT_ADDRESS = KYC_CONTRACT_ADDRESSES.AVALANCHE_FUJI;
+export const KYC_CONTRACT_ADDRESS = KYC_CONTRACT_ADDRESSES[KYC_HOME_CHAIN_ID];
 
 // ===== NETWORK CONFIGURATION =====
 export const RPC_URLS = {
@@ -68,7 +97,26 @@ export const CHAINLINK_CONFIG = {
 	SUBSCRIPTION_ID: parseInt(process.env.CHAINLINK_SUBSCRIPTION_ID || '15603'),
 	GAS_LIMIT: 500000,
 	BATCH_GAS_LIMIT: 1000000,
-	REQUEST_TIMEOUT: 60000
+	REQUEST_TIMEOUT: 5 * 60 * 1000 // How long to wait for a Functions callback before reporting a timeout
+} as const;
+
+// Functions subscription and DON-hosted secrets each KYC contract's requests use; the DON is per chain
+export const KYC_FUNCTIONS_CONFIG = {
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: {
+		SUBSCRIPTION_ID: parseInt(process.env.NEXT_PUBLIC_KYC_SUBSCRIPTION_ETHEREUM || '0'),
+		DON_HOSTED_SECRETS_SLOT_ID: parseInt(process.env.NEXT_PUBLIC_KYC_SECRETS_SLOT_ETHEREUM || '0'),
+		DON_HOSTED_SECRETS_VERSION: parseInt(process.env.NEXT_PUBLIC_KYC_SECRETS_VERSION_ETHEREUM || '0')
+	},
+	[BASE_SEPOLIA_CHAIN_ID]: {
+		SUBSCRIPTION_ID: parseInt(process.env.NEXT_PUBLIC_KYC_SUBSCRIPTION_BASE || '0'),
+		DON_HOSTED_SECRETS_SLOT_ID: parseInt(process.env.NEXT_PUBLIC_KYC_SECRETS_SLOT_BASE || '0'),
+		DON_HOSTED_SECRETS_VERSION: parseInt(process.env.NEXT_PUBLIC_KYC_SECRETS_VERSION_BASE || '0')
+	},
+	[AVALANCHE_FUJI_CHAIN_ID]: {
+		SUBSCRIPTION_ID: CHAINLINK_CONFIG.SUBSCRIPTION_ID,
+		DON_HOSTED_SECRETS_SLOT_ID: CHAINLINK_CONFIG.DON_HOSTED_SECRETS_SLOT_ID,
+		DON_HOSTED_SECRETS_VERSION: CHAINLINK_CONFIG.DON_HOSTED_SECRETS_VERSION
+	}
 } as const;
 
 // ===== CHAINLINK PRICE FEEDS =====
@@ -87,6 +135,80 @@ export const CHAINLINK_PRICE_FEEDS = {
 	}
 } as const;
 
+// Guards applied to latest price feed reads. Staleness allows the feed heartbeat plus a margin;
+// deviation is measured against the last price that passed these checks.
+export const PRICE_FEED_GUARDS = {
+	[AVALANCHE_FUJI_CHAIN_ID]: {
+		MAX_STALENESS_SECONDS: 86400 + 3600, // 24h heartbeat
+		MAX_DEVIATION_BPS: 2000 // 20%
+	},
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: {
+		MAX_STALENESS_SECONDS: 3600 + 900, // 1h heartbeat
+		MAX_DEVIATION_BPS: 2000
+	},
+	[BASE_SEPOLIA_CHAIN_ID]: {
+		MAX_STALENESS_SECONDS: 3600 + 900,
+		MAX_DEVIATION_BPS: 2000
+	}
+} as const;
+
+// ===== PAYMENT ASSETS =====
+// ERC-20s creators can accept besides the native currency; each must also be allowed on the contract
+export interface PaymentAssetConfig {
+	address: `0x${string}`;
+	symbol: string;
+	name: string;
+	decimals: number;
+	usdPegged: boolean; // Valued 1:1 in USD instead of through a price feed
+	icon: string;
+}
+
+export const PAYMENT_ASSETS: Record<number, readonly PaymentAssetConfig[]> = {
+	[AVALANCHE_FUJI_CHAIN_ID]: [
+		{ address: "0x5425890298aed601595a70AB815c96711a31Bc65", symbol: "USDC", name: "USD Coin", decimals: 6, usdPegged: true, icon: "💵" }
+	],
+	[ETHEREUM_SEPOLIA_CHAIN_ID]: [
+		{ address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", symbol: "USDC", name: "USD Coin", decimals: 6, usdPegged: true, icon: "💵" }
+	],
+	[BASE_SEPOLIA_CHAIN_ID]: [
+		{ address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", symbol: "USDC", name: "USD Coin", decimals: 6, usdPegged: true, icon: "💵" }
+	]
+};
+
+// ===== EVENT INDEXER CONFIGURATION =====
+export const INDEXER_CONFIG = {
+	MAX_BLOCK_RANGE: BigInt(50000), // Upper bound for a single eth_getLogs request
+	MIN_BLOCK_RANGE: BigInt(500), // Give up splitting below this and surface the RPC error
+	POLL_INTERVAL: 15000, // Tail new blocks every 15 seconds
+	HYDRATION_BATCH_SIZE: 50, // getTimeToken reads per multicall for newly indexed tokens
+	DEFAULT_PAGE_SIZE: 12
+} as const;
+
+// ===== UPKEEP MONITOR CONFIGURATION =====
+export const UPKEEP_MONITOR_CONFIG = {
+	LOOKBACK_BLOCKS: BigInt(200000), // How far back to search for past upkeeps
+	RECENT_RUNS: 5, // Upkeeps summarized in the widget
+	POLL_INTERVAL: 60000 // Refresh the widget every minute
+} as const;
+
+// ===== EXPIRY REMINDER CONFIGURATION =====
+export const EXPIRY_REMINDER_CONFIG = {
+	THRESHOLD_DAYS: [7, 3, 1], // Remind when a token is this many days from validUntil
+	EXPIRED_LOOKBACK_DAYS: 7, // Tokens that expired longer ago than this get no "expired" alert
+	SCAN_INTERVAL: 15 * 60 * 1000 // Rescan every 15 minutes
+} as const;
+
+// ===== TOKEN METADATA CONFIGURATION =====
+// Metadata JSON is addressed by its IPFS CID, so the on-chain URI always matches the document
+export const METADATA_CONFIG = {
+	IPFS_GATEWAY: process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/',
+	ARWEAVE_GATEWAY: 'https://arweave.net/',
+	PINATA_UPLOAD_URL: 'https://api.pinata.cloud/pinning/pinFileToIPFS', // Called from the pin route with the server-only PINATA_JWT
+	PIN_ROUTE: '/api/metadata',
+	MAX_DOCUMENT_SIZE: 16384, // Characters of metadata JSON the pin route accepts
+	FETCH_TIMEOUT: 10000
+} as const;
+
 // ===== SUPABASE CONFIGURATION =====
 export const SUPABASE_CONFIG = {
 	url: process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://wtsruzsccudercdaxbmp.supabase.co',
@@ -147,6 +269,24 @@ export const getTimeTokenContract = (chainId?: number): string => {
 	return TIME_TOKEN_CONTRACT_ADDRESSES[chainId as keyof typeof TIME_TOKEN_CONTRACT_ADDRESSES] || DEFAULT_TIME_TOKEN_CONTRACT;
 };
 
+// Null when no resale market is deployed on the chain
+export const getResaleContract = (chainId: number): string | null => {
+	const address = RESALE_CONTRACT_ADDRESSES[chainId as keyof typeof RESALE_CONTRACT_ADDRESSES];
+	return address && !/^0x0+$/.test(address) ? address : null;
+};
+
+// Null when no KYC pass contract is deployed on the chain
+export const getKYCContract = (chainId: number): string | null => {
+	const address = KYC_CONTRACT_ADDRESSES[chainId as keyof typeof KYC_CONTRACT_ADDRESSES];
+	return address && !/^0x0+$/.test(address) ? address : null;
+};
+
+// Null when no expiration automation is deployed on the chain
+export const getAutomationContract = (chainId: number): string | null => {
+	const address = AUTOMATION_CONTRACT_ADDRESSES[chainId as keyof typeof AUTOMATION_CONTRACT_ADDRESSES];
+	return address && !/^0x0+$/.test(address) ? address : null;
+};
+
 export const getSkillPriceContract = (chainId?: number): string => {
 	if (!chainId) return DEFAULT_GETSKILLPRICE_CONTRACT;
 	return GETSKILLPRICE_CONTRACT_ADDRESSES[chainId as keyof typeof GETSKILLPRICE_CONTRACT_ADDRESSES] || DEFAULT_GETSKILLPRICE_CONTRACT;
@@ -190,6 +330,31 @@ export const SUCCESS_MESSAGES = {
 export const FEATURE_FLAGS = {
 	ESCROW_ENABLED: true, // Default to true for demo
 	ESCROW_TIMEOUT_DAYS: 7, // Default escrow timeout
+	ESCROW_COMPLETION_DISPUTE_DAYS: 3, // Mirrors TokenizeAI.COMPLETION_DISPUTE_DAYS: buyer's window after the creator marks completion
 	ESCROW_FEE_PERCENTAGE: 2.5, // 2.5% platform fee for escrow services
-	DISPUTE_RESOLUTION_ENABLED: true // Enable dispute resolution system
-} as const;
\ No newline at end of file
+	DISPUTE_RESOLUTION_ENABLED: true, // Enable dispute resolution system
+	USD_PRICING_ENABLED: true, // Let creators peg token prices to USD via the on-chain price feed
+	STABLECOIN_PAYMENTS_ENABLED: true, // Let creators accept the ERC-20s in PAYMENT_ASSETS
+	RESALE_ENABLED: true, // Secondary market for purchased hours, where a resale contract is deployed
+	RESALE_ROYALTY_PERCENTAGE: 5 // Mirrors TimeTokenResale.royaltyBps, for display
+} as const;
+
+// USD-priced tokens are quoted from the price feed at purchase time
+export const USD_PRICING_CONFIG = {
+	USD_DECIMALS: 8, // Matches TokenizeAI.USD_DECIMALS
+	DEFAULT_SLIPPAGE_BPS: 100, // 1%
+	SLIPPAGE_OPTIONS_BPS: [50, 100, 200]
+} as const;
+// Token lifecycle states, in the order of TokenizeAI.TokenStatus
+export const TOKEN_STATUSES = ['Draft', 'Active', 'Paused', 'SoldOut', 'Expired', 'Retired'] as const;
+export type TokenStatus = typeof TOKEN_STATUSES[number];
+
+// Badge label and colours for each lifecycle state
+export const TOKEN_STATUS_DISPLAY: Record<TokenStatus, { label: string; color: string }> = {
+	Draft: { label: 'Draft', color: 'text-blue-300 bg-blue-500/20' },
+	Active: { label: 'Active', color: 'text-green-400 bg-green-500/20' },
+	Paused: { label: 'Paused', color: 'text-orange-300 bg-orange-500/20' },
+	SoldOut: { label: 'Sold Out', color: 'text-yellow-400 bg-yellow-500/20' },
+	Expired: { label: 'Expired', color: 'text-red-400 bg-red-500/20' },
+	Retired: { label: 'Retired', color: 'text-gray-400 bg-gray-500/20' }
+};